@@ -1,11 +1,32 @@
 import express from "express";
 import { config as loadDotenv } from "dotenv";
+import { GoogleGenAI, Modality } from "@google/genai";
 import { createServer as createViteServer } from "vite";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createAdminRouter } from "./server/admin.ts";
+import { createAuth, createAuthRouter, requireRole } from "./server/auth.ts";
+import { attachClassroomSockets, createClassroomHub, createClassroomRouter } from "./server/classroom.ts";
+import { openDatabase } from "./server/db.ts";
+import { createOidcClient, readOidcConfig } from "./server/oidc.ts";
+import { createProblemsRouter } from "./server/problems.ts";
+import { createProblemRecognizer, createRecognitionRouter } from "./server/recognition.ts";
+import { createSessionsRouter } from "./server/sessions.ts";
+import { createStudentsRouter } from "./server/students.ts";
+import { DEFAULT_OPENAI_VOICE, createVoicesRouter, parseSessionVoiceSettings } from "./server/voices.ts";
+import {
+  GEMINI_MOCK_BASE_PATH,
+  OPENAI_MOCK_PATH,
+  attachRealtimeMocks,
+  isMockRealtimeEnabled,
+} from "./server/mock/index.ts";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const OPENAI_REALTIME_MODEL = "gpt-realtime";
+const GEMINI_LIVE_MODEL = "gemini-2.5-flash-native-audio-preview-09-2025";
+// Ephemeral Gemini tokens: a session must be opened within the first window; messages stop after the second.
+const GEMINI_TOKEN_NEW_SESSION_TTL_MS = 60 * 1000;
+const GEMINI_TOKEN_TTL_MS = 30 * 60 * 1000;
 
 // Ensure backend-only environment variables are loaded for server routes.
 loadDotenv({ path: path.resolve(process.cwd(), ".env.local") });
@@ -14,13 +35,112 @@ loadDotenv({ path: path.resolve(process.cwd(), ".env") });
 async function startServer() {
   const app = express();
   const PORT = 3000;
+  const db = openDatabase();
+  // MOCK_REALTIME=1 swaps both voice providers for scripted local sockets; no keys or network needed
+  const mockRealtime = isMockRealtimeEnabled();
+  const classroom = createClassroomHub();
+  const auth = createAuth(db);
+  await auth.ensureAdmin(process.env.ADMIN_USERNAME, process.env.ADMIN_PASSWORD);
+  // Single sign-on is optional; without OIDC_* settings only local passwords work
+  const oidcConfig = readOidcConfig();
+  const oidc = oidcConfig ? createOidcClient(oidcConfig) : null;
+
+  // Behind a proxy, lets req.secure (and so the Secure cookie flag) follow X-Forwarded-Proto
+  if (process.env.TRUST_PROXY) app.set("trust proxy", process.env.TRUST_PROXY);
+  app.use(express.json({ limit: "1mb" }));
 
   // API routes FIRST
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok" });
   });
+  app.use("/api/auth", createAuthRouter(auth, oidc));
+
+  // Every other API route needs a signed-in user; routers check roles from req.user
+  app.use("/api", auth.requireUser);
+
+  // Lets the client offer only the voice providers this server can mint sessions for.
+  app.get("/api/providers", (_req, res) => {
+    if (mockRealtime) {
+      res.json({ providers: ["gemini", "openai"] });
+      return;
+    }
+    const providers: string[] = [];
+    if (process.env.GEMINI_API_KEY) providers.push("gemini");
+    if (process.env.OPENAI_API_KEY) providers.push("openai");
+    res.json({ providers });
+  });
+
+  // Optional body: { voice, maxResponseTokens }; they are locked into the token's connect constraints, and
+  // only they are: the instruction, tools, transcription and resumption still come from the client
+  app.post("/api/gemini/session", requireRole("student"), async (req, res) => {
+    const voiceSettings = parseSessionVoiceSettings("gemini", req.body);
+    if (typeof voiceSettings === "string") {
+      res.status(400).json({ error: voiceSettings });
+      return;
+    }
+    if (mockRealtime) {
+      // The SDK only uses the Constrained endpoint for tokens shaped like real ephemeral ones
+      res.json({ token: "auth_tokens/mock", model: GEMINI_LIVE_MODEL, baseUrl: GEMINI_MOCK_BASE_PATH });
+      return;
+    }
+
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      res.status(500).json({ error: "GEMINI_API_KEY is not configured on the server." });
+      return;
+    }
+
+    try {
+      const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: "v1alpha" } });
+      const now = Date.now();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: new Date(now + GEMINI_TOKEN_TTL_MS).toISOString(),
+          newSessionExpireTime: new Date(now + GEMINI_TOKEN_NEW_SESSION_TTL_MS).toISOString(),
+          // Without this every LiveConnectConfig field is locked, dropping the client's system instruction,
+          // tools, transcription, realtime input settings and session resumption; lock only the ones set below
+          lockAdditionalFields: [],
+          liveConnectConstraints: {
+            model: GEMINI_LIVE_MODEL,
+            config: {
+              responseModalities: [Modality.AUDIO],
+              ...(voiceSettings.voice
+                ? { speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceSettings.voice } } } }
+                : {}),
+              ...(voiceSettings.maxResponseTokens ? { maxOutputTokens: voiceSettings.maxResponseTokens } : {}),
+            },
+          },
+        },
+      });
+
+      if (!token.name) {
+        res.status(500).json({ error: "Gemini token response missing token name." });
+        return;
+      }
+
+      res.json({
+        token: token.name,
+        model: GEMINI_LIVE_MODEL,
+      });
+    } catch (error) {
+      console.error("Gemini session token creation failed:", error);
+      res.status(500).json({ error: "Unexpected error creating Gemini Live session token." });
+    }
+  });
+
+  // Optional body: { voice, speed, maxResponseTokens }
+  app.post("/api/openai/session", requireRole("student"), async (req, res) => {
+    const voiceSettings = parseSessionVoiceSettings("openai", req.body);
+    if (typeof voiceSettings === "string") {
+      res.status(400).json({ error: voiceSettings });
+      return;
+    }
+    if (mockRealtime) {
+      res.json({ clientSecret: "mock", model: OPENAI_REALTIME_MODEL, websocketUrl: OPENAI_MOCK_PATH });
+      return;
+    }
 
-  app.post("/api/openai/session", async (_req, res) => {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
       res.status(500).json({ error: "OPENAI_API_KEY is not configured on the server." });
@@ -36,7 +156,9 @@ async function startServer() {
         },
         body: JSON.stringify({
           model: OPENAI_REALTIME_MODEL,
-          voice: "alloy",
+          voice: voiceSettings.voice ?? DEFAULT_OPENAI_VOICE,
+          ...(voiceSettings.speed !== undefined ? { speed: voiceSettings.speed } : {}),
+          ...(voiceSettings.maxResponseTokens ? { max_response_output_tokens: voiceSettings.maxResponseTokens } : {}),
         }),
       });
 
@@ -66,6 +188,14 @@ async function startServer() {
     }
   });
 
+  app.use("/api/admin", requireRole("admin"), createAdminRouter(db));
+  app.use("/api/sessions", createSessionsRouter(db));
+  app.use("/api/students", createStudentsRouter(db));
+  app.use("/api/classroom", createClassroomRouter(classroom));
+  app.use("/api/problems", createProblemsRouter(db));
+  app.use("/api/voices", createVoicesRouter(mockRealtime));
+  app.use("/api/recognize-problem", createRecognitionRouter(createProblemRecognizer(mockRealtime)));
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -83,9 +213,14 @@ async function startServer() {
     });
   }
 
-  app.listen(PORT, "0.0.0.0", () => {
+  const server = app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    if (mockRealtime) console.log("Mock realtime mode: voice sessions use scripted local sockets.");
   });
+  attachClassroomSockets(server, classroom, auth);
+  if (mockRealtime) {
+    attachRealtimeMocks(server);
+  }
 }
 
 startServer();
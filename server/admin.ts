@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import { Router } from "express";
+import { MIN_PASSWORD_LENGTH, ROLES, Role, UserRow, hashPassword, toAuthUser } from "./auth.ts";
+import type { Db } from "./db.ts";
+import { isNonEmptyString } from "./validation.ts";
+
+interface ClassRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+function toClass(row: ClassRow) {
+  return { id: row.id, name: row.name, createdAt: row.created_at };
+}
+
+function toAdminUser(row: UserRow) {
+  return { ...toAuthUser(row), hasPassword: row.password_hash !== null, oidcLinked: row.oidc_subject !== null };
+}
+
+function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Admin routes for accounts and classes:
+ *   GET    /classes              list classes
+ *   POST   /classes              create a class: { name }
+ *   GET    /users                list users
+ *   POST   /users                create a user: { username, displayName, role, classId?, password?, studentId? }
+ *   POST   /users/:id/password   set a user's password: { password }; signs them out everywhere
+ *   DELETE /users/:id            delete a user; their student profile and history are kept
+ *
+ * A new student gets a student profile in their class, or is linked to an
+ * existing profile (`studentId`), which then moves into their class. Users
+ * without a password sign in through single sign-on only.
+ */
+export function createAdminRouter(db: Db): Router {
+  const router = Router();
+
+  const selectClasses = db.prepare(`SELECT * FROM classes ORDER BY name COLLATE NOCASE`);
+  const selectClass = db.prepare(`SELECT * FROM classes WHERE id = ?`);
+  const insertClass = db.prepare(`INSERT INTO classes (id, name, created_at) VALUES (?, ?, ?)`);
+  const selectUsers = db.prepare(`SELECT * FROM users ORDER BY role, display_name COLLATE NOCASE`);
+  const selectUser = db.prepare(`SELECT * FROM users WHERE id = ?`);
+  const selectUsername = db.prepare(`SELECT id FROM users WHERE username = ?`);
+  const insertUser = db.prepare(`
+    INSERT INTO users (id, username, password_hash, display_name, role, class_id, student_id, created_at)
+    VALUES (@id, @username, @passwordHash, @displayName, @role, @classId, @studentId, @createdAt)
+  `);
+  const updatePassword = db.prepare(`UPDATE users SET password_hash = ? WHERE id = ?`);
+  const deleteUser = db.prepare(`DELETE FROM users WHERE id = ?`);
+  const deleteUserSessions = db.prepare(`DELETE FROM auth_sessions WHERE user_id = ?`);
+  const selectStudent = db.prepare(`SELECT id FROM students WHERE id = ?`);
+  const selectStudentUser = db.prepare(`SELECT id FROM users WHERE student_id = ?`);
+  const insertStudent = db.prepare(`INSERT INTO students (id, name, created_at, class_id) VALUES (?, ?, ?, ?)`);
+  const moveStudent = db.prepare(`UPDATE students SET class_id = ? WHERE id = ?`);
+
+  router.get("/classes", (_req, res) => {
+    res.json({ classes: (selectClasses.all() as ClassRow[]).map(toClass) });
+  });
+
+  router.post("/classes", (req, res) => {
+    const name = req.body?.name;
+    if (!isNonEmptyString(name) || name.trim().length > MAX_NAME_LENGTH) {
+      res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+    const id = randomUUID();
+    insertClass.run(id, name.trim(), new Date().toISOString());
+    res.status(201).json({ class: toClass(selectClass.get(id) as ClassRow) });
+  });
+
+  router.get("/users", (_req, res) => {
+    res.json({ users: (selectUsers.all() as UserRow[]).map(toAdminUser) });
+  });
+
+  router.post("/users", async (req, res) => {
+    const { username, displayName, role, classId, password, studentId } = req.body ?? {};
+    if (!isNonEmptyString(username) || username.trim().length > MAX_NAME_LENGTH) {
+      res.status(400).json({ error: `username must be 1 to ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+    if (!isNonEmptyString(displayName) || displayName.trim().length > MAX_NAME_LENGTH) {
+      res.status(400).json({ error: `displayName must be 1 to ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+    if (!isRole(role)) {
+      res.status(400).json({ error: "role must be student, teacher or admin." });
+      return;
+    }
+    if (role !== "admin" && (!isNonEmptyString(classId) || !selectClass.get(classId))) {
+      res.status(400).json({ error: "Students and teachers need the classId of an existing class." });
+      return;
+    }
+    if (password !== undefined && (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)) {
+      res.status(400).json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+      return;
+    }
+    if (studentId !== undefined && role !== "student") {
+      res.status(400).json({ error: "Only students can be linked to a student profile." });
+      return;
+    }
+    if (studentId !== undefined && (!isNonEmptyString(studentId) || !selectStudent.get(studentId))) {
+      res.status(400).json({ error: "Unknown studentId." });
+      return;
+    }
+    if (studentId !== undefined && selectStudentUser.get(studentId)) {
+      res.status(409).json({ error: "That student profile already belongs to a user." });
+      return;
+    }
+    if (selectUsername.get(username.trim())) {
+      res.status(409).json({ error: "That username is taken." });
+      return;
+    }
+
+    const passwordHash = password === undefined ? null : await hashPassword(password);
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const userClassId = role === "admin" ? null : classId;
+    db.transaction(() => {
+      let profileId: string | null = null;
+      if (role === "student") {
+        profileId = studentId ?? randomUUID();
+        if (studentId === undefined) insertStudent.run(profileId, displayName.trim(), now, userClassId);
+        else moveStudent.run(userClassId, profileId);
+      }
+      insertUser.run({
+        id,
+        username: username.trim(),
+        passwordHash,
+        displayName: displayName.trim(),
+        role,
+        classId: userClassId,
+        studentId: profileId,
+        createdAt: now,
+      });
+    })();
+    res.status(201).json({ user: toAdminUser(selectUser.get(id) as UserRow) });
+  });
+
+  router.post("/users/:id/password", async (req, res) => {
+    const password = req.body?.password;
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+      return;
+    }
+    const passwordHash = await hashPassword(password);
+    if (updatePassword.run(passwordHash, req.params.id).changes === 0) {
+      res.status(404).json({ error: "User not found." });
+      return;
+    }
+    deleteUserSessions.run(req.params.id);
+    res.json({ user: toAdminUser(selectUser.get(req.params.id) as UserRow) });
+  });
+
+  router.delete("/users/:id", (req, res) => {
+    if (req.params.id === req.user?.id) {
+      res.status(400).json({ error: "You cannot delete your own account." });
+      return;
+    }
+    if (deleteUser.run(req.params.id).changes === 0) {
+      res.status(404).json({ error: "User not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,360 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import { NextFunction, Request, RequestHandler, Response, Router } from "express";
+import type { Db } from "./db.ts";
+import type { OidcClient } from "./oidc.ts";
+import { isNonEmptyString } from "./validation.ts";
+
+export type Role = "student" | "teacher" | "admin";
+
+export const ROLES: Role[] = ["student", "teacher", "admin"];
+
+/** The signed-in user, as routes and the client see them. */
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  classId: string | null;
+  /** The student profile a student signs in as; null for teachers and admins. */
+  studentId: string | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by `requireUser` for every route mounted after it. */
+      user?: AuthUser;
+    }
+  }
+}
+
+export interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string | null;
+  display_name: string;
+  role: Role;
+  class_id: string | null;
+  student_id: string | null;
+  oidc_issuer: string | null;
+  oidc_subject: string | null;
+  created_at: string;
+}
+
+export const SESSION_COOKIE = "tutor_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+// Failed sign-ins per username before it is locked for the rest of the window
+const MAX_FAILED_LOGINS = 10;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// scrypt cost parameters; they are stored with each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 64;
+
+function scryptAsync(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: n, r, p }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/** Hashes a password as `scrypt$N$r$p$salt$key`, salt and key base64. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), Number(n), Number(r), Number(p));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function toAuthUser(row: UserRow): AuthUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    classId: row.class_id,
+    studentId: row.student_id,
+  };
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator < 0) continue;
+    const name = part.slice(0, separator).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      // A malformed cookie from another app on the host is not ours to read
+    }
+  }
+  return cookies;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** True when the user may see a class's students: its teacher, or an admin. */
+export function canTeachClass(user: AuthUser, classId: string | null): boolean {
+  if (user.role === "admin") return true;
+  return user.role === "teacher" && user.classId !== null && user.classId === classId;
+}
+
+/**
+ * Lets a route through only for the given roles; admins pass every check.
+ * Mount after `requireUser`.
+ */
+export function requireRole(...roles: Role[]): RequestHandler {
+  return (req, res, next) => {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: "Sign in first." });
+      return;
+    }
+    if (user.role !== "admin" && !roles.includes(user.role)) {
+      res.status(403).json({ error: `Only ${roles.map((role) => `${role}s`).join(" and ")} can do this.` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Sign-in state: users are kept in SQLite and a signed-in browser holds an
+ * HttpOnly cookie with a random token, of which only the hash is stored.
+ */
+export function createAuth(db: Db) {
+  const selectUserByToken = db.prepare(`
+    SELECT u.* FROM auth_sessions a JOIN users u ON u.id = a.user_id
+    WHERE a.token_hash = ? AND a.expires_at > ?
+  `);
+  const selectUserByUsername = db.prepare(`SELECT * FROM users WHERE username = ?`);
+  const selectUserByOidc = db.prepare(`SELECT * FROM users WHERE oidc_issuer = ? AND oidc_subject = ?`);
+  const linkOidc = db.prepare(`UPDATE users SET oidc_issuer = ?, oidc_subject = ? WHERE id = ?`);
+  const insertAuthSession = db.prepare(`
+    INSERT INTO auth_sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)
+  `);
+  const deleteAuthSession = db.prepare(`DELETE FROM auth_sessions WHERE token_hash = ?`);
+  const deleteExpiredSessions = db.prepare(`DELETE FROM auth_sessions WHERE expires_at <= ?`);
+  const countAdmins = db.prepare(`SELECT COUNT(*) AS count FROM users WHERE role = 'admin'`);
+  const insertUser = db.prepare(`
+    INSERT INTO users (id, username, password_hash, display_name, role, created_at)
+    VALUES (?, ?, ?, ?, 'admin', ?)
+  `);
+
+  const failedLogins = new Map<string, { count: number; since: number }>();
+
+  /** The user a request's session cookie belongs to; works on WebSocket upgrade requests too. */
+  const userFromRequest = (req: IncomingMessage): AuthUser | null => {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (!token) return null;
+    const row = selectUserByToken.get(hashToken(token), new Date().toISOString()) as UserRow | undefined;
+    return row ? toAuthUser(row) : null;
+  };
+
+  /** Express middleware: routes mounted after it need a signed-in user, available as `req.user`. */
+  const requireUser: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    const user = userFromRequest(req);
+    if (!user) {
+      res.status(401).json({ error: "Sign in first." });
+      return;
+    }
+    req.user = user;
+    next();
+  };
+
+  const signIn = (req: Request, res: Response, userId: string) => {
+    const token = randomBytes(32).toString("base64url");
+    const now = Date.now();
+    deleteExpiredSessions.run(new Date(now).toISOString());
+    insertAuthSession.run(
+      hashToken(token),
+      userId,
+      new Date(now).toISOString(),
+      new Date(now + SESSION_TTL_MS).toISOString()
+    );
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: req.secure,
+      path: "/",
+      maxAge: SESSION_TTL_MS,
+    });
+  };
+
+  const signOut = (req: Request, res: Response) => {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (token) deleteAuthSession.run(hashToken(token));
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+  };
+
+  /** Checks a username and password, with a per-username lockout after repeated failures. */
+  const verifyLogin = async (username: string, password: string): Promise<AuthUser | "locked" | null> => {
+    const key = username.toLowerCase();
+    const now = Date.now();
+    const failures = failedLogins.get(key);
+    if (failures && now - failures.since > FAILED_LOGIN_WINDOW_MS) failedLogins.delete(key);
+    if ((failedLogins.get(key)?.count ?? 0) >= MAX_FAILED_LOGINS) return "locked";
+
+    const row = selectUserByUsername.get(username) as UserRow | undefined;
+    if (row?.password_hash && (await verifyPassword(password, row.password_hash))) {
+      failedLogins.delete(key);
+      return toAuthUser(row);
+    }
+    const entry = failedLogins.get(key) ?? { count: 0, since: now };
+    entry.count += 1;
+    failedLogins.set(key, entry);
+    return null;
+  };
+
+  /**
+   * The user an identity provider vouched for: one already linked to that
+   * subject, or else one whose username is the verified email, which is linked
+   * on first use. Nobody is created this way; an admin adds users first.
+   */
+  const findOidcUser = (issuer: string, subject: string, email: string | null): AuthUser | null => {
+    const linked = selectUserByOidc.get(issuer, subject) as UserRow | undefined;
+    if (linked) return toAuthUser(linked);
+    if (!email) return null;
+    const row = selectUserByUsername.get(email) as UserRow | undefined;
+    if (!row || row.oidc_subject !== null) return null;
+    linkOidc.run(issuer, subject, row.id);
+    return toAuthUser(row);
+  };
+
+  /** Creates the first admin from ADMIN_USERNAME and ADMIN_PASSWORD when there is none yet. */
+  const ensureAdmin = async (username: string | undefined, password: string | undefined) => {
+    if ((countAdmins.get() as { count: number }).count > 0) return;
+    if (!isNonEmptyString(username) || !password || password.length < MIN_PASSWORD_LENGTH) {
+      console.warn(
+        `No admin user exists. Set ADMIN_USERNAME and ADMIN_PASSWORD (at least ${MIN_PASSWORD_LENGTH} characters) to create one.`
+      );
+      return;
+    }
+    insertUser.run(randomUUID(), username.trim(), await hashPassword(password), username.trim(), new Date().toISOString());
+    console.log(`Created admin user "${username.trim()}".`);
+  };
+
+  return { userFromRequest, requireUser, signIn, signOut, verifyLogin, findOidcUser, ensureAdmin };
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+// Stands in for this site's origin when resolving `next`
+const NEXT_PATH_BASE = "http://next.invalid";
+
+/**
+ * Only same-site paths are followed after sign-in. Browsers read `/\evil.com`
+ * as `//evil.com`, so backslashes are refused. The rest is resolved as a
+ * browser would: `//evil.com` or a tab inside the slashes lands on another
+ * origin, and dot segments (`/..//evil.com`) can leave a path that does.
+ */
+function safeNextPath(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/") || value.includes("\\")) return "/";
+  const url = new URL(value, NEXT_PATH_BASE);
+  if (url.origin !== NEXT_PATH_BASE || url.pathname.startsWith("//")) return "/";
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Sign-in routes, reachable without a session:
+ *   GET  /config          which sign-in methods are on: { oidc: { label } | null }
+ *   POST /login           { username, password } sets the session cookie
+ *   POST /logout          ends the session
+ *   GET  /me              the signed-in user, or 401
+ *   GET  /oidc/start      redirects to the identity provider (?next= the page to return to)
+ *   GET  /oidc/callback   the identity provider's redirect back; signs in and redirects to next
+ */
+export function createAuthRouter(auth: Auth, oidc: OidcClient | null): Router {
+  const router = Router();
+
+  router.get("/config", (_req, res) => {
+    res.json({ oidc: oidc ? { label: oidc.label } : null });
+  });
+
+  router.post("/login", async (req, res) => {
+    const { username, password } = req.body ?? {};
+    if (!isNonEmptyString(username) || typeof password !== "string" || !password) {
+      res.status(400).json({ error: "username and password are required." });
+      return;
+    }
+    try {
+      const user = await auth.verifyLogin(username.trim(), password);
+      if (user === "locked") {
+        res.status(429).json({ error: "Too many failed sign-ins. Try again in 15 minutes." });
+        return;
+      }
+      if (!user) {
+        res.status(401).json({ error: "Wrong username or password." });
+        return;
+      }
+      auth.signIn(req, res, user.id);
+      res.json({ user });
+    } catch (error) {
+      console.error("Sign-in failed:", error);
+      res.status(500).json({ error: "Unexpected error signing in." });
+    }
+  });
+
+  router.post("/logout", (req, res) => {
+    auth.signOut(req, res);
+    res.status(204).end();
+  });
+
+  router.get("/me", (req, res) => {
+    const user = auth.userFromRequest(req);
+    if (!user) {
+      res.status(401).json({ error: "Sign in first." });
+      return;
+    }
+    res.json({ user });
+  });
+
+  router.get("/oidc/start", async (req, res) => {
+    if (!oidc) {
+      res.status(404).json({ error: "Single sign-on is not configured." });
+      return;
+    }
+    try {
+      res.redirect(await oidc.authorizationUrl(req, safeNextPath(req.query.next)));
+    } catch (error) {
+      console.error("OIDC sign-in could not start:", error);
+      res.redirect(`/login?error=${encodeURIComponent("Single sign-on is unavailable right now.")}`);
+    }
+  });
+
+  router.get("/oidc/callback", async (req, res) => {
+    if (!oidc) {
+      res.status(404).json({ error: "Single sign-on is not configured." });
+      return;
+    }
+    try {
+      const result = await oidc.handleCallback(req);
+      const user = auth.findOidcUser(result.issuer, result.subject, result.email);
+      if (!user) {
+        const message = "Your account is not set up here yet. Ask your teacher or an admin to add you.";
+        res.redirect(`/login?error=${encodeURIComponent(message)}`);
+        return;
+      }
+      auth.signIn(req, res, user.id);
+      res.redirect(result.next);
+    } catch (error) {
+      console.error("OIDC sign-in failed:", error);
+      res.redirect(`/login?error=${encodeURIComponent("Single sign-on failed. Try again.")}`);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,510 @@
+import type { Server } from "http";
+import { Request, Response, Router } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { Auth, AuthUser, Role, canTeachClass, requireRole } from "./auth.ts";
+import { isNonEmptyString } from "./validation.ts";
+
+/** Socket each student's tutor page reports its live session on. */
+export const CLASSROOM_SOCKET_PATH = "/api/classroom/live";
+/** Socket the dashboard opens (`?sessionId=`) while the teacher talks to a student directly. */
+export const TEACHER_TALK_SOCKET_PATH = "/api/classroom/talk";
+
+export type LiveConnectionState = "idle" | "connecting" | "connected" | "reconnecting";
+export type LiveRole = "user" | "agent";
+
+/** One student's running tutoring session, as the teacher dashboard sees it. */
+export interface LiveSession {
+  id: string;
+  studentName: string;
+  studentId: string | null;
+  provider: string;
+  /** The voice session's state; "idle" once the student has ended the call. */
+  connection: LiveConnectionState;
+  /** False once the student's page has gone away; the tile is kept for a while after. */
+  online: boolean;
+  speaking: LiveRole | null;
+  problem: { question: string; index: number; total: number } | null;
+  problemStartedAt: string | null;
+  /** Counted for the current problem only. */
+  wrongAnswers: number;
+  tutorReplies: number;
+  solved: boolean;
+  /** Why the student looks stuck on the current problem, or null. */
+  stuck: string | null;
+  /** The teacher paused the AI tutor. */
+  tutorPaused: boolean;
+  /** The teacher's microphone is live to the student. */
+  teacherTalking: boolean;
+  /** Private notes the teacher sent into the session, oldest first. */
+  teacherNotes: string[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface LiveTurn {
+  seq: number;
+  role: LiveRole;
+  text: string;
+}
+
+/** What the dashboard stream carries. */
+export type ClassroomEvent =
+  | { type: "snapshot"; sessions: (LiveSession & { transcript: LiveTurn[] })[] }
+  | { type: "session"; session: LiveSession }
+  | { type: "transcript"; sessionId: string; turn: LiveTurn }
+  | { type: "removed"; sessionId: string };
+
+interface LiveEntry {
+  session: LiveSession;
+  transcript: LiveTurn[];
+  /** The last turn is still receiving transcript deltas. */
+  turnOpen: boolean;
+  socket: WebSocket | null;
+  teacherSocket: WebSocket | null;
+  /** The signed-in student reporting it, and the class whose teachers see it. */
+  userId: string;
+  classId: string | null;
+}
+
+// Rolling transcript kept per student; the stored session has the full one
+const MAX_TRANSCRIPT_TURNS = 60;
+const MAX_TRANSCRIPT_DELTA_LENGTH = 2000;
+// Ended sessions stay on the dashboard this long, so the teacher sees who just finished
+const ENDED_SESSION_RETENTION_MS = 10 * 60 * 1000;
+const STUCK_CHECK_INTERVAL_MS = 15 * 1000;
+// A student who reaches any one of these on the current problem is flagged as stuck
+const STUCK_WRONG_ANSWERS = 3;
+const STUCK_TUTOR_REPLIES = 6;
+const STUCK_PROBLEM_MS = 5 * 60 * 1000;
+export const MAX_TEACHER_NOTE_LENGTH = 500;
+const MAX_TEACHER_NOTES = 20;
+// Base64 of a 20 ms PCM16 frame is under 1 KB; anything far larger is not talk audio
+const MAX_AUDIO_FRAME_LENGTH = 16 * 1024;
+
+const CONNECTION_STATES: LiveConnectionState[] = ["idle", "connecting", "connected", "reconnecting"];
+
+function isRole(value: unknown): value is LiveRole {
+  return value === "user" || value === "agent";
+}
+
+function stuckReason(session: LiveSession, now: number): string | null {
+  if (!session.problem || session.solved || session.connection === "idle" || session.tutorPaused) return null;
+  if (session.wrongAnswers >= STUCK_WRONG_ANSWERS) return `${session.wrongAnswers} wrong answers`;
+  if (session.tutorReplies >= STUCK_TUTOR_REPLIES) return `${session.tutorReplies} hints without solving`;
+  const elapsed = session.problemStartedAt ? now - new Date(session.problemStartedAt).getTime() : 0;
+  if (elapsed >= STUCK_PROBLEM_MS) return `${Math.floor(elapsed / 60000)} min on this problem`;
+  return null;
+}
+
+/**
+ * Live state of every student session in the classroom. Student pages report
+ * over a WebSocket (see `handleStudentSocket` for the messages); dashboards
+ * subscribe to the resulting events.
+ */
+export function createClassroomHub() {
+  const entries = new Map<string, LiveEntry>();
+  const listeners = new Set<{ viewer: AuthUser; listener: (event: ClassroomEvent) => void }>();
+
+  // Teachers only hear about their own class
+  const emit = (classId: string | null, event: ClassroomEvent) => {
+    for (const { viewer, listener } of listeners) {
+      if (canTeachClass(viewer, classId)) listener(event);
+    }
+  };
+
+  const publish = (entry: LiveEntry) => {
+    const now = Date.now();
+    entry.session.stuck = stuckReason(entry.session, now);
+    entry.session.updatedAt = new Date(now).toISOString();
+    emit(entry.classId, { type: "session", session: { ...entry.session } });
+  };
+
+  const appendTranscript = (entry: LiveEntry, role: LiveRole, text: string) => {
+    const last = entry.transcript[entry.transcript.length - 1];
+    let turn: LiveTurn;
+    if (last && entry.turnOpen && last.role === role) {
+      last.text += text;
+      turn = last;
+    } else {
+      turn = { seq: (last?.seq ?? -1) + 1, role, text };
+      entry.transcript.push(turn);
+      if (entry.transcript.length > MAX_TRANSCRIPT_TURNS) entry.transcript.shift();
+      entry.turnOpen = true;
+    }
+    emit(entry.classId, { type: "transcript", sessionId: entry.session.id, turn: { ...turn } });
+  };
+
+  const sendToStudent = (entry: LiveEntry, message: object) => {
+    if (entry.socket?.readyState === WebSocket.OPEN) entry.socket.send(JSON.stringify(message));
+  };
+
+  const endTeacherTalk = (entry: LiveEntry, reason: string) => {
+    const teacherSocket = entry.teacherSocket;
+    if (!teacherSocket) return;
+    entry.teacherSocket = null;
+    entry.session.teacherTalking = false;
+    sendToStudent(entry, { type: "talk", active: false });
+    teacherSocket.close(1000, reason);
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entries.delete(id);
+    emit(entry.classId, { type: "removed", sessionId: id });
+  };
+
+  // Time on a problem grows without any message arriving, so stuck flags are re-checked on a timer
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const entry of entries.values()) {
+      const { session } = entry;
+      if (!session.online && now - new Date(session.updatedAt).getTime() > ENDED_SESSION_RETENTION_MS) {
+        remove(session.id);
+      } else if (stuckReason(session, now) !== session.stuck) {
+        publish(entry);
+      }
+    }
+  }, STUCK_CHECK_INTERVAL_MS);
+  sweep.unref();
+
+  /**
+   * Messages from a signed-in student's page, JSON, the first being `hello`:
+   *   { type: "hello", sessionId, provider }                      (re)opens the live session with that id
+   *   { type: "state", state }                                    voice session state
+   *   { type: "turn", role, active }                              a turn started or ended
+   *   { type: "transcript", role, text }                          transcript delta
+   *   { type: "problem", question, index, total }                 a problem of the set started
+   *   { type: "answer", correct }                                 an answer went through the answer check
+   *   { type: "audio", data }                                     base64 PCM16 microphone audio while the teacher talks
+   *   { type: "end" }                                             the student ended the call
+   *
+   * and to it, sent on the teacher's behalf:
+   *   { type: "whisper", text }                                   a private note for the tutor
+   *   { type: "pause", paused }                                   pause or resume the AI tutor
+   *   { type: "talk", active }                                    the teacher's microphone went live or stopped
+   *   { type: "teacher-audio", data }                             base64 PCM16 audio from the teacher
+   */
+  const handleStudentSocket = (socket: WebSocket, user: AuthUser) => {
+    let entry: LiveEntry | null = null;
+
+    socket.on("message", (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      if (message?.type === "hello") {
+        if (!isNonEmptyString(message.sessionId) || message.sessionId.length > 100) {
+          socket.close(1008, "hello needs a sessionId.");
+          return;
+        }
+        const now = new Date().toISOString();
+        const existing = entries.get(message.sessionId);
+        if (existing && existing.userId !== user.id) {
+          socket.close(1008, "That session belongs to another student.");
+          return;
+        }
+        if (existing?.socket && existing.socket !== socket) {
+          existing.socket.close(1000, "Replaced by a newer connection.");
+        }
+        entry = existing ?? {
+          session: {
+            id: message.sessionId,
+            studentName: "",
+            studentId: null,
+            provider: "",
+            connection: "connecting",
+            online: true,
+            speaking: null,
+            problem: null,
+            problemStartedAt: null,
+            wrongAnswers: 0,
+            tutorReplies: 0,
+            solved: false,
+            stuck: null,
+            tutorPaused: false,
+            teacherTalking: false,
+            teacherNotes: [],
+            startedAt: now,
+            updatedAt: now,
+          },
+          transcript: [],
+          turnOpen: false,
+          socket: null,
+          teacherSocket: null,
+          userId: user.id,
+          classId: user.classId,
+        };
+        entry.socket = socket;
+        entry.session.online = true;
+        // Who the student is comes from their account, never from the page
+        entry.session.studentName = user.displayName;
+        entry.session.studentId = user.studentId;
+        entry.session.provider = isNonEmptyString(message.provider) ? message.provider : "";
+        entries.set(entry.session.id, entry);
+        publish(entry);
+        return;
+      }
+      if (!entry) return;
+      const { session } = entry;
+
+      if (message?.type === "audio") {
+        if (typeof message.data === "string" && message.data.length <= MAX_AUDIO_FRAME_LENGTH) {
+          const teacherSocket = entry.teacherSocket;
+          if (teacherSocket?.readyState === WebSocket.OPEN) {
+            teacherSocket.send(JSON.stringify({ type: "audio", data: message.data }));
+          }
+        }
+        return;
+      }
+
+      switch (message?.type) {
+        case "state":
+          if (!CONNECTION_STATES.includes(message.state)) return;
+          session.connection = message.state;
+          if (message.state !== "connected") session.speaking = null;
+          break;
+        case "turn":
+          if (!isRole(message.role)) return;
+          if (message.active) {
+            session.speaking = message.role;
+          } else {
+            if (session.speaking === message.role) session.speaking = null;
+            if (entry.transcript[entry.transcript.length - 1]?.role === message.role) entry.turnOpen = false;
+            if (message.role === "agent") session.tutorReplies += 1;
+          }
+          break;
+        case "transcript":
+          if (!isRole(message.role) || typeof message.text !== "string" || !message.text) return;
+          appendTranscript(entry, message.role, message.text.slice(0, MAX_TRANSCRIPT_DELTA_LENGTH));
+          return;
+        case "problem":
+          const { question, index, total } = message;
+          if (!isNonEmptyString(question) || !Number.isInteger(index) || !Number.isInteger(total)) return;
+          session.problem = { question, index, total };
+          session.problemStartedAt = new Date().toISOString();
+          session.wrongAnswers = 0;
+          session.tutorReplies = 0;
+          session.solved = false;
+          break;
+        case "answer":
+          if (message.correct === true) session.solved = true;
+          else if (message.correct === false) session.wrongAnswers += 1;
+          else return;
+          break;
+        case "end":
+          session.connection = "idle";
+          session.speaking = null;
+          session.tutorPaused = false;
+          endTeacherTalk(entry, "The student ended the session.");
+          break;
+        default:
+          return;
+      }
+      publish(entry);
+    });
+
+    socket.on("close", () => {
+      if (!entry || entry.socket !== socket) return;
+      entry.socket = null;
+      entry.session.online = false;
+      entry.session.speaking = null;
+      endTeacherTalk(entry, "The student disconnected.");
+      publish(entry);
+    });
+  };
+
+  /**
+   * The teacher's talk socket: JSON `{ type: "audio", data }` frames of base64 PCM16 at 16 kHz
+   * go to the student, and the student's microphone comes back the same way. Opening it pauses
+   * the AI tutor; closing it leaves the tutor paused until the teacher resumes it.
+   */
+  const handleTeacherSocket = (socket: WebSocket, sessionId: string, viewer: AuthUser) => {
+    const entry = entries.get(sessionId);
+    if (!entry?.socket || !canTeachClass(viewer, entry.classId)) {
+      socket.close(1008, "That student is not connected.");
+      return;
+    }
+    endTeacherTalk(entry, "Replaced by a newer connection.");
+    entry.teacherSocket = socket;
+    entry.session.teacherTalking = true;
+    if (!entry.session.tutorPaused) {
+      entry.session.tutorPaused = true;
+      sendToStudent(entry, { type: "pause", paused: true });
+    }
+    sendToStudent(entry, { type: "talk", active: true });
+    publish(entry);
+
+    socket.on("message", (raw) => {
+      if (entry.teacherSocket !== socket) return;
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (message?.type !== "audio" || typeof message.data !== "string") return;
+      if (message.data.length > MAX_AUDIO_FRAME_LENGTH) return;
+      sendToStudent(entry, { type: "teacher-audio", data: message.data });
+    });
+
+    socket.on("close", () => {
+      if (entry.teacherSocket !== socket) return;
+      entry.teacherSocket = null;
+      entry.session.teacherTalking = false;
+      sendToStudent(entry, { type: "talk", active: false });
+      publish(entry);
+    });
+  };
+
+  /** A live session, if the viewer teaches its class. */
+  const get = (id: string, viewer: AuthUser): LiveSession | null => {
+    const entry = entries.get(id);
+    return entry && canTeachClass(viewer, entry.classId) ? { ...entry.session } : null;
+  };
+
+  /** Sends a private note into a connected student's session for the tutor. */
+  const whisper = (id: string, text: string) => {
+    const entry = entries.get(id);
+    if (!entry?.socket) return;
+    entry.session.teacherNotes = [...entry.session.teacherNotes, text].slice(-MAX_TEACHER_NOTES);
+    sendToStudent(entry, { type: "whisper", text });
+    publish(entry);
+  };
+
+  /** Pauses or resumes a connected student's AI tutor; resuming also ends the teacher's talk. */
+  const setTutorPaused = (id: string, paused: boolean) => {
+    const entry = entries.get(id);
+    if (!entry?.socket) return;
+    if (!paused) endTeacherTalk(entry, "The tutor was resumed.");
+    entry.session.tutorPaused = paused;
+    sendToStudent(entry, { type: "pause", paused });
+    publish(entry);
+  };
+
+  const snapshot = (viewer: AuthUser): ClassroomEvent => ({
+    type: "snapshot",
+    sessions: [...entries.values()]
+      .filter((entry) => canTeachClass(viewer, entry.classId))
+      .map((entry) => ({
+        ...entry.session,
+        transcript: entry.transcript.map((turn) => ({ ...turn })),
+      })),
+  });
+
+  const subscribe = (viewer: AuthUser, listener: (event: ClassroomEvent) => void) => {
+    const subscription = { viewer, listener };
+    listeners.add(subscription);
+    return () => {
+      listeners.delete(subscription);
+    };
+  };
+
+  return { handleStudentSocket, handleTeacherSocket, snapshot, subscribe, get, whisper, setTutorPaused };
+}
+
+export type ClassroomHub = ReturnType<typeof createClassroomHub>;
+
+/**
+ * Accepts student report and teacher talk sockets on the app's HTTP server;
+ * other upgrade requests are left alone. Both need a signed-in user of the
+ * right role, checked on the upgrade request's session cookie.
+ */
+export function attachClassroomSockets(server: Server, hub: ClassroomHub, auth: Auth) {
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname, searchParams } = new URL(req.url ?? "/", "http://localhost");
+    const role: Role | null =
+      pathname === CLASSROOM_SOCKET_PATH ? "student" : pathname === TEACHER_TALK_SOCKET_PATH ? "teacher" : null;
+    if (!role) return;
+
+    const user = auth.userFromRequest(req);
+    if (!user || (user.role !== role && user.role !== "admin")) {
+      socket.end(user ? "HTTP/1.1 403 Forbidden\r\n\r\n" : "HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return;
+    }
+    if (role === "student") {
+      wss.handleUpgrade(req, socket, head, (ws) => hub.handleStudentSocket(ws, user));
+    } else {
+      const sessionId = searchParams.get("sessionId") ?? "";
+      wss.handleUpgrade(req, socket, head, (ws) => hub.handleTeacherSocket(ws, sessionId, user));
+    }
+  });
+}
+
+// Comment lines keep proxies from closing an idle stream
+const STREAM_KEEPALIVE_MS = 25 * 1000;
+
+/**
+ * Teacher dashboard routes:
+ *   GET  /events                server-sent events: a `snapshot` of every live session with its transcript,
+ *                               then `session`, `transcript` and `removed` updates as they happen
+ *   POST /sessions/:id/whisper  { text } sends a private note to the student's tutor
+ *   POST /sessions/:id/pause    { paused } pauses or resumes the student's tutor
+ * Teachers see and command only their own class. Mount after `requireUser`.
+ */
+export function createClassroomRouter(hub: ClassroomHub): Router {
+  const router = Router();
+  router.use(requireRole("teacher"));
+
+  router.get("/events", (req, res) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const send = (event: ClassroomEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    send(hub.snapshot(req.user!));
+    const unsubscribe = hub.subscribe(req.user!, send);
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), STREAM_KEEPALIVE_MS);
+
+    req.on("close", () => {
+      clearInterval(keepalive);
+      unsubscribe();
+    });
+  });
+
+  /** The live session a command is for, or null once the response has been sent. */
+  const connectedSession = (req: Request, res: Response): LiveSession | null => {
+    const session = hub.get(req.params.id, req.user!);
+    if (!session) {
+      res.status(404).json({ error: "Live session not found." });
+      return null;
+    }
+    if (!session.online || session.connection === "idle") {
+      res.status(409).json({ error: "The student is not in a tutoring session right now." });
+      return null;
+    }
+    return session;
+  };
+
+  router.post("/sessions/:id/whisper", (req, res) => {
+    const text = req.body?.text;
+    if (!isNonEmptyString(text) || text.trim().length > MAX_TEACHER_NOTE_LENGTH) {
+      res.status(400).json({ error: `text must be 1 to ${MAX_TEACHER_NOTE_LENGTH} characters.` });
+      return;
+    }
+    if (!connectedSession(req, res)) return;
+    hub.whisper(req.params.id, text.trim());
+    res.json({ session: hub.get(req.params.id, req.user!) });
+  });
+
+  router.post("/sessions/:id/pause", (req, res) => {
+    if (typeof req.body?.paused !== "boolean") {
+      res.status(400).json({ error: "paused must be true or false." });
+      return;
+    }
+    if (!connectedSession(req, res)) return;
+    hub.setTutorPaused(req.params.id, req.body.paused);
+    res.json({ session: hub.get(req.params.id, req.user!) });
+  });
+
+  return router;
+}
@@ -0,0 +1,157 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+export type Db = Database.Database;
+
+/**
+ * Schema migrations, applied in order. `PRAGMA user_version` records how many
+ * have run, so append new entries at the end and never edit old ones.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE tutoring_sessions (
+    id TEXT PRIMARY KEY,
+    problem TEXT NOT NULL,
+    correct_answer TEXT NOT NULL,
+    wrong_attempt TEXT,
+    provider TEXT NOT NULL,
+    model TEXT,
+    started_at TEXT NOT NULL,
+    ended_at TEXT
+  );
+  CREATE INDEX idx_tutoring_sessions_started_at ON tutoring_sessions (started_at);
+
+  CREATE TABLE transcript_turns (
+    session_id TEXT NOT NULL REFERENCES tutoring_sessions (id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'agent')),
+    text TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    PRIMARY KEY (session_id, seq)
+  );
+  `,
+  `
+  CREATE TABLE problems (
+    id TEXT PRIMARY KEY,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    solution TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_problems_updated_at ON problems (updated_at);
+  `,
+  `
+  CREATE TABLE whiteboard_items (
+    session_id TEXT NOT NULL REFERENCES tutoring_sessions (id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('step', 'sketch')),
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (session_id, seq)
+  );
+  `,
+  `
+  CREATE TABLE students (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE tutoring_sessions ADD COLUMN student_id TEXT REFERENCES students (id) ON DELETE SET NULL;
+  CREATE INDEX idx_tutoring_sessions_student_id ON tutoring_sessions (student_id);
+
+  CREATE TABLE problem_outcomes (
+    id TEXT PRIMARY KEY,
+    student_id TEXT NOT NULL REFERENCES students (id) ON DELETE CASCADE,
+    session_id TEXT REFERENCES tutoring_sessions (id) ON DELETE SET NULL,
+    question TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    solved INTEGER NOT NULL CHECK (solved IN (0, 1)),
+    hints_used INTEGER NOT NULL,
+    wrong_answers INTEGER NOT NULL,
+    mistakes TEXT NOT NULL DEFAULT '[]',
+    duration_ms INTEGER NOT NULL,
+    completed_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_problem_outcomes_student_id ON problem_outcomes (student_id, completed_at);
+
+  CREATE TABLE student_skills (
+    student_id TEXT NOT NULL REFERENCES students (id) ON DELETE CASCADE,
+    skill TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    solved INTEGER NOT NULL,
+    hints_used INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    mastery REAL NOT NULL,
+    mistakes TEXT NOT NULL DEFAULT '{}',
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (student_id, skill)
+  );
+  `,
+  `
+  CREATE TABLE classes (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE students ADD COLUMN class_id TEXT REFERENCES classes (id) ON DELETE SET NULL;
+  CREATE INDEX idx_students_class_id ON students (class_id);
+
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT,
+    display_name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('student', 'teacher', 'admin')),
+    class_id TEXT REFERENCES classes (id) ON DELETE SET NULL,
+    student_id TEXT UNIQUE REFERENCES students (id) ON DELETE SET NULL,
+    oidc_issuer TEXT,
+    oidc_subject TEXT,
+    created_at TEXT NOT NULL,
+    UNIQUE (oidc_issuer, oidc_subject)
+  );
+
+  CREATE TABLE auth_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_auth_sessions_user_id ON auth_sessions (user_id);
+  `,
+  `
+  CREATE TABLE problem_assignments (
+    class_id TEXT NOT NULL REFERENCES classes (id) ON DELETE CASCADE,
+    problem_id TEXT NOT NULL REFERENCES problems (id) ON DELETE CASCADE,
+    assigned_at TEXT NOT NULL,
+    PRIMARY KEY (class_id, problem_id)
+  );
+  `,
+];
+
+function migrate(db: Db) {
+  const currentVersion = db.pragma("user_version", { simple: true }) as number;
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+export function openDatabase(filename = process.env.DATABASE_PATH || path.resolve(process.cwd(), "data", "tutor.db")): Db {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "crypto";
+import type { WebSocket } from "ws";
+import {
+  MOCK_OUTPUT_SAMPLE_RATE,
+  MockTutorScript,
+  ScriptCursor,
+  createEnergyVad,
+  createMockSpeaker,
+  createScriptCursor,
+  decodePcm16,
+  tutorLineToolCalls,
+} from "./script.ts";
+
+/** Path suffix the @google/genai SDK appends to its base URL for Live sessions. */
+export const GEMINI_LIVE_MOCK_PATH = /\/ws\/google\.ai\.generativelanguage\.\w+\.GenerativeService\.BidiGenerateContent\w*$/;
+
+// Script position per outstanding resumption handle, so a resumed session continues the script
+const resumableCursors = new Map<string, ScriptCursor>();
+// Real handles stay valid for a while after a drop; the mock keeps them this long
+const RESUMPTION_HANDLE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Emulates one Gemini Live session: answers `setup` with `setupComplete`,
+ * replies to completed client turns and detected student speech with scripted
+ * `serverContent` (inline PCM plus output transcription), and reports barge-in
+ * as `interrupted`. When the client asks for session resumption it issues
+ * handles after each turn and accepts them on a later connection.
+ */
+export function handleGeminiLiveMock(socket: WebSocket, script: MockTutorScript) {
+  let cursor = createScriptCursor(script);
+  let resumable = false;
+  let handle: string | null = null;
+  let declaredTools = new Set<string>();
+  // Automatic activity detection off: the client brackets each student turn with activityStart/activityEnd
+  let manualActivity = false;
+  const speaker = createMockSpeaker(MOCK_OUTPUT_SAMPLE_RATE);
+
+  const send = (message: object) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const issueResumptionHandle = () => {
+    if (!resumable) return;
+    if (handle) resumableCursors.delete(handle);
+    handle = randomUUID();
+    resumableCursors.set(handle, cursor);
+    send({ sessionResumptionUpdate: { newHandle: handle, resumable: true } });
+  };
+
+  const reply = () => {
+    const line = cursor.nextTutorLine();
+    const calls = tutorLineToolCalls(line, declaredTools);
+    if (calls.length > 0) {
+      send({ toolCall: { functionCalls: calls.map((call) => ({ id: randomUUID(), ...call })) } });
+    }
+    speaker.speak(line.text, {
+      onAudio: (data) =>
+        send({
+          serverContent: {
+            modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${MOCK_OUTPUT_SAMPLE_RATE}`, data } }] },
+          },
+        }),
+      onText: (text) => send({ serverContent: { outputTranscription: { text } } }),
+      onDone: () => {
+        send({ serverContent: { generationComplete: true } });
+        send({ serverContent: { turnComplete: true } });
+        issueResumptionHandle();
+      },
+    });
+  };
+
+  const vad = createEnergyVad({
+    onSpeechStart: () => {
+      if (speaker.stop()) send({ serverContent: { interrupted: true } });
+    },
+    onSpeechEnd: () => {
+      send({ serverContent: { inputTranscription: { text: cursor.peekStudentLine() } } });
+      reply();
+    },
+  });
+
+  socket.on("message", (raw) => {
+    let message: any;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.setup) {
+      const resumption = message.setup.sessionResumption;
+      if (resumption?.handle) {
+        const resumed = resumableCursors.get(resumption.handle);
+        if (!resumed) {
+          socket.close(1008, "Unknown session resumption handle.");
+          return;
+        }
+        resumableCursors.delete(resumption.handle);
+        cursor = resumed;
+      }
+      resumable = resumption !== undefined;
+      declaredTools = new Set(
+        (message.setup.tools ?? []).flatMap((tool: any) =>
+          (tool.functionDeclarations ?? []).map((declaration: any) => declaration.name)
+        )
+      );
+      manualActivity = message.setup.realtimeInputConfig?.automaticActivityDetection?.disabled === true;
+      send({ setupComplete: {} });
+      issueResumptionHandle();
+      return;
+    }
+
+    if (message.clientContent?.turnComplete) {
+      if (speaker.stop()) send({ serverContent: { interrupted: true } });
+      reply();
+      return;
+    }
+
+    const input = message.realtimeInput;
+    if (input?.activityStart && manualActivity) {
+      if (speaker.stop()) send({ serverContent: { interrupted: true } });
+      return;
+    }
+    if (input?.activityEnd && manualActivity) {
+      send({ serverContent: { inputTranscription: { text: cursor.peekStudentLine() } } });
+      reply();
+      return;
+    }
+    if (input && !manualActivity) {
+      const chunks = [...(input.mediaChunks ?? []), input.audio, input.media].filter(Boolean);
+      for (const chunk of chunks) {
+        if (typeof chunk.mimeType === "string" && chunk.mimeType.startsWith("audio/pcm") && chunk.data) {
+          vad.push(decodePcm16(chunk.data));
+        }
+      }
+      if (input.audioStreamEnd) vad.flush();
+    }
+  });
+
+  socket.on("close", () => {
+    speaker.stop();
+    if (handle) {
+      const staleHandle = handle;
+      setTimeout(() => resumableCursors.delete(staleHandle), RESUMPTION_HANDLE_TTL_MS).unref();
+    }
+  });
+}
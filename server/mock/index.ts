@@ -0,0 +1,49 @@
+import type { Server } from "http";
+import { WebSocketServer } from "ws";
+import { GEMINI_LIVE_MOCK_PATH, handleGeminiLiveMock } from "./gemini-live.ts";
+import { handleOpenAiRealtimeMock } from "./openai-realtime.ts";
+import { loadMockScript } from "./script.ts";
+
+export const GEMINI_MOCK_BASE_PATH = "/mock/gemini";
+export const OPENAI_MOCK_PATH = "/mock/openai/realtime";
+
+export function isMockRealtimeEnabled(): boolean {
+  return process.env.MOCK_REALTIME === "1" || process.env.MOCK_REALTIME === "true";
+}
+
+/**
+ * Serves the mock Gemini Live and OpenAI Realtime sockets on the app's own
+ * HTTP server. Other upgrade requests (e.g. Vite HMR) are left alone.
+ */
+export function attachRealtimeMocks(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const handler =
+      pathname.startsWith(`${GEMINI_MOCK_BASE_PATH}/`) && GEMINI_LIVE_MOCK_PATH.test(pathname)
+        ? handleGeminiLiveMock
+        : pathname === OPENAI_MOCK_PATH
+          ? handleOpenAiRealtimeMock
+          : null;
+    if (!handler) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      try {
+        // Re-read per connection so fixture edits apply without a restart
+        handler(ws, loadMockScript());
+      } catch (error) {
+        console.error("Mock realtime session failed to start:", error);
+        ws.close(1011, "Mock fixture could not be loaded.");
+        return;
+      }
+
+      // Simulates a dropped network connection, for exercising reconnect
+      const dropAfterMs = Number(process.env.MOCK_REALTIME_DROP_AFTER_MS);
+      if (dropAfterMs > 0) {
+        const timer = setTimeout(() => ws.terminate(), dropAfterMs);
+        ws.on("close", () => clearTimeout(timer));
+      }
+    });
+  });
+}
@@ -0,0 +1,186 @@
+import { randomUUID } from "crypto";
+import type { WebSocket } from "ws";
+import {
+  MOCK_OUTPUT_SAMPLE_RATE,
+  MockTutorScript,
+  createEnergyVad,
+  createMockSpeaker,
+  createScriptCursor,
+  decodePcm16,
+  tutorLineToolCalls,
+} from "./script.ts";
+
+/**
+ * Emulates one OpenAI Realtime session over a WebSocket, using the same JSON
+ * events the app exchanges on the WebRTC `oai-events` data channel. Since
+ * there is no media track, audio travels as `input_audio_buffer.append` and
+ * `response.audio.delta` events, the way the Realtime WebSocket API carries it.
+ */
+export function handleOpenAiRealtimeMock(socket: WebSocket, script: MockTutorScript) {
+  const cursor = createScriptCursor(script);
+  const speaker = createMockSpeaker(MOCK_OUTPUT_SAMPLE_RATE);
+  let turnDetection: { create_response?: boolean; interrupt_response?: boolean; silence_duration_ms?: number } | null = {
+    create_response: true,
+  };
+  // With turn detection off (push to talk), whether the input buffer holds audio to commit
+  let hasBufferedAudio = false;
+  let activeResponseId: string | null = null;
+  let activeOutput: object[] = [];
+  let declaredTools = new Set<string>();
+
+  const send = (event: object) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify({ event_id: `event_${randomUUID()}`, ...event }));
+    }
+  };
+
+  const finishResponse = (status: "completed" | "cancelled") => {
+    if (!activeResponseId) return;
+    send({
+      type: "response.done",
+      response: { id: activeResponseId, object: "realtime.response", status, output: activeOutput },
+    });
+    activeResponseId = null;
+    activeOutput = [];
+  };
+
+  const createResponse = () => {
+    if (speaker.stop()) finishResponse("cancelled");
+    const responseId = `resp_${randomUUID()}`;
+    const itemId = `item_${randomUUID()}`;
+    activeResponseId = responseId;
+    activeOutput = [];
+    send({ type: "response.created", response: { id: responseId, object: "realtime.response", status: "in_progress" } });
+
+    const line = cursor.nextTutorLine();
+    for (const { name, args } of tutorLineToolCalls(line, declaredTools)) {
+      const call = {
+        id: `item_${randomUUID()}`,
+        type: "function_call",
+        call_id: `call_${randomUUID()}`,
+        name,
+        arguments: JSON.stringify(args),
+      };
+      const callIndex = activeOutput.length;
+      activeOutput.push(call);
+      send({ type: "response.output_item.added", response_id: responseId, output_index: callIndex, item: call });
+      send({
+        type: "response.function_call_arguments.done",
+        response_id: responseId,
+        item_id: call.id,
+        output_index: callIndex,
+        call_id: call.call_id,
+        name: call.name,
+        arguments: call.arguments,
+      });
+      send({ type: "response.output_item.done", response_id: responseId, output_index: callIndex, item: call });
+    }
+
+    const outputIndex = activeOutput.length;
+    const message = { id: itemId, type: "message", role: "assistant", status: "in_progress", content: [] };
+    activeOutput.push(message);
+    send({ type: "response.output_item.added", response_id: responseId, output_index: outputIndex, item: message });
+    const ids = { response_id: responseId, item_id: itemId, output_index: outputIndex, content_index: 0 };
+    speaker.speak(line.text, {
+      onAudio: (delta) => send({ type: "response.audio.delta", ...ids, delta }),
+      onText: (delta) => send({ type: "response.audio_transcript.delta", ...ids, delta }),
+      onDone: () => {
+        send({ type: "response.audio.done", ...ids });
+        send({ type: "response.audio_transcript.done", ...ids, transcript: line.text });
+        message.status = "completed";
+        send({ type: "response.output_item.done", response_id: responseId, output_index: outputIndex, item: message });
+        finishResponse("completed");
+      },
+    });
+  };
+
+  /** Commits the student's audio as a user item and reports its (scripted) transcription. */
+  const commitStudentTurn = (itemId: string) => {
+    send({ type: "input_audio_buffer.committed", item_id: itemId });
+    send({
+      type: "conversation.item.created",
+      item: { id: itemId, type: "message", role: "user", content: [{ type: "input_audio" }] },
+    });
+    send({
+      type: "conversation.item.input_audio_transcription.completed",
+      item_id: itemId,
+      content_index: 0,
+      transcript: cursor.peekStudentLine(),
+    });
+  };
+
+  const createVad = (silenceMs?: number) =>
+    createEnergyVad({
+      silenceMs,
+      onSpeechStart: () => {
+        send({ type: "input_audio_buffer.speech_started", item_id: `item_${randomUUID()}` });
+        if (turnDetection?.interrupt_response !== false && speaker.stop()) finishResponse("cancelled");
+      },
+      onSpeechEnd: () => {
+        const itemId = `item_${randomUUID()}`;
+        send({ type: "input_audio_buffer.speech_stopped", item_id: itemId });
+        commitStudentTurn(itemId);
+        if (turnDetection?.create_response !== false) createResponse();
+      },
+    });
+  let vad = createVad();
+
+  socket.on("message", (raw) => {
+    let event: any;
+    try {
+      event = JSON.parse(raw.toString());
+    } catch {
+      send({ type: "error", error: { type: "invalid_request_error", message: "Events must be JSON." } });
+      return;
+    }
+
+    switch (event.type) {
+      case "session.update":
+        if (event.session && "turn_detection" in event.session) {
+          turnDetection = event.session.turn_detection;
+          vad = createVad(turnDetection?.silence_duration_ms);
+        }
+        if (Array.isArray(event.session?.tools)) {
+          declaredTools = new Set(event.session.tools.map((tool: any) => tool.name));
+        }
+        send({ type: "session.updated", session: { object: "realtime.session", ...event.session } });
+        return;
+      case "input_audio_buffer.append":
+        if (typeof event.audio !== "string") return;
+        if (turnDetection) vad.push(decodePcm16(event.audio));
+        else hasBufferedAudio = true;
+        return;
+      case "input_audio_buffer.commit":
+        if (turnDetection) {
+          vad.flush();
+        } else if (hasBufferedAudio) {
+          hasBufferedAudio = false;
+          commitStudentTurn(`item_${randomUUID()}`);
+        } else {
+          send({ type: "error", error: { type: "invalid_request_error", message: "Input audio buffer is empty." } });
+        }
+        return;
+      case "input_audio_buffer.clear":
+        hasBufferedAudio = false;
+        send({ type: "input_audio_buffer.cleared" });
+        return;
+      case "conversation.item.create":
+        send({ type: "conversation.item.created", item: { id: `item_${randomUUID()}`, ...event.item } });
+        return;
+      case "response.create":
+        createResponse();
+        return;
+      case "response.cancel":
+        if (speaker.stop()) finishResponse("cancelled");
+        return;
+      default:
+        return;
+    }
+  });
+
+  socket.on("close", () => {
+    speaker.stop();
+  });
+
+  send({ type: "session.created", session: { object: "realtime.session", id: `sess_${randomUUID()}` } });
+}
@@ -0,0 +1,280 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+/** Both mocks speak PCM16 mono at the rate the real services use for output. */
+export const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+/** The capture worklet always sends 16 kHz PCM16, whichever provider is mocked. */
+export const MOCK_INPUT_SAMPLE_RATE = 16000;
+
+// Audio is streamed in slices of this length, paced in real time like a live service
+const SPEECH_CHUNK_MS = 100;
+// Sent up front so the client's jitter buffer fills before real-time pacing starts
+const SPEECH_LEAD_CHUNKS = 2;
+
+export interface MockExchange {
+  /** What the mock pretends it heard when the student stops talking. */
+  student: string;
+  /** The scripted tutor reply to that turn. */
+  tutor: string;
+  /** Written form of the reply with $...$ math, sent on the text channel; defaults to `tutor`. */
+  written?: string;
+  /** LaTeX step the tutor writes on the whiteboard with this reply. */
+  board?: string;
+}
+
+export interface TutorLine {
+  text: string;
+  written: string;
+  board?: string;
+}
+
+export interface MockTutorScript {
+  greeting: string;
+  turns: MockExchange[];
+  /** Tutor line used once the scripted turns run out. */
+  fallback: string;
+}
+
+/**
+ * Loads `server/mock/fixtures/<name>.json`. The fixture name comes from
+ * MOCK_REALTIME_FIXTURE and defaults to "default".
+ */
+export function loadMockScript(name = process.env.MOCK_REALTIME_FIXTURE || "default"): MockTutorScript {
+  const file = path.join(FIXTURES_DIR, `${path.basename(name)}.json`);
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (typeof parsed?.greeting !== "string" || !Array.isArray(parsed.turns)) {
+    throw new Error(`Mock fixture ${file} needs a greeting string and a turns array.`);
+  }
+  return {
+    greeting: parsed.greeting,
+    turns: parsed.turns
+      .filter((turn: any) => typeof turn?.student === "string" && typeof turn?.tutor === "string")
+      .map((turn: any) => ({
+        student: turn.student,
+        tutor: turn.tutor,
+        written: typeof turn.written === "string" ? turn.written : undefined,
+        board: typeof turn.board === "string" ? turn.board : undefined,
+      })),
+    fallback: typeof parsed.fallback === "string" ? parsed.fallback : "Let's keep working on this problem.",
+  };
+}
+
+export interface ScriptCursor {
+  /** The transcript for the student turn that is about to be answered. */
+  peekStudentLine: () => string;
+  /** The greeting on the first call, then the next scripted reply. */
+  nextTutorLine: () => TutorLine;
+}
+
+export function createScriptCursor(script: MockTutorScript): ScriptCursor {
+  let greeted = false;
+  let index = 0;
+  return {
+    peekStudentLine: () => script.turns[index]?.student ?? "Okay.",
+    nextTutorLine: () => {
+      if (!greeted) {
+        greeted = true;
+        return { text: script.greeting, written: script.greeting };
+      }
+      const turn = script.turns[index++];
+      if (!turn) return { text: script.fallback, written: script.fallback };
+      return { text: turn.tutor, written: turn.written ?? turn.tutor, board: turn.board };
+    },
+  };
+}
+
+export interface MockToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** The side-channel calls a real tutor makes alongside a reply, limited to the tools the client declared. */
+export function tutorLineToolCalls(line: TutorLine, declaredTools: Set<string>): MockToolCall[] {
+  const calls: MockToolCall[] = [];
+  if (declaredTools.has("display_text")) calls.push({ name: "display_text", args: { text: line.written } });
+  if (line.board && declaredTools.has("write_on_whiteboard")) {
+    calls.push({ name: "write_on_whiteboard", args: { latex: line.board } });
+  }
+  return calls;
+}
+
+interface SynthesizedSpeech {
+  pcm: Int16Array;
+  /** Each word with the sample it starts at, for pacing transcript deltas against the audio. */
+  words: { text: string; startSample: number }[];
+}
+
+/**
+ * Renders text as one soft tone burst per word. It is not speech, but it has
+ * speech-like rhythm, so playback, visualizers and barge-in behave as they do
+ * against the real services.
+ */
+export function synthesizeSpeech(text: string, sampleRate = MOCK_OUTPUT_SAMPLE_RATE): SynthesizedSpeech {
+  const tokens = text.split(/(\s+)/).filter(Boolean);
+  const gapSamples = Math.round(sampleRate * 0.06);
+  const segments: { text: string; samples: number; frequency: number }[] = [];
+  let wordIndex = 0;
+  for (const token of tokens) {
+    if (/^\s+$/.test(token)) {
+      if (segments.length > 0) segments[segments.length - 1].text += token;
+      continue;
+    }
+    const durationMs = Math.min(420, Math.max(120, token.length * 55));
+    // A gentle rising/falling contour so consecutive words are distinguishable
+    const frequency = 180 + 60 * Math.sin(wordIndex++ * 0.9);
+    segments.push({ text: token, samples: Math.round((sampleRate * durationMs) / 1000), frequency });
+  }
+
+  const totalSamples = segments.reduce((sum, segment) => sum + segment.samples + gapSamples, 0);
+  const pcm = new Int16Array(totalSamples);
+  const words: SynthesizedSpeech["words"] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    words.push({ text: segment.text, startSample: offset });
+    for (let i = 0; i < segment.samples; i++) {
+      const envelope = Math.sin((Math.PI * i) / segment.samples);
+      const t = i / sampleRate;
+      const tone =
+        Math.sin(2 * Math.PI * segment.frequency * t) + 0.4 * Math.sin(2 * Math.PI * segment.frequency * 2 * t);
+      pcm[offset + i] = Math.round(tone * envelope * 0.25 * 0x7fff);
+    }
+    offset += segment.samples + gapSamples;
+  }
+  return { pcm, words };
+}
+
+export function encodePcm16(samples: Int16Array): string {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength).toString("base64");
+}
+
+export function decodePcm16(base64: string): Int16Array {
+  const bytes = Buffer.from(base64, "base64");
+  const copy = new Uint8Array(bytes.byteLength - (bytes.byteLength % 2));
+  copy.set(bytes.subarray(0, copy.byteLength));
+  return new Int16Array(copy.buffer);
+}
+
+export interface SpeechHandlers {
+  onAudio: (base64: string) => void;
+  onText: (delta: string) => void;
+  onDone: () => void;
+}
+
+export interface MockSpeaker {
+  speak: (text: string, handlers: SpeechHandlers) => void;
+  /** Cuts the current reply short; returns whether anything was playing. onDone is not called. */
+  stop: () => boolean;
+  isSpeaking: () => boolean;
+}
+
+/** Streams synthesized replies in real time, with transcript deltas timed to the words. */
+export function createMockSpeaker(sampleRate = MOCK_OUTPUT_SAMPLE_RATE): MockSpeaker {
+  let timer: NodeJS.Timeout | null = null;
+
+  const stop = () => {
+    if (!timer) return false;
+    clearInterval(timer);
+    timer = null;
+    return true;
+  };
+
+  const speak = (text: string, handlers: SpeechHandlers) => {
+    stop();
+    const { pcm, words } = synthesizeSpeech(text, sampleRate);
+    const chunkSamples = Math.round((sampleRate * SPEECH_CHUNK_MS) / 1000);
+    let offset = 0;
+    let nextWord = 0;
+
+    const sendChunk = () => {
+      const end = Math.min(offset + chunkSamples, pcm.length);
+      while (nextWord < words.length && words[nextWord].startSample < end) {
+        handlers.onText(words[nextWord++].text);
+      }
+      handlers.onAudio(encodePcm16(pcm.subarray(offset, end)));
+      offset = end;
+      if (offset >= pcm.length) {
+        stop();
+        handlers.onDone();
+      }
+    };
+
+    timer = setInterval(sendChunk, SPEECH_CHUNK_MS);
+    for (let i = 0; i < SPEECH_LEAD_CHUNKS && timer; i++) sendChunk();
+  };
+
+  return { speak, stop, isSpeaking: () => timer !== null };
+}
+
+export interface EnergyVadOptions {
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+  sampleRate?: number;
+  /** RMS level, as a fraction of full scale, that counts as voice. */
+  threshold?: number;
+  /** Voiced audio needed before speech starts, so clicks do not count. */
+  minSpeechMs?: number;
+  /** Silence needed before speech ends. */
+  silenceMs?: number;
+}
+
+export interface EnergyVad {
+  push: (samples: Int16Array) => void;
+  /** Ends any speech in progress, e.g. when the client signals the audio stream ended. */
+  flush: () => void;
+  isSpeaking: () => boolean;
+}
+
+/** A plain RMS voice detector; enough to drive turn-taking against a real microphone. */
+export function createEnergyVad({
+  onSpeechStart,
+  onSpeechEnd,
+  sampleRate = MOCK_INPUT_SAMPLE_RATE,
+  threshold = 0.02,
+  minSpeechMs = 150,
+  silenceMs = 700,
+}: EnergyVadOptions): EnergyVad {
+  let speaking = false;
+  let voicedSamples = 0;
+  let silentSamples = 0;
+  const minSpeechSamples = (sampleRate * minSpeechMs) / 1000;
+  const silenceSamples = (sampleRate * silenceMs) / 1000;
+
+  const flush = () => {
+    voicedSamples = 0;
+    silentSamples = 0;
+    if (!speaking) return;
+    speaking = false;
+    onSpeechEnd();
+  };
+
+  const push = (samples: Int16Array) => {
+    if (samples.length === 0) return;
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i] / 0x8000;
+      sumSquares += value * value;
+    }
+    const rms = Math.sqrt(sumSquares / samples.length);
+
+    if (rms >= threshold) {
+      silentSamples = 0;
+      voicedSamples += samples.length;
+      if (!speaking && voicedSamples >= minSpeechSamples) {
+        speaking = true;
+        onSpeechStart();
+      }
+      return;
+    }
+    if (!speaking) {
+      voicedSamples = 0;
+      return;
+    }
+    silentSamples += samples.length;
+    if (silentSamples >= silenceSamples) flush();
+  };
+
+  return { push, flush, isSpeaking: () => speaking };
+}
@@ -0,0 +1,172 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Fixed callback URL; derived from the request when unset (set it behind a proxy). */
+  redirectUri: string | null;
+  /** Button text on the sign-in page. */
+  label: string;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface PendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  next: string;
+  createdAt: number;
+}
+
+export interface OidcResult {
+  issuer: string;
+  subject: string;
+  /** Only a verified email, or null. */
+  email: string | null;
+  next: string;
+}
+
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+// How long the user has at the identity provider before the sign-in attempt is forgotten
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+// Tolerance for clock differences with the identity provider
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/** OIDC settings from OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET; null when any is missing. */
+export function readOidcConfig(env: NodeJS.ProcessEnv = process.env): OidcConfig | null {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = env;
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) return null;
+  return {
+    issuer: OIDC_ISSUER.replace(/\/+$/, ""),
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET,
+    redirectUri: env.OIDC_REDIRECT_URI || null,
+    label: env.OIDC_LABEL || "Sign in with single sign-on",
+  };
+}
+
+function base64UrlSha256(value: string): string {
+  return createHash("sha256").update(value).digest("base64url");
+}
+
+function decodeJwtPayload(token: string): any {
+  const payload = token.split(".")[1];
+  if (!payload) throw new Error("The ID token is not a JWT.");
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+}
+
+/**
+ * OpenID Connect sign-in with the authorization code flow and PKCE. The ID
+ * token comes straight from the token endpoint over TLS, authenticated with
+ * the client secret, so its claims are checked but its signature is not.
+ */
+export function createOidcClient(config: OidcConfig) {
+  let discovery: Promise<Discovery> | null = null;
+  const pending = new Map<string, PendingLogin>();
+
+  const discover = () => {
+    discovery ??= (async () => {
+      const resp = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+      if (!resp.ok) throw new Error(`OIDC discovery failed (${resp.status}).`);
+      return (await resp.json()) as Discovery;
+    })().catch((error) => {
+      // Retried on the next sign-in rather than failing until a restart
+      discovery = null;
+      throw error;
+    });
+    return discovery;
+  };
+
+  const redirectUriFor = (req: Request) => config.redirectUri ?? `${req.protocol}://${req.get("host")}${OIDC_CALLBACK_PATH}`;
+
+  const authorizationUrl = async (req: Request, next: string): Promise<string> => {
+    const { authorization_endpoint } = await discover();
+    const now = Date.now();
+    for (const [state, login] of pending) {
+      if (now - login.createdAt > PENDING_LOGIN_TTL_MS) pending.delete(state);
+    }
+
+    const state = randomBytes(16).toString("base64url");
+    const login: PendingLogin = {
+      nonce: randomBytes(16).toString("base64url"),
+      codeVerifier: randomBytes(32).toString("base64url"),
+      redirectUri: redirectUriFor(req),
+      next,
+      createdAt: now,
+    };
+    pending.set(state, login);
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: login.redirectUri,
+      scope: "openid email profile",
+      state,
+      nonce: login.nonce,
+      code_challenge: base64UrlSha256(login.codeVerifier),
+      code_challenge_method: "S256",
+    }).toString();
+    return url.toString();
+  };
+
+  /** Completes a sign-in from the callback's query string; throws when anything does not check out. */
+  const handleCallback = async (req: Request): Promise<OidcResult> => {
+    const { code, state, error } = req.query;
+    if (typeof error === "string") throw new Error(`The identity provider returned ${error}.`);
+    if (typeof code !== "string" || typeof state !== "string") throw new Error("The callback is missing code or state.");
+    const login = pending.get(state);
+    pending.delete(state);
+    if (!login || Date.now() - login.createdAt > PENDING_LOGIN_TTL_MS) {
+      throw new Error("Unknown or expired sign-in state.");
+    }
+
+    const { issuer, token_endpoint } = await discover();
+    const resp = await fetch(token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(
+          `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+        ).toString("base64")}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: login.redirectUri,
+        code_verifier: login.codeVerifier,
+      }),
+    });
+    if (!resp.ok) throw new Error(`The token exchange failed (${resp.status}): ${await resp.text()}`);
+    const tokens = await resp.json();
+    if (typeof tokens?.id_token !== "string") throw new Error("The token response has no id_token.");
+
+    const claims = decodeJwtPayload(tokens.id_token);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== issuer) throw new Error("The ID token is from another issuer.");
+    if (!audiences.includes(config.clientId)) throw new Error("The ID token is for another client.");
+    if (typeof claims.exp !== "number" || claims.exp * 1000 + CLOCK_SKEW_MS < Date.now()) {
+      throw new Error("The ID token has expired.");
+    }
+    if (claims.nonce !== login.nonce) throw new Error("The ID token nonce does not match.");
+    if (typeof claims.sub !== "string" || !claims.sub) throw new Error("The ID token has no subject.");
+
+    return {
+      issuer,
+      subject: claims.sub,
+      email: typeof claims.email === "string" && claims.email_verified === true ? claims.email : null,
+      next: login.next,
+    };
+  };
+
+  return { label: config.label, authorizationUrl, handleCallback };
+}
+
+export type OidcClient = ReturnType<typeof createOidcClient>;
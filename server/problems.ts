@@ -0,0 +1,283 @@
+import { randomUUID } from "crypto";
+import express, { Router } from "express";
+import { requireRole } from "./auth.ts";
+import { parseCsv, toCsv } from "./csv.ts";
+import type { Db } from "./db.ts";
+import { isNonEmptyString, parseIntParam } from "./validation.ts";
+
+const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+type Difficulty = (typeof DIFFICULTIES)[number];
+
+const CSV_COLUMNS = ["question", "answer", "solution", "tags", "difficulty"] as const;
+
+interface ProblemRow {
+  id: string;
+  question: string;
+  answer: string;
+  solution: string | null;
+  tags: string;
+  difficulty: Difficulty | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProblemInput {
+  question: string;
+  answer: string;
+  solution: string | null;
+  tags: string[];
+  difficulty: Difficulty | null;
+}
+
+function toProblem(row: ProblemRow) {
+  return {
+    id: row.id,
+    question: row.question,
+    answer: row.answer,
+    solution: row.solution,
+    tags: JSON.parse(row.tags) as string[],
+    difficulty: row.difficulty,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** An assigned problem as students get it: the tutor needs the answer, but the worked solution stays with teachers. */
+function toAssignedProblem(row: ProblemRow & { assigned_at: string }) {
+  return {
+    id: row.id,
+    question: row.question,
+    answer: row.answer,
+    tags: JSON.parse(row.tags) as string[],
+    difficulty: row.difficulty,
+    assignedAt: row.assigned_at,
+  };
+}
+
+function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[;,]/) : [];
+  const tags = raw.filter((tag): tag is string => typeof tag === "string").map((tag) => tag.trim().toLowerCase());
+  return [...new Set(tags.filter(Boolean))];
+}
+
+/** Validates a problem payload; returns an error message instead of throwing. */
+function parseProblemInput(body: any): ProblemInput | string {
+  if (!isNonEmptyString(body?.question) || !isNonEmptyString(body?.answer)) {
+    return "question and answer are required.";
+  }
+  const difficulty = isNonEmptyString(body.difficulty) ? body.difficulty.trim().toLowerCase() : null;
+  if (difficulty !== null && !DIFFICULTIES.includes(difficulty as Difficulty)) {
+    return `difficulty must be one of ${DIFFICULTIES.join(", ")}.`;
+  }
+  return {
+    question: body.question.trim(),
+    answer: body.answer.trim(),
+    solution: isNonEmptyString(body.solution) ? body.solution.trim() : null,
+    tags: normalizeTags(body.tags),
+    difficulty: difficulty as Difficulty | null,
+  };
+}
+
+function csvToProblemBodies(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase());
+  return rows.map((row) => Object.fromEntries(columns.map((name, i) => [name, row[i] ?? ""])));
+}
+
+/**
+ * REST routes for the problem bank:
+ *   GET    /          list problems; filters: q (question text), tag, difficulty
+ *   GET    /export    download the bank as ?format=json (default) or csv
+ *   POST   /import    import a JSON array or CSV (text/csv body); all-or-nothing
+ *   GET    /assigned  the problems assigned to the user's class, without solutions
+ *   GET    /:id       fetch one problem
+ *   POST   /          create a problem
+ *   PUT    /:id       replace a problem
+ *   DELETE /:id       delete a problem
+ *   PUT    /:id/assignment     assign a problem to the teacher's class
+ *   DELETE /:id/assignment     take it back
+ * Only teachers read or change the bank itself, as problems carry their answers
+ * and solutions; students see what their teacher assigned. Mount after `requireUser`.
+ */
+export function createProblemsRouter(db: Db): Router {
+  const router = Router();
+
+  const selectProblem = db.prepare(`SELECT * FROM problems WHERE id = ?`);
+  const insertProblem = db.prepare(`
+    INSERT INTO problems (id, question, answer, solution, tags, difficulty, created_at, updated_at)
+    VALUES (@id, @question, @answer, @solution, @tags, @difficulty, @now, @now)
+  `);
+  const updateProblem = db.prepare(`
+    UPDATE problems
+    SET question = @question, answer = @answer, solution = @solution, tags = @tags,
+        difficulty = @difficulty, updated_at = @now
+    WHERE id = @id
+  `);
+  const deleteProblem = db.prepare(`DELETE FROM problems WHERE id = ?`);
+  const selectAll = db.prepare(`SELECT * FROM problems ORDER BY created_at`);
+  const selectAssigned = db.prepare(`
+    SELECT p.*, a.assigned_at FROM problem_assignments a JOIN problems p ON p.id = a.problem_id
+    WHERE a.class_id = ?
+    ORDER BY a.assigned_at
+  `);
+  const insertAssignment = db.prepare(`
+    INSERT OR IGNORE INTO problem_assignments (class_id, problem_id, assigned_at) VALUES (?, ?, ?)
+  `);
+  const deleteAssignment = db.prepare(`DELETE FROM problem_assignments WHERE class_id = ? AND problem_id = ?`);
+
+  const insert = (input: ProblemInput): string => {
+    const id = randomUUID();
+    insertProblem.run({ id, ...input, tags: JSON.stringify(input.tags), now: new Date().toISOString() });
+    return id;
+  };
+
+  router.get("/", requireRole("teacher"), (req, res) => {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: parseIntParam(req.query.limit, 100, 1, 500) };
+    if (isNonEmptyString(req.query.q)) {
+      conditions.push("question LIKE @q ESCAPE '\\'");
+      params.q = `%${req.query.q.trim().replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+    }
+    if (isNonEmptyString(req.query.tag)) {
+      conditions.push("EXISTS (SELECT 1 FROM json_each(problems.tags) WHERE json_each.value = @tag)");
+      params.tag = req.query.tag.trim().toLowerCase();
+    }
+    if (isNonEmptyString(req.query.difficulty)) {
+      conditions.push("difficulty = @difficulty");
+      params.difficulty = req.query.difficulty;
+    }
+
+    const rows = db
+      .prepare(
+        `SELECT * FROM problems
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY updated_at DESC
+         LIMIT @limit`
+      )
+      .all(params) as ProblemRow[];
+    res.json({ problems: rows.map(toProblem) });
+  });
+
+  router.get("/export", requireRole("teacher"), (req, res) => {
+    const problems = (selectAll.all() as ProblemRow[]).map(toProblem);
+    if (req.query.format === "csv") {
+      const rows = problems.map((p) => [p.question, p.answer, p.solution ?? "", p.tags.join(";"), p.difficulty ?? ""]);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="problem-bank.csv"');
+      res.send(toCsv([[...CSV_COLUMNS], ...rows]));
+      return;
+    }
+    res.setHeader("Content-Disposition", 'attachment; filename="problem-bank.json"');
+    res.json(
+      problems.map(({ question, answer, solution, tags, difficulty }) => ({ question, answer, solution, tags, difficulty }))
+    );
+  });
+
+  router.post("/import", requireRole("teacher"), express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), (req, res) => {
+    let bodies: unknown[];
+    if (typeof req.body === "string") {
+      bodies = csvToProblemBodies(req.body);
+    } else if (Array.isArray(req.body)) {
+      bodies = req.body;
+    } else if (Array.isArray(req.body?.problems)) {
+      bodies = req.body.problems;
+    } else {
+      res.status(400).json({ error: "Send a JSON array of problems or a CSV file with a header row." });
+      return;
+    }
+
+    const inputs: ProblemInput[] = [];
+    for (let i = 0; i < bodies.length; i++) {
+      const parsed = parseProblemInput(bodies[i]);
+      if (typeof parsed === "string") {
+        res.status(400).json({ error: `Problem ${i + 1}: ${parsed}` });
+        return;
+      }
+      inputs.push(parsed);
+    }
+
+    const ids = db.transaction(() => inputs.map(insert))();
+    res.status(201).json({ imported: ids.length });
+  });
+
+  router.get("/assigned", requireRole("student", "teacher"), (req, res) => {
+    // Admins belong to no class, so nothing is assigned to them
+    const classId = req.user!.classId;
+    const rows = classId ? (selectAssigned.all(classId) as (ProblemRow & { assigned_at: string })[]) : [];
+    res.json({ problems: rows.map(toAssignedProblem) });
+  });
+
+  router.get("/:id", requireRole("teacher"), (req, res) => {
+    const row = selectProblem.get(req.params.id) as ProblemRow | undefined;
+    if (!row) {
+      res.status(404).json({ error: "Problem not found." });
+      return;
+    }
+    res.json({ problem: toProblem(row) });
+  });
+
+  router.post("/", requireRole("teacher"), (req, res) => {
+    const parsed = parseProblemInput(req.body);
+    if (typeof parsed === "string") {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    const id = insert(parsed);
+    res.status(201).json({ problem: toProblem(selectProblem.get(id) as ProblemRow) });
+  });
+
+  router.put("/:id", requireRole("teacher"), (req, res) => {
+    const parsed = parseProblemInput(req.body);
+    if (typeof parsed === "string") {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    const result = updateProblem.run({
+      id: req.params.id,
+      ...parsed,
+      tags: JSON.stringify(parsed.tags),
+      now: new Date().toISOString(),
+    });
+    if (result.changes === 0) {
+      res.status(404).json({ error: "Problem not found." });
+      return;
+    }
+    res.json({ problem: toProblem(selectProblem.get(req.params.id) as ProblemRow) });
+  });
+
+  router.delete("/:id", requireRole("teacher"), (req, res) => {
+    const result = deleteProblem.run(req.params.id);
+    if (result.changes === 0) {
+      res.status(404).json({ error: "Problem not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.put("/:id/assignment", requireRole("teacher"), (req, res) => {
+    const classId = req.user!.classId;
+    if (!classId) {
+      res.status(400).json({ error: "Only a teacher with a class can assign problems." });
+      return;
+    }
+    if (!selectProblem.get(req.params.id)) {
+      res.status(404).json({ error: "Problem not found." });
+      return;
+    }
+    insertAssignment.run(classId, req.params.id, new Date().toISOString());
+    res.status(204).end();
+  });
+
+  router.delete("/:id/assignment", requireRole("teacher"), (req, res) => {
+    const classId = req.user!.classId;
+    if (!classId) {
+      res.status(400).json({ error: "Only a teacher with a class can assign problems." });
+      return;
+    }
+    deleteAssignment.run(classId, req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,121 @@
+import express, { Router } from "express";
+import { GoogleGenAI } from "@google/genai";
+import { requireRole } from "./auth.ts";
+
+const GEMINI_RECOGNITION_MODEL = "gemini-2.5-flash";
+const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"];
+
+export interface ProblemImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface RecognizedProblem {
+  /** The problem as the tutor form expects it: prose with $...$ LaTeX math. */
+  question: string;
+}
+
+/** Turns a photo or screenshot of a worksheet problem into LaTeX. */
+export interface ProblemRecognizer {
+  /** Resolves to null when the image contains no readable math problem. */
+  recognize(image: ProblemImage): Promise<RecognizedProblem | null>;
+}
+
+const RECOGNITION_PROMPT = `This image shows a math problem from a worksheet, textbook or screen.
+Transcribe the problem exactly as written, including any instructions such as "Solve for x".
+Write prose as plain text and every mathematical expression in $...$ LaTeX (use $$...$$ only for a displayed equation on its own line).
+Do not solve the problem and do not add anything that is not in the image.
+If there are several problems, transcribe only the first complete one.
+If the image contains no math problem, set found to false.`;
+
+const RECOGNITION_SCHEMA = {
+  type: "object",
+  properties: {
+    found: { type: "boolean" },
+    question: { type: "string" },
+  },
+  required: ["found", "question"],
+};
+
+/** Reads the problem with a multimodal Gemini model. */
+export function createGeminiRecognizer(apiKey: string, model = GEMINI_RECOGNITION_MODEL): ProblemRecognizer {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async recognize(image) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          {
+            role: "user",
+            parts: [{ inlineData: { mimeType: image.mimeType, data: image.data.toString("base64") } }, { text: RECOGNITION_PROMPT }],
+          },
+        ],
+        config: { responseMimeType: "application/json", responseJsonSchema: RECOGNITION_SCHEMA, temperature: 0 },
+      });
+      const parsed = JSON.parse(response.text ?? "{}");
+      if (!parsed.found || typeof parsed.question !== "string" || !parsed.question.trim()) return null;
+      return { question: parsed.question.trim() };
+    },
+  };
+}
+
+/**
+ * Offline stand-in that returns a fixed problem for any image, so the capture
+ * flow can be exercised without a key. PROBLEM_RECOGNIZER_STUB_QUESTION overrides the text.
+ */
+export function createStubRecognizer(
+  question = process.env.PROBLEM_RECOGNIZER_STUB_QUESTION || "Solve for $x$: $x^2 - 5x + 6 = 0$"
+): ProblemRecognizer {
+  return {
+    async recognize() {
+      return { question };
+    },
+  };
+}
+
+/**
+ * Picks the recognizer from the environment: PROBLEM_RECOGNIZER=stub|gemini
+ * forces one; otherwise the stub in mock mode and Gemini when a key is set.
+ */
+export function createProblemRecognizer(mockMode: boolean): ProblemRecognizer | null {
+  const choice = process.env.PROBLEM_RECOGNIZER;
+  if (choice === "stub" || (!choice && mockMode)) return createStubRecognizer();
+  const apiKey = process.env.GEMINI_API_KEY;
+  if ((choice === "gemini" || !choice) && apiKey) return createGeminiRecognizer(apiKey);
+  return null;
+}
+
+/**
+ * Problem capture:
+ *   POST /   the raw image as the body (Content-Type image/png, image/jpeg, ...); returns { question }
+ * For students setting up a session, as it calls a paid vision model. Mount after `requireUser`.
+ */
+export function createRecognitionRouter(recognizer: ProblemRecognizer | null): Router {
+  const router = Router();
+
+  router.post("/", requireRole("student"), express.raw({ type: "image/*", limit: "8mb" }), async (req, res) => {
+    if (!recognizer) {
+      res.status(503).json({ error: "Problem capture needs GEMINI_API_KEY (or PROBLEM_RECOGNIZER=stub) on the server." });
+      return;
+    }
+    const mimeType = String(req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    if (!ACCEPTED_IMAGE_TYPES.includes(mimeType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: "Send a PNG, JPEG, WebP or HEIC image as the request body." });
+      return;
+    }
+
+    try {
+      const recognized = await recognizer.recognize({ mimeType, data: req.body });
+      if (!recognized) {
+        res.status(422).json({ error: "No math problem was found in the image." });
+        return;
+      }
+      res.json(recognized);
+    } catch (error) {
+      console.error("Problem recognition failed:", error);
+      res.status(502).json({ error: "Could not read the problem from the image." });
+    }
+  });
+
+  return router;
+}
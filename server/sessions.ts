@@ -0,0 +1,305 @@
+import { randomUUID } from "crypto";
+import { Request, Response, Router } from "express";
+import { canTeachClass, requireRole } from "./auth.ts";
+import type { Db } from "./db.ts";
+import { isNonEmptyString, parseIntParam, toIsoTimestamp } from "./validation.ts";
+
+interface SessionRow {
+  id: string;
+  problem: string;
+  correct_answer: string;
+  wrong_attempt: string | null;
+  provider: string;
+  model: string | null;
+  started_at: string;
+  ended_at: string | null;
+  student_id: string | null;
+  turn_count?: number;
+}
+
+interface TurnRow {
+  seq: number;
+  role: "user" | "agent";
+  text: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+interface WhiteboardItemRow {
+  seq: number;
+  kind: "step" | "sketch";
+  content: string;
+  created_at: string;
+}
+
+// Sketches are stored as data URLs; this keeps one well inside the JSON body limit
+const MAX_WHITEBOARD_CONTENT_LENGTH = 800_000;
+
+function toSession(row: SessionRow) {
+  return {
+    id: row.id,
+    problem: row.problem,
+    correctAnswer: row.correct_answer,
+    wrongAttempt: row.wrong_attempt,
+    provider: row.provider,
+    model: row.model,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    studentId: row.student_id,
+    ...(row.turn_count !== undefined ? { turnCount: row.turn_count } : {}),
+  };
+}
+
+function toTurn(row: TurnRow) {
+  return {
+    seq: row.seq,
+    role: row.role,
+    text: row.text,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+  };
+}
+
+function toWhiteboardItem(row: WhiteboardItemRow) {
+  return {
+    seq: row.seq,
+    kind: row.kind,
+    content: row.content,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * REST routes for stored tutoring sessions. Students record their own sessions;
+ * teachers read the history of their class (admins read all of it).
+ *   POST /            create a session for the signed-in student
+ *   POST /:id/turns   append (or update, by seq) transcript turns
+ *   POST /:id/whiteboard  append whiteboard items (tutor steps and student sketches), keyed by seq
+ *   POST /:id/end     mark the session ended; POST so it works from sendBeacon
+ *   GET  /            list sessions, newest first; filters: from, to (ISO, to exclusive), provider, studentId, q
+ *   GET  /:id         fetch a session with its transcript and whiteboard
+ * Mount after `requireUser`.
+ */
+export function createSessionsRouter(db: Db): Router {
+  const router = Router();
+
+  const insertSession = db.prepare(`
+    INSERT INTO tutoring_sessions (id, problem, correct_answer, wrong_attempt, provider, model, started_at, student_id)
+    VALUES (@id, @problem, @correctAnswer, @wrongAttempt, @provider, @model, @startedAt, @studentId)
+  `);
+  const selectStudentClass = db.prepare(`SELECT class_id FROM students WHERE id = ?`);
+  const selectSession = db.prepare(`SELECT * FROM tutoring_sessions WHERE id = ?`);
+  const selectTurns = db.prepare(`
+    SELECT seq, role, text, started_at, ended_at FROM transcript_turns WHERE session_id = ? ORDER BY seq
+  `);
+  const upsertTurn = db.prepare(`
+    INSERT INTO transcript_turns (session_id, seq, role, text, started_at, ended_at)
+    VALUES (@sessionId, @seq, @role, @text, @startedAt, @endedAt)
+    ON CONFLICT (session_id, seq) DO UPDATE SET
+      role = excluded.role,
+      text = excluded.text,
+      ended_at = excluded.ended_at
+  `);
+  const selectWhiteboard = db.prepare(`
+    SELECT seq, kind, content, created_at FROM whiteboard_items WHERE session_id = ? ORDER BY seq
+  `);
+  // Items never change once written, so a repeated seq (a retried sync) is ignored
+  const insertWhiteboardItem = db.prepare(`
+    INSERT INTO whiteboard_items (session_id, seq, kind, content, created_at)
+    VALUES (@sessionId, @seq, @kind, @content, @createdAt)
+    ON CONFLICT (session_id, seq) DO NOTHING
+  `);
+  const endSession = db.prepare(`
+    UPDATE tutoring_sessions SET ended_at = COALESCE(ended_at, ?) WHERE id = ?
+  `);
+
+  /** The session a student is writing to, or null once the response has been sent. */
+  const ownSession = (req: Request, res: Response): SessionRow | null => {
+    const session = selectSession.get(req.params.id) as SessionRow | undefined;
+    if (!session) {
+      res.status(404).json({ error: "Session not found." });
+      return null;
+    }
+    const user = req.user!;
+    if (user.role !== "admin" && (session.student_id === null || session.student_id !== user.studentId)) {
+      res.status(403).json({ error: "This is another student's session." });
+      return null;
+    }
+    return session;
+  };
+
+  const canReadSession = (req: Request, session: SessionRow): boolean => {
+    if (session.student_id === null) return req.user!.role === "admin";
+    const student = selectStudentClass.get(session.student_id) as { class_id: string | null } | undefined;
+    return canTeachClass(req.user!, student?.class_id ?? null);
+  };
+
+  // Students record only as themselves; a studentId in the body is ignored
+  router.post("/", requireRole("student"), (req, res) => {
+    const { problem, correctAnswer, wrongAttempt, provider, model, startedAt } = req.body ?? {};
+    if (!isNonEmptyString(problem) || !isNonEmptyString(correctAnswer) || !isNonEmptyString(provider)) {
+      res.status(400).json({ error: "problem, correctAnswer and provider are required." });
+      return;
+    }
+
+    const id = randomUUID();
+    insertSession.run({
+      id,
+      problem: problem.trim(),
+      correctAnswer: correctAnswer.trim(),
+      wrongAttempt: isNonEmptyString(wrongAttempt) ? wrongAttempt.trim() : null,
+      provider,
+      model: isNonEmptyString(model) ? model : null,
+      startedAt: toIsoTimestamp(startedAt, new Date().toISOString()),
+      studentId: req.user!.studentId,
+    });
+    res.status(201).json({ session: toSession(selectSession.get(id) as SessionRow) });
+  });
+
+  router.post("/:id/turns", requireRole("student"), (req, res) => {
+    const session = ownSession(req, res);
+    if (!session) return;
+
+    const turns = req.body?.turns;
+    if (!Array.isArray(turns) || turns.length === 0) {
+      res.status(400).json({ error: "turns must be a non-empty array." });
+      return;
+    }
+    const now = new Date().toISOString();
+    for (const turn of turns) {
+      if (
+        !Number.isInteger(turn?.seq) ||
+        (turn.role !== "user" && turn.role !== "agent") ||
+        typeof turn.text !== "string"
+      ) {
+        res.status(400).json({ error: "Each turn needs an integer seq, a role of user or agent, and text." });
+        return;
+      }
+    }
+
+    db.transaction(() => {
+      for (const turn of turns) {
+        upsertTurn.run({
+          sessionId: session.id,
+          seq: turn.seq,
+          role: turn.role,
+          text: turn.text,
+          startedAt: toIsoTimestamp(turn.startedAt, now),
+          endedAt: turn.endedAt === undefined || turn.endedAt === null ? null : toIsoTimestamp(turn.endedAt, now),
+        });
+      }
+    })();
+    res.status(201).json({ turns: (selectTurns.all(session.id) as TurnRow[]).map(toTurn) });
+  });
+
+  router.post("/:id/whiteboard", requireRole("student"), (req, res) => {
+    const session = ownSession(req, res);
+    if (!session) return;
+
+    const items = req.body?.items;
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({ error: "items must be a non-empty array." });
+      return;
+    }
+    for (const item of items) {
+      if (
+        !Number.isInteger(item?.seq) ||
+        (item.kind !== "step" && item.kind !== "sketch") ||
+        !isNonEmptyString(item.content) ||
+        item.content.length > MAX_WHITEBOARD_CONTENT_LENGTH
+      ) {
+        res.status(400).json({ error: "Each item needs an integer seq, a kind of step or sketch, and content." });
+        return;
+      }
+      if (item.kind === "sketch" && !/^data:image\/(png|jpeg|webp);base64,/.test(item.content)) {
+        res.status(400).json({ error: "Sketch content must be a PNG, JPEG or WebP data URL." });
+        return;
+      }
+    }
+
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      for (const item of items) {
+        insertWhiteboardItem.run({
+          sessionId: session.id,
+          seq: item.seq,
+          kind: item.kind,
+          content: item.content,
+          createdAt: toIsoTimestamp(item.createdAt, now),
+        });
+      }
+    })();
+    res.status(201).json({ items: (selectWhiteboard.all(session.id) as WhiteboardItemRow[]).map(toWhiteboardItem) });
+  });
+
+  router.post("/:id/end", requireRole("student"), (req, res) => {
+    if (!ownSession(req, res)) return;
+    const endedAt = toIsoTimestamp(req.body?.endedAt, new Date().toISOString());
+    endSession.run(endedAt, req.params.id);
+    res.json({ session: toSession(selectSession.get(req.params.id) as SessionRow) });
+  });
+
+  router.get("/", requireRole("teacher"), (req, res) => {
+    const limit = parseIntParam(req.query.limit, 50, 1, 200);
+    const offset = parseIntParam(req.query.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit, offset };
+    if (req.user!.role !== "admin") {
+      conditions.push("s.student_id IN (SELECT id FROM students WHERE class_id = @classId)");
+      params.classId = req.user!.classId ?? "";
+    }
+    if (isNonEmptyString(req.query.from)) {
+      conditions.push("s.started_at >= @from");
+      params.from = toIsoTimestamp(req.query.from, req.query.from);
+    }
+    if (isNonEmptyString(req.query.to)) {
+      conditions.push("s.started_at < @to");
+      params.to = toIsoTimestamp(req.query.to, req.query.to);
+    }
+    if (isNonEmptyString(req.query.provider)) {
+      conditions.push("s.provider = @provider");
+      params.provider = req.query.provider;
+    }
+    if (isNonEmptyString(req.query.studentId)) {
+      conditions.push("s.student_id = @studentId");
+      params.studentId = req.query.studentId;
+    }
+    if (isNonEmptyString(req.query.q)) {
+      conditions.push("s.problem LIKE @q ESCAPE '\\'");
+      params.q = `%${req.query.q.trim().replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+    }
+
+    const rows = db
+      .prepare(
+        `SELECT s.*, (SELECT COUNT(*) FROM transcript_turns t WHERE t.session_id = s.id) AS turn_count
+         FROM tutoring_sessions s
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY s.started_at DESC
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as SessionRow[];
+    res.json({ sessions: rows.map(toSession) });
+  });
+
+  router.get("/:id", requireRole("teacher"), (req, res) => {
+    const session = selectSession.get(req.params.id) as SessionRow | undefined;
+    if (!session) {
+      res.status(404).json({ error: "Session not found." });
+      return;
+    }
+    if (!canReadSession(req, session)) {
+      res.status(403).json({ error: "This session is from another class." });
+      return;
+    }
+    res.json({
+      session: {
+        ...toSession(session),
+        turns: (selectTurns.all(session.id) as TurnRow[]).map(toTurn),
+        whiteboard: (selectWhiteboard.all(session.id) as WhiteboardItemRow[]).map(toWhiteboardItem),
+      },
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ProblemOutcome,
+  SkillState,
+  UNTAGGED_SKILL,
+  applyOutcome,
+  buildStudentSummary,
+  outcomeSkills,
+  scoreOutcome,
+} from "./skill-model.ts";
+
+function outcome(overrides: Partial<ProblemOutcome> = {}): ProblemOutcome {
+  return {
+    question: "x + 1 = 3",
+    tags: [],
+    solved: true,
+    hintsUsed: 0,
+    wrongAnswers: 0,
+    mistakes: [],
+    durationMs: 60_000,
+    ...overrides,
+  };
+}
+
+function skill(overrides: Partial<SkillState> & Pick<SkillState, "skill">): SkillState {
+  return { attempts: 2, solved: 2, hintsUsed: 0, durationMs: 120_000, mastery: 0.65, mistakes: {}, ...overrides };
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+describe("outcomeSkills", () => {
+  it("counts untagged problems towards the general skill", () => {
+    assert.deepEqual(outcomeSkills({ tags: [] }), [UNTAGGED_SKILL]);
+    assert.deepEqual(outcomeSkills({ tags: ["factoring", "quadratics"] }), ["factoring", "quadratics"]);
+  });
+});
+
+describe("scoreOutcome", () => {
+  it("gives 1 for a problem solved without help and 0 for one not solved", () => {
+    assert.equal(scoreOutcome(outcome()), 1);
+    assert.equal(scoreOutcome(outcome({ solved: false })), 0);
+  });
+
+  it("takes 0.1 off for each hint and wrong answer", () => {
+    assertClose(scoreOutcome(outcome({ hintsUsed: 3, wrongAnswers: 2 })), 0.5);
+  });
+
+  it("never scores a solved problem below 0.3", () => {
+    assertClose(scoreOutcome(outcome({ hintsUsed: 10, wrongAnswers: 4 })), 0.3);
+  });
+});
+
+describe("applyOutcome", () => {
+  it("starts a skill at the first outcome's score", () => {
+    const state = applyOutcome(null, "factoring", outcome({ hintsUsed: 2, mistakes: ["sign"] }));
+    assert.equal(state.skill, "factoring");
+    assert.equal(state.attempts, 1);
+    assert.equal(state.solved, 1);
+    assert.equal(state.hintsUsed, 2);
+    assert.equal(state.durationMs, 60_000);
+    assertClose(state.mastery, 0.8);
+    assert.deepEqual(state.mistakes, { sign: 1 });
+  });
+
+  it("moves mastery 35% of the way to each new score and adds up the counts", () => {
+    const first = applyOutcome(null, "factoring", outcome({ mistakes: ["sign"] }));
+    const second = applyOutcome(
+      first,
+      "factoring",
+      outcome({ solved: false, wrongAnswers: 2, mistakes: ["sign", "missing-solution"] })
+    );
+    assert.equal(second.attempts, 2);
+    assert.equal(second.solved, 1);
+    assert.equal(second.durationMs, 120_000);
+    assertClose(second.mastery, 0.65);
+    assert.deepEqual(second.mistakes, { sign: 2, "missing-solution": 1 });
+    // The earlier state is left as it was
+    assert.deepEqual(first.mistakes, { sign: 1 });
+  });
+});
+
+describe("buildStudentSummary", () => {
+  it("says nothing without enough history", () => {
+    assert.equal(buildStudentSummary([]), "");
+    const once = skill({ skill: "factoring", attempts: 1, mastery: 0, mistakes: { sign: 1 } });
+    assert.equal(buildStudentSummary([once]), "");
+  });
+
+  it("reports repeated mistakes in a skill", () => {
+    const summary = buildStudentSummary([skill({ skill: "factoring", mistakes: { sign: 3 } })]);
+    assert.equal(summary, "- Has struggled with sign errors in factoring (3 times).");
+  });
+
+  it("leaves the skill out of mistakes on untagged problems", () => {
+    const summary = buildStudentSummary([skill({ skill: UNTAGGED_SKILL, mistakes: { "extra-solution": 2 } })]);
+    assert.equal(summary, "- Has struggled with giving values that are not solutions (2 times).");
+  });
+
+  it("reports weak and strong skills", () => {
+    const summary = buildStudentSummary([
+      skill({ skill: "linear-equations", solved: 0, hintsUsed: 4, durationMs: 240_000, mastery: 0.2 }),
+      skill({ skill: "fractions", mastery: 0.9 }),
+      skill({ skill: "percentages", mastery: 0.85 }),
+      // Untagged problems are never called a strength
+      skill({ skill: UNTAGGED_SKILL, mastery: 1 }),
+    ]);
+    assert.equal(
+      summary,
+      [
+        "- Finds linear equations hard: solved 0 of 2, with 2.0 hints and about 2 min per problem.",
+        "- Is confident with fractions and percentages; less help is needed there.",
+      ].join("\n")
+    );
+  });
+});
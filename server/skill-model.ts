@@ -0,0 +1,142 @@
+/**
+ * Per-student skill model. Every finished problem updates one record per skill
+ * tag of the problem: attempt counts, hints, time, the kinds of mistakes the
+ * answer check recognized, and a mastery score that favours recent outcomes.
+ * The summary built from it is what the tutor is told about the student.
+ */
+
+export const ANSWER_MISTAKES = ["sign", "missing-solution", "extra-solution"] as const;
+export type AnswerMistake = (typeof ANSWER_MISTAKES)[number];
+
+/** Skill that problems without tags count towards. */
+export const UNTAGGED_SKILL = "general";
+
+/** One problem the student finished (solved, or moved past without solving). */
+export interface ProblemOutcome {
+  question: string;
+  tags: string[];
+  solved: boolean;
+  /** Tutor replies on the problem before it was solved, not counting its introduction. */
+  hintsUsed: number;
+  wrongAnswers: number;
+  /** Recognized slips among the wrong answers, one entry per wrong answer that had one. */
+  mistakes: AnswerMistake[];
+  durationMs: number;
+}
+
+export interface SkillState {
+  skill: string;
+  attempts: number;
+  solved: number;
+  hintsUsed: number;
+  durationMs: number;
+  /** 0 to 1; an exponential moving average of outcome scores. */
+  mastery: number;
+  mistakes: Partial<Record<AnswerMistake, number>>;
+}
+
+// Weight of the newest outcome in the mastery average; older outcomes fade out over ~5 attempts
+const MASTERY_WEIGHT = 0.35;
+const HINT_PENALTY = 0.1;
+const WRONG_ANSWER_PENALTY = 0.1;
+// A solved problem always counts for something, however much help it took
+const MIN_SOLVED_SCORE = 0.3;
+
+// One attempt says little; the summary only reports skills and mistakes seen at least this often
+const MIN_ATTEMPTS_FOR_SUMMARY = 2;
+const MIN_MISTAKES_FOR_SUMMARY = 2;
+const WEAK_MASTERY = 0.5;
+const STRONG_MASTERY = 0.8;
+const MAX_SUMMARY_ITEMS = 3;
+
+const MISTAKE_LABELS: Record<AnswerMistake, string> = {
+  sign: "sign errors",
+  "missing-solution": "leaving out solutions",
+  "extra-solution": "giving values that are not solutions",
+};
+
+export function isAnswerMistake(value: unknown): value is AnswerMistake {
+  return ANSWER_MISTAKES.includes(value as AnswerMistake);
+}
+
+/** The skills an outcome counts towards. */
+export function outcomeSkills(outcome: Pick<ProblemOutcome, "tags">): string[] {
+  return outcome.tags.length > 0 ? outcome.tags : [UNTAGGED_SKILL];
+}
+
+/** 1 for a problem solved without help, less for each hint and wrong answer, 0 when not solved. */
+export function scoreOutcome(outcome: ProblemOutcome): number {
+  if (!outcome.solved) return 0;
+  return Math.max(
+    MIN_SOLVED_SCORE,
+    1 - HINT_PENALTY * outcome.hintsUsed - WRONG_ANSWER_PENALTY * outcome.wrongAnswers
+  );
+}
+
+export function applyOutcome(state: SkillState | null, skill: string, outcome: ProblemOutcome): SkillState {
+  const score = scoreOutcome(outcome);
+  const mistakes = { ...state?.mistakes };
+  for (const mistake of outcome.mistakes) mistakes[mistake] = (mistakes[mistake] ?? 0) + 1;
+  return {
+    skill,
+    attempts: (state?.attempts ?? 0) + 1,
+    solved: (state?.solved ?? 0) + (outcome.solved ? 1 : 0),
+    hintsUsed: (state?.hintsUsed ?? 0) + outcome.hintsUsed,
+    durationMs: (state?.durationMs ?? 0) + outcome.durationMs,
+    mastery: state ? state.mastery + MASTERY_WEIGHT * (score - state.mastery) : score,
+    mistakes,
+  };
+}
+
+function skillName(skill: string): string {
+  return skill.replace(/[-_]+/g, " ");
+}
+
+function joinNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * A few short observations for the tutor, one per line, such as
+ * "Has struggled with sign errors in factoring (3 times)." Empty until the
+ * student has enough history to say anything.
+ */
+export function buildStudentSummary(skills: SkillState[]): string {
+  const lines: string[] = [];
+
+  const mistakes = skills
+    .flatMap((state) =>
+      ANSWER_MISTAKES.map((mistake) => ({ skill: state.skill, mistake, count: state.mistakes[mistake] ?? 0 }))
+    )
+    .filter(({ count }) => count >= MIN_MISTAKES_FOR_SUMMARY)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_SUMMARY_ITEMS);
+  for (const { skill, mistake, count } of mistakes) {
+    const where = skill === UNTAGGED_SKILL ? "" : ` in ${skillName(skill)}`;
+    lines.push(`- Has struggled with ${MISTAKE_LABELS[mistake]}${where} (${count} times).`);
+  }
+
+  const practised = skills.filter((state) => state.attempts >= MIN_ATTEMPTS_FOR_SUMMARY);
+  const weak = practised
+    .filter((state) => state.mastery < WEAK_MASTERY)
+    .sort((a, b) => a.mastery - b.mastery)
+    .slice(0, MAX_SUMMARY_ITEMS);
+  for (const state of weak) {
+    const name = state.skill === UNTAGGED_SKILL ? "untagged problems" : skillName(state.skill);
+    const hints = (state.hintsUsed / state.attempts).toFixed(1);
+    const minutes = Math.max(1, Math.round(state.durationMs / state.attempts / 60000));
+    lines.push(
+      `- Finds ${name} hard: solved ${state.solved} of ${state.attempts}, ` +
+        `with ${hints} hints and about ${minutes} min per problem.`
+    );
+  }
+
+  const strong = practised
+    .filter((state) => state.mastery >= STRONG_MASTERY && state.skill !== UNTAGGED_SKILL)
+    .sort((a, b) => b.mastery - a.mastery)
+    .slice(0, MAX_SUMMARY_ITEMS)
+    .map((state) => skillName(state.skill));
+  if (strong.length > 0) lines.push(`- Is confident with ${joinNames(strong)}; less help is needed there.`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,271 @@
+import { randomUUID } from "crypto";
+import { Request, Response, Router } from "express";
+import { canTeachClass, requireRole } from "./auth.ts";
+import type { Db } from "./db.ts";
+import {
+  ProblemOutcome,
+  SkillState,
+  applyOutcome,
+  buildStudentSummary,
+  isAnswerMistake,
+  outcomeSkills,
+} from "./skill-model.ts";
+import { isNonEmptyString, toIsoTimestamp } from "./validation.ts";
+
+interface StudentRow {
+  id: string;
+  name: string;
+  created_at: string;
+  class_id: string | null;
+}
+
+interface SkillRow {
+  skill: string;
+  attempts: number;
+  solved: number;
+  hints_used: number;
+  duration_ms: number;
+  mastery: number;
+  mistakes: string;
+  updated_at: string;
+}
+
+interface OutcomeRow {
+  id: string;
+  session_id: string | null;
+  question: string;
+  tags: string;
+  solved: number;
+  hints_used: number;
+  wrong_answers: number;
+  mistakes: string;
+  duration_ms: number;
+  completed_at: string;
+}
+
+interface OutcomeInput extends ProblemOutcome {
+  sessionId: string | null;
+  completedAt: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_OUTCOMES_PER_REQUEST = 50;
+const MAX_TAGS = 20;
+const RECENT_OUTCOME_LIMIT = 20;
+
+function toSkillState(row: SkillRow): SkillState {
+  return {
+    skill: row.skill,
+    attempts: row.attempts,
+    solved: row.solved,
+    hintsUsed: row.hints_used,
+    durationMs: row.duration_ms,
+    mastery: row.mastery,
+    mistakes: JSON.parse(row.mistakes),
+  };
+}
+
+function toStudent(row: StudentRow) {
+  return { id: row.id, name: row.name, createdAt: row.created_at, classId: row.class_id };
+}
+
+function toOutcome(row: OutcomeRow) {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    question: row.question,
+    tags: JSON.parse(row.tags) as string[],
+    solved: row.solved === 1,
+    hintsUsed: row.hints_used,
+    wrongAnswers: row.wrong_answers,
+    mistakes: JSON.parse(row.mistakes) as string[],
+    durationMs: row.duration_ms,
+    completedAt: row.completed_at,
+  };
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/** Validates one reported outcome; returns an error message instead of throwing. */
+function parseOutcomeInput(body: any, now: string): OutcomeInput | string {
+  if (!isNonEmptyString(body?.question)) return "Each outcome needs the question.";
+  if (typeof body.solved !== "boolean") return "solved must be true or false.";
+  if (!isCount(body.hintsUsed) || !isCount(body.wrongAnswers) || !isCount(body.durationMs)) {
+    return "hintsUsed, wrongAnswers and durationMs must be whole numbers of 0 or more.";
+  }
+  const tags = body.tags ?? [];
+  if (!Array.isArray(tags) || tags.length > MAX_TAGS || !tags.every(isNonEmptyString)) {
+    return `tags must be an array of at most ${MAX_TAGS} strings.`;
+  }
+  const mistakes = body.mistakes ?? [];
+  if (!Array.isArray(mistakes) || !mistakes.every(isAnswerMistake)) {
+    return "mistakes must be an array of sign, missing-solution or extra-solution.";
+  }
+  return {
+    question: body.question.trim(),
+    tags: [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()))],
+    solved: body.solved,
+    hintsUsed: body.hintsUsed,
+    wrongAnswers: body.wrongAnswers,
+    mistakes,
+    durationMs: body.durationMs,
+    sessionId: isNonEmptyString(body.sessionId) ? body.sessionId : null,
+    completedAt: toIsoTimestamp(body.completedAt, now),
+  };
+}
+
+/**
+ * REST routes for student profiles and their skill model:
+ *   GET  /               list students by name (a teacher's own class; every student for admins)
+ *   POST /               create a student in the teacher's class: { name }
+ *   GET  /:id            the profile: skills, recent problem outcomes and the summary given to the tutor
+ *   POST /:id/outcomes   record finished problems ({ outcomes: [...] }) and update the skill model
+ * Students read their own profile and record their own outcomes. Mount after `requireUser`.
+ */
+export function createStudentsRouter(db: Db): Router {
+  const router = Router();
+
+  const selectStudent = db.prepare(`SELECT * FROM students WHERE id = ?`);
+  const selectStudents = db.prepare(`SELECT * FROM students ORDER BY name COLLATE NOCASE`);
+  const selectClassStudents = db.prepare(`SELECT * FROM students WHERE class_id = ? ORDER BY name COLLATE NOCASE`);
+  const insertStudent = db.prepare(`INSERT INTO students (id, name, created_at, class_id) VALUES (?, ?, ?, ?)`);
+  const selectSkills = db.prepare(`SELECT * FROM student_skills WHERE student_id = ? ORDER BY skill`);
+  const selectSkill = db.prepare(`SELECT * FROM student_skills WHERE student_id = ? AND skill = ?`);
+  const upsertSkill = db.prepare(`
+    INSERT INTO student_skills
+      (student_id, skill, attempts, solved, hints_used, duration_ms, mastery, mistakes, updated_at)
+    VALUES
+      (@studentId, @skill, @attempts, @solved, @hintsUsed, @durationMs, @mastery, @mistakes, @updatedAt)
+    ON CONFLICT (student_id, skill) DO UPDATE SET
+      attempts = excluded.attempts,
+      solved = excluded.solved,
+      hints_used = excluded.hints_used,
+      duration_ms = excluded.duration_ms,
+      mastery = excluded.mastery,
+      mistakes = excluded.mistakes,
+      updated_at = excluded.updated_at
+  `);
+  const insertOutcome = db.prepare(`
+    INSERT INTO problem_outcomes
+      (id, student_id, session_id, question, tags, solved, hints_used, wrong_answers, mistakes, duration_ms,
+       completed_at)
+    VALUES
+      (@id, @studentId, @sessionId, @question, @tags, @solved, @hintsUsed, @wrongAnswers, @mistakes, @durationMs,
+       @completedAt)
+  `);
+  const selectRecentOutcomes = db.prepare(`
+    SELECT * FROM problem_outcomes WHERE student_id = ? ORDER BY completed_at DESC LIMIT ${RECENT_OUTCOME_LIMIT}
+  `);
+  const selectSessionStudent = db.prepare(`SELECT student_id FROM tutoring_sessions WHERE id = ?`);
+
+  const profile = (student: StudentRow) => {
+    const skills = (selectSkills.all(student.id) as SkillRow[]).map(toSkillState);
+    return {
+      ...toStudent(student),
+      skills,
+      recentOutcomes: (selectRecentOutcomes.all(student.id) as OutcomeRow[]).map(toOutcome),
+      summary: buildStudentSummary(skills),
+    };
+  };
+
+  /** The student a request is about, or null once the response has been sent. */
+  const visibleStudent = (req: Request, res: Response): StudentRow | null => {
+    const student = selectStudent.get(req.params.id) as StudentRow | undefined;
+    if (!student) {
+      res.status(404).json({ error: "Student not found." });
+      return null;
+    }
+    if (req.user!.studentId !== student.id && !canTeachClass(req.user!, student.class_id)) {
+      res.status(403).json({ error: "This student is not in your class." });
+      return null;
+    }
+    return student;
+  };
+
+  router.get("/", requireRole("teacher"), (req, res) => {
+    const rows = req.user!.role === "admin" ? selectStudents.all() : selectClassStudents.all(req.user!.classId);
+    res.json({ students: (rows as StudentRow[]).map(toStudent) });
+  });
+
+  router.post("/", requireRole("teacher"), (req, res) => {
+    const name = req.body?.name;
+    if (!isNonEmptyString(name) || name.trim().length > MAX_NAME_LENGTH) {
+      res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+    const id = randomUUID();
+    insertStudent.run(id, name.trim(), new Date().toISOString(), req.user!.classId);
+    res.status(201).json({ student: toStudent(selectStudent.get(id) as StudentRow) });
+  });
+
+  router.get("/:id", (req, res) => {
+    const student = visibleStudent(req, res);
+    if (!student) return;
+    res.json({ student: profile(student) });
+  });
+
+  router.post("/:id/outcomes", requireRole("student"), (req, res) => {
+    const student = visibleStudent(req, res);
+    if (!student) return;
+    if (req.user!.role !== "admin" && req.user!.studentId !== student.id) {
+      res.status(403).json({ error: "Students record only their own outcomes." });
+      return;
+    }
+
+    const bodies = req.body?.outcomes;
+    if (!Array.isArray(bodies) || bodies.length === 0 || bodies.length > MAX_OUTCOMES_PER_REQUEST) {
+      res.status(400).json({ error: `outcomes must be an array of 1 to ${MAX_OUTCOMES_PER_REQUEST} entries.` });
+      return;
+    }
+    const now = new Date().toISOString();
+    const outcomes: OutcomeInput[] = [];
+    for (const body of bodies) {
+      const outcome = parseOutcomeInput(body, now);
+      if (typeof outcome === "string") {
+        res.status(400).json({ error: outcome });
+        return;
+      }
+      if (outcome.sessionId !== null) {
+        const session = selectSessionStudent.get(outcome.sessionId) as { student_id: string | null } | undefined;
+        if (!session || (session.student_id !== null && session.student_id !== student.id)) {
+          res.status(400).json({ error: "sessionId must be a session of this student." });
+          return;
+        }
+      }
+      outcomes.push(outcome);
+    }
+
+    db.transaction(() => {
+      for (const outcome of outcomes) {
+        insertOutcome.run({
+          id: randomUUID(),
+          studentId: student.id,
+          sessionId: outcome.sessionId,
+          question: outcome.question,
+          tags: JSON.stringify(outcome.tags),
+          solved: outcome.solved ? 1 : 0,
+          hintsUsed: outcome.hintsUsed,
+          wrongAnswers: outcome.wrongAnswers,
+          mistakes: JSON.stringify(outcome.mistakes),
+          durationMs: outcome.durationMs,
+          completedAt: outcome.completedAt,
+        });
+        for (const skill of outcomeSkills(outcome)) {
+          const row = selectSkill.get(student.id, skill) as SkillRow | undefined;
+          const next = applyOutcome(row ? toSkillState(row) : null, skill, outcome);
+          upsertSkill.run({
+            studentId: student.id,
+            ...next,
+            mistakes: JSON.stringify(next.mistakes),
+            updatedAt: now,
+          });
+        }
+      }
+    })();
+    res.status(201).json({ student: profile(student) });
+  });
+
+  return router;
+}
@@ -0,0 +1,15 @@
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export function toIsoTimestamp(value: unknown, fallback: string): string {
+  if (typeof value !== "string" && typeof value !== "number") return fallback;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/** Parses a query-string integer, clamped to [min, max]. */
+export function parseIntParam(value: unknown, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Math.min(Math.max(Number.isNaN(parsed) ? fallback : parsed, min), max);
+}
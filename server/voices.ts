@@ -0,0 +1,262 @@
+import { Router } from "express";
+import { GoogleGenAI, Modality } from "@google/genai";
+import { isNonEmptyString } from "./validation.ts";
+
+export type VoiceProvider = "gemini" | "openai";
+
+export interface VoiceOption {
+  name: string;
+  /** Short character of the voice, shown next to its name in the picker. */
+  description: string;
+}
+
+// Prebuilt voices of the Gemini native audio (and TTS) models
+const GEMINI_VOICES: VoiceOption[] = [
+  { name: "Zephyr", description: "Bright" },
+  { name: "Puck", description: "Upbeat" },
+  { name: "Charon", description: "Informative" },
+  { name: "Kore", description: "Firm" },
+  { name: "Fenrir", description: "Excitable" },
+  { name: "Leda", description: "Youthful" },
+  { name: "Orus", description: "Firm" },
+  { name: "Aoede", description: "Breezy" },
+  { name: "Callirrhoe", description: "Easy-going" },
+  { name: "Autonoe", description: "Bright" },
+  { name: "Enceladus", description: "Breathy" },
+  { name: "Iapetus", description: "Clear" },
+  { name: "Umbriel", description: "Easy-going" },
+  { name: "Algieba", description: "Smooth" },
+  { name: "Despina", description: "Smooth" },
+  { name: "Erinome", description: "Clear" },
+  { name: "Algenib", description: "Gravelly" },
+  { name: "Rasalgethi", description: "Informative" },
+  { name: "Laomedeia", description: "Upbeat" },
+  { name: "Achernar", description: "Soft" },
+  { name: "Alnilam", description: "Firm" },
+  { name: "Schedar", description: "Even" },
+  { name: "Gacrux", description: "Mature" },
+  { name: "Pulcherrima", description: "Forward" },
+  { name: "Achird", description: "Friendly" },
+  { name: "Zubenelgenubi", description: "Casual" },
+  { name: "Vindemiatrix", description: "Gentle" },
+  { name: "Sadachbia", description: "Lively" },
+  { name: "Sadaltager", description: "Knowledgeable" },
+  { name: "Sulafat", description: "Warm" },
+];
+
+// Voices the Realtime API accepts; the TTS model used for previews speaks all of them
+const OPENAI_VOICES: VoiceOption[] = [
+  { name: "alloy", description: "Neutral" },
+  { name: "ash", description: "Clear" },
+  { name: "ballad", description: "Warm" },
+  { name: "coral", description: "Bright" },
+  { name: "echo", description: "Calm" },
+  { name: "sage", description: "Soft" },
+  { name: "shimmer", description: "Light" },
+  { name: "verse", description: "Expressive" },
+  { name: "marin", description: "Natural" },
+  { name: "cedar", description: "Natural" },
+];
+
+export const PROVIDER_VOICES: Record<VoiceProvider, VoiceOption[]> = {
+  gemini: GEMINI_VOICES,
+  openai: OPENAI_VOICES,
+};
+
+export const DEFAULT_OPENAI_VOICE = "alloy";
+
+// Limits of the OpenAI `speed` setting and of a Realtime response
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 1.5;
+const MAX_RESPONSE_TOKENS = 4096;
+const MAX_PREVIEW_TEXT_LENGTH = 300;
+// Previews per user in each window; enough to compare every voice at a few paces, not to run up the speech bill
+const MAX_PREVIEWS_PER_WINDOW = 30;
+const PREVIEW_WINDOW_MS = 10 * 60 * 1000;
+
+const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const GEMINI_TTS_SAMPLE_RATE = 24000;
+const OPENAI_TTS_MODEL = "gpt-4o-mini-tts";
+
+function isVoiceProvider(value: unknown): value is VoiceProvider {
+  return value === "gemini" || value === "openai";
+}
+
+export function isProviderVoice(provider: VoiceProvider, voice: string): boolean {
+  return PROVIDER_VOICES[provider].some((option) => option.name === voice);
+}
+
+/** Voice and speech settings a client may ask for when a session is created. */
+export interface SessionVoiceSettings {
+  voice?: string;
+  /** Speaking rate multiplier; only OpenAI has a rate setting. */
+  speed?: number;
+  maxResponseTokens?: number;
+}
+
+/** Validates the optional settings in a session-creation body; returns an error message when they are invalid. */
+export function parseSessionVoiceSettings(provider: VoiceProvider, body: any): SessionVoiceSettings | string {
+  const settings: SessionVoiceSettings = {};
+  if (body?.voice !== undefined) {
+    if (!isNonEmptyString(body.voice) || !isProviderVoice(provider, body.voice)) {
+      return `voice must be one of: ${PROVIDER_VOICES[provider].map((option) => option.name).join(", ")}.`;
+    }
+    settings.voice = body.voice;
+  }
+  if (body?.speed !== undefined) {
+    if (typeof body.speed !== "number" || !(body.speed >= MIN_SPEED && body.speed <= MAX_SPEED)) {
+      return `speed must be a number from ${MIN_SPEED} to ${MAX_SPEED}.`;
+    }
+    settings.speed = body.speed;
+  }
+  if (body?.maxResponseTokens !== undefined) {
+    const tokens = body.maxResponseTokens;
+    if (!Number.isInteger(tokens) || tokens < 1 || tokens > MAX_RESPONSE_TOKENS) {
+      return `maxResponseTokens must be a whole number from 1 to ${MAX_RESPONSE_TOKENS}.`;
+    }
+    settings.maxResponseTokens = tokens;
+  }
+  return settings;
+}
+
+/** Wraps 16-bit mono PCM in a WAV header so browsers can play it directly. */
+function pcm16ToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/** Offline preview: a short two-note chime, pitched per voice so different voices sound different. */
+function mockPreview(provider: VoiceProvider, voice: string, speed: number): Buffer {
+  const sampleRate = 16000;
+  const index = Math.max(0, PROVIDER_VOICES[provider].findIndex((option) => option.name === voice));
+  const baseHz = 220 + (index % 12) * 30;
+  const noteSamples = Math.round((0.3 / speed) * sampleRate);
+  const pcm = Buffer.alloc(noteSamples * 2 * 2);
+  for (let i = 0; i < noteSamples * 2; i++) {
+    const hz = i < noteSamples ? baseHz : baseHz * 1.5;
+    const t = (i % noteSamples) / sampleRate;
+    const envelope = Math.min(1, (i % noteSamples) / 400, (noteSamples - (i % noteSamples)) / 400);
+    pcm.writeInt16LE(Math.round(Math.sin(2 * Math.PI * hz * t) * envelope * 8000), i * 2);
+  }
+  return pcm16ToWav(pcm, sampleRate);
+}
+
+async function geminiPreview(apiKey: string, voice: string, text: string, speed: number): Promise<Buffer> {
+  const ai = new GoogleGenAI({ apiKey });
+  // The TTS model takes delivery directions in the prompt rather than a rate setting
+  const direction = speed < 1 ? "Say slowly and clearly: " : speed > 1 ? "Say briskly: " : "";
+  const response = await ai.models.generateContent({
+    model: GEMINI_TTS_MODEL,
+    contents: [{ role: "user", parts: [{ text: `${direction}${text}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+    },
+  });
+  if (!response.data) throw new Error("Gemini TTS response contained no audio.");
+  return pcm16ToWav(Buffer.from(response.data, "base64"), GEMINI_TTS_SAMPLE_RATE);
+}
+
+async function openAiPreview(apiKey: string, voice: string, text: string, speed: number): Promise<Buffer> {
+  const resp = await fetch("https://api.openai.com/v1/audio/speech", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ model: OPENAI_TTS_MODEL, voice, input: text, speed, response_format: "wav" }),
+  });
+  if (!resp.ok) throw new Error(`OpenAI speech request failed (${resp.status}): ${await resp.text()}`);
+  return Buffer.from(await resp.arrayBuffer());
+}
+
+/**
+ * Voice catalog and previews:
+ *   GET  /          the voices each provider supports: { voices: { gemini: [...], openai: [...] } }
+ *   POST /preview   { provider, voice, text, speed? }; returns a short WAV clip of the voice saying `text`
+ * Previews call a paid speech API, so each user gets a limited number per window. Mount after `requireUser`.
+ */
+export function createVoicesRouter(mockMode: boolean): Router {
+  const router = Router();
+  const previewsByUser = new Map<string, { count: number; since: number }>();
+
+  /** Counts a preview towards the user's window; false once the window's previews are used up. */
+  const takePreview = (userId: string): boolean => {
+    const now = Date.now();
+    const used = previewsByUser.get(userId);
+    if (!used || now - used.since > PREVIEW_WINDOW_MS) {
+      previewsByUser.set(userId, { count: 1, since: now });
+      return true;
+    }
+    if (used.count >= MAX_PREVIEWS_PER_WINDOW) return false;
+    used.count += 1;
+    return true;
+  };
+
+  router.get("/", (_req, res) => {
+    res.json({ voices: PROVIDER_VOICES });
+  });
+
+  router.post("/preview", async (req, res) => {
+    const { provider, voice, text } = req.body ?? {};
+    if (!isVoiceProvider(provider)) {
+      res.status(400).json({ error: "provider must be gemini or openai." });
+      return;
+    }
+    if (!isNonEmptyString(voice) || !isProviderVoice(provider, voice)) {
+      res.status(400).json({ error: `Unknown ${provider} voice.` });
+      return;
+    }
+    if (!isNonEmptyString(text) || text.length > MAX_PREVIEW_TEXT_LENGTH) {
+      res.status(400).json({ error: `text must be 1 to ${MAX_PREVIEW_TEXT_LENGTH} characters.` });
+      return;
+    }
+    const settings = parseSessionVoiceSettings(provider, { speed: req.body.speed });
+    if (typeof settings === "string") {
+      res.status(400).json({ error: settings });
+      return;
+    }
+    const speed = settings.speed ?? 1;
+    if (!takePreview(req.user!.id)) {
+      res.status(429).json({ error: "Too many voice previews. Try again in a few minutes." });
+      return;
+    }
+
+    if (mockMode) {
+      res.type("audio/wav").send(mockPreview(provider, voice, speed));
+      return;
+    }
+    const apiKey = provider === "gemini" ? process.env.GEMINI_API_KEY : process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      const keyName = provider === "gemini" ? "GEMINI_API_KEY" : "OPENAI_API_KEY";
+      res.status(503).json({ error: `Voice previews need ${keyName} on the server.` });
+      return;
+    }
+
+    try {
+      const audio =
+        provider === "gemini"
+          ? await geminiPreview(apiKey, voice, text.trim(), speed)
+          : await openAiPreview(apiKey, voice, text.trim(), speed);
+      res.type("audio/wav").send(audio);
+    } catch (error) {
+      console.error("Voice preview failed:", error);
+      res.status(502).json({ error: "Could not generate the voice preview." });
+    }
+  });
+
+  return router;
+}
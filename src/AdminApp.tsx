@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, LayoutGrid, Plus, Shield, Trash2, UserPlus } from "lucide-react";
+import { AccountMenu } from "./components/AccountMenu";
+import { ManagedUser, SchoolClass, createClass, createUser, deleteUser, listClasses, listUsers, setUserPassword } from "./api/admin";
+import type { AuthUser, Role } from "./api/auth";
+import { Student, listStudents } from "./api/students";
+
+interface AdminAppProps {
+  user: AuthUser;
+}
+
+const ROLE_LABELS: Record<Role, string> = { student: "Student", teacher: "Teacher", admin: "Admin" };
+// The server's minimum
+const MIN_PASSWORD_LENGTH = 8;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function AdminApp({ user }: AdminAppProps) {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [className, setClassName] = useState("");
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [role, setRole] = useState<Role>("student");
+  const [classId, setClassId] = useState("");
+  const [password, setPassword] = useState("");
+  // An existing student profile (from before sign-in existed) to hand to the new student
+  const [linkStudentId, setLinkStudentId] = useState("");
+
+  const reload = useCallback(async () => {
+    try {
+      const [loadedClasses, loadedUsers, loadedStudents] = await Promise.all([listClasses(), listUsers(), listStudents()]);
+      setClasses(loadedClasses);
+      setUsers(loadedUsers);
+      setStudents(loadedStudents);
+    } catch (loadError) {
+      setStatus(errorMessage(loadError));
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const handleCreateClass = useCallback(async () => {
+    const name = className.trim();
+    if (!name) return;
+    try {
+      const created = await createClass(name);
+      setClassName("");
+      setClassId((current) => current || created.id);
+      setStatus(null);
+      await reload();
+    } catch (createError) {
+      setStatus(errorMessage(createError));
+    }
+  }, [className, reload]);
+
+  const handleCreateUser = useCallback(async () => {
+    try {
+      await createUser({
+        username: username.trim(),
+        displayName: displayName.trim(),
+        role,
+        ...(role !== "admin" && classId ? { classId } : {}),
+        ...(password ? { password } : {}),
+        ...(role === "student" && linkStudentId ? { studentId: linkStudentId } : {}),
+      });
+      setUsername("");
+      setDisplayName("");
+      setPassword("");
+      setLinkStudentId("");
+      setStatus(null);
+      await reload();
+    } catch (createError) {
+      setStatus(errorMessage(createError));
+    }
+  }, [username, displayName, role, classId, password, linkStudentId, reload]);
+
+  const handleResetPassword = useCallback(async (target: ManagedUser) => {
+    const next = window.prompt(`New password for ${target.displayName} (at least ${MIN_PASSWORD_LENGTH} characters)`);
+    if (!next) return;
+    try {
+      await setUserPassword(target.id, next);
+      setStatus(`Password changed for ${target.displayName}; they were signed out everywhere.`);
+    } catch (resetError) {
+      setStatus(errorMessage(resetError));
+    }
+  }, []);
+
+  const handleDelete = useCallback(
+    async (target: ManagedUser) => {
+      if (!window.confirm(`Delete ${target.displayName}? Their student profile and session history are kept.`)) return;
+      try {
+        await deleteUser(target.id);
+        setStatus(null);
+        await reload();
+      } catch (deleteError) {
+        setStatus(errorMessage(deleteError));
+      }
+    },
+    [reload]
+  );
+
+  const classNames = new Map(classes.map((entry) => [entry.id, entry.name]));
+  const linkedStudentIds = new Set(users.map((entry) => entry.studentId).filter(Boolean));
+  const unlinkedStudents = students.filter((student) => !linkedStudentIds.has(student.id));
+  const needsClass = role !== "admin";
+  const canCreateUser =
+    username.trim() !== "" &&
+    displayName.trim() !== "" &&
+    (!needsClass || classId !== "") &&
+    (!password || password.length >= MIN_PASSWORD_LENGTH);
+
+  const fieldClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50";
+  const buttonClassName =
+    "h-9 px-3 shrink-0 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans selection:bg-indigo-500/30">
+      <div className="flex-1 flex min-h-0 p-4 gap-4">
+        {/* Left Panel - classes and new accounts */}
+        <div className="flex-4 min-w-0 flex flex-col gap-4 overflow-y-auto">
+          <div className="shrink-0 space-y-1">
+            <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-2">
+              <Shield className="w-5 h-5 text-indigo-400" />
+              Accounts
+            </h1>
+            <p className="text-neutral-400 text-sm">Classes, students, teachers and admins</p>
+            <div className="flex items-center gap-4">
+              <a href="/teacher" className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200">
+                <LayoutGrid className="w-3.5 h-3.5" />
+                Teacher dashboard
+              </a>
+              <AccountMenu user={user} />
+            </div>
+          </div>
+
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Classes</label>
+            <ul className="text-sm text-neutral-300 space-y-1">
+              {classes.map((entry) => (
+                <li key={entry.id}>
+                  {entry.name}{" "}
+                  <span className="text-xs text-neutral-500">
+                    {users.filter((member) => member.classId === entry.id).length} members
+                  </span>
+                </li>
+              ))}
+              {classes.length === 0 && <li className="text-neutral-500 text-xs">No classes yet.</li>}
+            </ul>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={className}
+                onChange={(e) => setClassName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void handleCreateClass();
+                }}
+                placeholder="New class name"
+                className={fieldClassName}
+              />
+              <button onClick={() => void handleCreateClass()} disabled={!className.trim()} className={buttonClassName}>
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">New account</label>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username (or single sign-on email)"
+                className={fieldClassName}
+              />
+              <input
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Display name"
+                className={fieldClassName}
+              />
+              <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={fieldClassName}>
+                {(Object.keys(ROLE_LABELS) as Role[]).map((value) => (
+                  <option key={value} value={value}>
+                    {ROLE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={needsClass ? classId : ""}
+                onChange={(e) => setClassId(e.target.value)}
+                disabled={!needsClass}
+                className={fieldClassName}
+              >
+                <option value="">{needsClass ? "Pick a class" : "Admins have no class"}</option>
+                {classes.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password (empty: single sign-on only)"
+                autoComplete="new-password"
+                className={fieldClassName}
+              />
+              <select
+                value={role === "student" ? linkStudentId : ""}
+                onChange={(e) => setLinkStudentId(e.target.value)}
+                disabled={role !== "student"}
+                className={fieldClassName}
+              >
+                <option value="">New student profile</option>
+                {unlinkedStudents.map((student) => (
+                  <option key={student.id} value={student.id}>
+                    Existing profile: {student.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button onClick={() => void handleCreateUser()} disabled={!canCreateUser} className={buttonClassName}>
+              <UserPlus className="w-3.5 h-3.5" />
+              Create account
+            </button>
+          </div>
+
+          {status && <p className="text-xs text-neutral-400">{status}</p>}
+        </div>
+
+        {/* Right Panel - every account */}
+        <div className="flex-6 min-w-0 flex flex-col gap-2 overflow-y-auto">
+          <label className="block text-sm font-medium text-neutral-300">Users</label>
+          {users.map((entry) => (
+            <div
+              key={entry.id}
+              className="px-4 py-3 rounded-xl border border-white/10 bg-neutral-800/40 flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-neutral-100 truncate">
+                  {entry.displayName} <span className="text-neutral-500 font-normal">@{entry.username}</span>
+                </p>
+                <p className="text-xs text-neutral-400">
+                  {ROLE_LABELS[entry.role]}
+                  {entry.classId ? ` · ${classNames.get(entry.classId) ?? "Unknown class"}` : ""}
+                  {entry.hasPassword ? "" : " · single sign-on only"}
+                  {entry.oidcLinked ? " · linked to single sign-on" : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => void handleResetPassword(entry)} className={buttonClassName}>
+                  <KeyRound className="w-3.5 h-3.5" />
+                  Set password
+                </button>
+                <button
+                  onClick={() => void handleDelete(entry)}
+                  disabled={entry.id === user.id}
+                  className={`${buttonClassName} hover:bg-red-500/20 hover:text-red-300`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
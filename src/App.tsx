@@ -3,81 +3,390 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useState, useCallback, useRef, useEffect } from "react";
-import { Mic, MicOff, PhoneOff, Loader2, AlertCircle, Send } from "lucide-react";
+import { useState, useCallback, useEffect } from "react";
+import { Mic, MicOff, PhoneOff, Loader2, AlertCircle, Send, Hand, Headphones, ListPlus } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
+import { AccountMenu } from "./components/AccountMenu";
 import { AudioVisualizer } from "./components/AudioVisualizer";
+import {
+  ConversationEntry,
+  ConversationLog,
+  appendAgentText,
+  appendTranscript,
+  appendTypedEntry,
+  trimLastAgentEntry,
+} from "./components/ConversationLog";
 import { MathRenderer } from "./components/MathRenderer";
-import { useLiveApi } from "./hooks/use-live-api";
+import { ProblemBankPicker } from "./components/ProblemBankPicker";
+import { ProblemCapture } from "./components/ProblemCapture";
+import { ProblemSetProgress, ProblemSetQueue } from "./components/ProblemSet";
+import { StudentSkills } from "./components/StudentSkills";
+import { TextComposer } from "./components/TextComposer";
+import { TurnTakingSettings } from "./components/TurnTakingSettings";
+import { VoiceSettingsPanel } from "./components/VoiceSettingsPanel";
+import { Whiteboard, WhiteboardItem, appendWhiteboardItem, sketchDataUrl } from "./components/Whiteboard";
+import { useClassroomReporter } from "./hooks/use-classroom-reporter";
+import { useSessionRecorder } from "./hooks/use-session-recorder";
+import { useStudentProgress } from "./hooks/use-student-progress";
+import { useTurnDetectionSettings, useVoiceSettings } from "./hooks/use-voice-settings";
+import {
+  DEFAULT_SESSION_LANGUAGE,
+  SESSION_LANGUAGES,
+  SessionLanguageId,
+  getSessionLanguage,
+  isSessionLanguageId,
+} from "./prompts/languages";
+import {
+  DEFAULT_TUTOR_MODE,
+  ProblemAdvanceReason,
+  TUTOR_MODES,
+  TutorModeId,
+  getTutorMode,
+  isTutorModeId,
+} from "./prompts/math-tutor";
+import type { AuthUser } from "./api/auth";
+import type { AnswerCheckResult } from "./math/answer-check";
+import type { ConversationRole, ImageInput, InterruptionInfo, TutorProblem } from "./hooks/voice-session";
+import {
+  getVoiceProviderLabel,
+  isVoiceProviderId,
+  useProviderSelection,
+  useVoiceTutorSession,
+} from "./hooks/use-voice-tutor-session";
 
-interface ConversationEntry {
-  role: "user" | "agent";
-  text: string;
+// Sent with every sketch so the tutor knows to look at it and respond
+const SKETCH_PROMPT = "I drew my work on the whiteboard. Can you take a look?";
+
+interface AppProps {
+  user: AuthUser;
 }
 
-export default function App() {
-  const { connect, disconnect, isConnected, isConnecting, error, inputAnalyser, outputAnalyser } =
-    useLiveApi();
+export default function App({ user }: AppProps) {
+  const { provider, setProvider, availableProviders, isLoadingProviders } = useProviderSelection();
+  const {
+    connect,
+    disconnect,
+    toggleMute,
+    sendText,
+    sendImage,
+    advanceProblem,
+    startTalking,
+    stopTalking,
+    isTalking,
+    whisper,
+    setTutorPaused,
+    isTutorPaused,
+    isMicMuted,
+    isConnected,
+    isConnecting,
+    isReconnecting,
+    state,
+    error,
+    inputAnalyser,
+    outputAnalyser,
+    model,
+  } = useVoiceTutorSession(provider);
+  const providerLabel = getVoiceProviderLabel(provider);
+  const { settings: voiceSettings, updateSettings: updateVoiceSettings } = useVoiceSettings(provider);
+  const { turnDetection, updateTurnDetection } = useTurnDetectionSettings();
+  const isPushToTalk = turnDetection.mode === "push-to-talk";
 
   const [question, setQuestion] = useState("");
   const [answer, setAnswer] = useState("");
   const [wrongAnswer, setWrongAnswer] = useState("");
+  // Skill tags of a problem picked from the bank; typed and captured problems have none
+  const [questionTags, setQuestionTags] = useState<string[]>([]);
+  // Problems added with "Add to set"; the one still in the form goes last when the session starts
+  const [queuedProblems, setQueuedProblems] = useState<TutorProblem[]>([]);
+  // The set the running session works through, and how each finished problem ended
+  const [sessionProblems, setSessionProblems] = useState<TutorProblem[]>([]);
+  const [completedProblems, setCompletedProblems] = useState<ProblemAdvanceReason[]>([]);
+  const [tutorMode, setTutorMode] = useState<TutorModeId>(DEFAULT_TUTOR_MODE);
+  const [language, setLanguage] = useState<SessionLanguageId>(DEFAULT_SESSION_LANGUAGE);
+  const [bilingual, setBilingual] = useState(false);
+  // Bilingual only means something when the session language is not English
+  const isBilingual = bilingual && language !== "en";
   const [conversationLog, setConversationLog] = useState<ConversationEntry[]>([]);
+  const [whiteboard, setWhiteboard] = useState<WhiteboardItem[]>([]);
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [micEnabled, setMicEnabled] = useState(true);
-  const conversationScrollRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    conversationScrollRef.current?.scrollTo({
-      top: conversationScrollRef.current.scrollHeight,
-      behavior: "smooth",
-    });
-  }, [conversationLog]);
+  const {
+    start: startRecording,
+    finish: finishRecording,
+    getSessionId,
+  } = useSessionRecorder(conversationLog, whiteboard);
+  const {
+    profile: studentProfile,
+    error: studentError,
+    startProblem,
+    noteTutorReply,
+    noteAnswerCheck,
+    finishProblem,
+  } = useStudentProgress(user.studentId, getSessionId);
+  // Declared before the effects below so its socket opens before they report the session's first problem
+  const {
+    report: reportToClassroom,
+    isTeacherTalking,
+    talkError,
+  } = useClassroomReporter(
+    isSubmitted,
+    { provider },
+    { onWhisper: whisper, onPause: setTutorPaused }
+  );
 
   const onUserTranscript = useCallback((text: string) => {
     if (!text?.trim()) return;
-    setConversationLog((prev) => {
-      const last = prev[prev.length - 1];
-      if (last?.role === "user") {
-        return [...prev.slice(0, -1), { role: "user" as const, text: last.text + text }];
-      }
-      return [...prev, { role: "user", text: text.trim() }];
-    });
-  }, []);
+    setConversationLog((prev) => appendTranscript(prev, "user", text));
+    reportToClassroom({ type: "transcript", role: "user", text });
+  }, [reportToClassroom]);
 
   const onAgentTranscript = useCallback((text: string) => {
     if (!text?.trim()) return;
-    setConversationLog((prev) => {
-      const last = prev[prev.length - 1];
-      if (last?.role === "agent") {
-        return [...prev.slice(0, -1), { role: "agent" as const, text: last.text + text }];
-      }
-      return [...prev, { role: "agent", text: text.trim() }];
+    setConversationLog((prev) => appendTranscript(prev, "agent", text));
+    reportToClassroom({ type: "transcript", role: "agent", text });
+  }, [reportToClassroom]);
+
+  const onAgentText = useCallback((text: string) => {
+    if (!text?.trim()) return;
+    setConversationLog((prev) => appendAgentText(prev, text));
+  }, []);
+
+  const onWhiteboardStep = useCallback((latex: string) => {
+    setWhiteboard((prev) => appendWhiteboardItem(prev, "step", latex));
+  }, []);
+
+  const onTurnStart = useCallback(
+    (role: ConversationRole) => {
+      reportToClassroom({ type: "turn", role, active: true });
+    },
+    [reportToClassroom]
+  );
+
+  const onTurnEnd = useCallback(
+    (role: ConversationRole) => {
+      if (role === "agent") noteTutorReply();
+      reportToClassroom({ type: "turn", role, active: false });
+    },
+    [noteTutorReply, reportToClassroom]
+  );
+
+  const onAnswerChecked = useCallback(
+    (result: AnswerCheckResult) => {
+      noteAnswerCheck(result);
+      reportToClassroom({ type: "answer", correct: result.correct });
+    },
+    [noteAnswerCheck, reportToClassroom]
+  );
+
+  const onProblemSolved = useCallback(() => {
+    setCompletedProblems((prev) => [...prev, "solved"]);
+  }, []);
+
+  const onInterrupted = useCallback(({ heardText }: InterruptionInfo) => {
+    if (heardText === undefined) return;
+    setConversationLog((prev) => trimLastAgentEntry(prev, heardText));
+  }, []);
+
+  const handleSendText = useCallback(
+    (text: string) => {
+      // Only what the session took shows as sent; while the teacher has the tutor paused, nothing does
+      const sent = sendText(text);
+      if (sent) setConversationLog((prev) => appendTypedEntry(prev, text));
+      return sent;
+    },
+    [sendText]
+  );
+
+  const handleSendSketch = useCallback(
+    (image: ImageInput) => {
+      if (!sendImage(image, SKETCH_PROMPT)) return;
+      setWhiteboard((prev) => appendWhiteboardItem(prev, "sketch", sketchDataUrl(image)));
+      setConversationLog((prev) => appendTypedEntry(prev, SKETCH_PROMPT));
+    },
+    [sendImage]
+  );
+
+  // The problem currently in the form, or null while its question or answer is empty
+  const formProblem: TutorProblem | null =
+    question.trim() && answer.trim()
+      ? {
+          question: question.trim(),
+          answer: answer.trim(),
+          wrongAnswer: wrongAnswer.trim() || undefined,
+          tags: questionTags.length > 0 ? questionTags : undefined,
+        }
+      : null;
+  const problemsToSubmit = formProblem ? [...queuedProblems, formProblem] : queuedProblems;
+
+  const handleAddToSet = useCallback(() => {
+    if (!formProblem) return;
+    setQueuedProblems((prev) => [...prev, formProblem]);
+    setQuestion("");
+    setAnswer("");
+    setWrongAnswer("");
+    setQuestionTags([]);
+  }, [formProblem]);
+
+  const handleMoveQueued = useCallback((index: number, direction: -1 | 1) => {
+    setQueuedProblems((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
     });
   }, []);
 
   const handleSubmit = useCallback(() => {
-    const q = question.trim();
-    const a = answer.trim();
-    if (!q || !a) return;
+    const problems = problemsToSubmit;
+    if (problems.length === 0) return;
+    const [first] = problems;
     setIsSubmitted(true);
     setConversationLog([]);
+    setWhiteboard([]);
+    setSessionProblems(problems);
+    setCompletedProblems([]);
+    startProblem(first);
     connect({
-      question: q,
-      answer: a,
-      wrongAnswer: wrongAnswer.trim() || undefined,
+      ...first,
+      position: problems.length > 1 ? { index: 0, total: problems.length } : undefined,
+      studentSummary: studentProfile?.summary || undefined,
+      mode: tutorMode,
+      language,
+      bilingual: isBilingual,
+      voice: voiceSettings.voice,
+      pace: voiceSettings.pace,
+      maxResponseTokens: voiceSettings.maxResponseTokens,
+      turnDetection,
       onUserTranscript,
       onAgentTranscript,
+      onAgentText,
+      onWhiteboardStep,
+      onAnswerChecked,
+      onProblemSolved,
+      onTurnStart,
+      onTurnEnd,
+      onInterrupted,
+    });
+  }, [
+    problemsToSubmit,
+    studentProfile,
+    startProblem,
+    tutorMode,
+    language,
+    isBilingual,
+    voiceSettings,
+    turnDetection,
+    connect,
+    onUserTranscript,
+    onAgentTranscript,
+    onAgentText,
+    onWhiteboardStep,
+    onAnswerChecked,
+    onProblemSolved,
+    onTurnStart,
+    onTurnEnd,
+    onInterrupted,
+  ]);
+
+  // Each finished problem is recorded for the student and moves the live session on to the next one, if any
+  useEffect(() => {
+    const index = completedProblems.length;
+    if (index === 0) return;
+    finishProblem(completedProblems[index - 1] === "solved");
+    if (index >= sessionProblems.length) return;
+    startProblem(sessionProblems[index]);
+    advanceProblem(sessionProblems[index], { index, total: sessionProblems.length }, completedProblems[index - 1]);
+    // Only a newly finished problem matters here; the set is fixed while the session runs
+  }, [completedProblems]);
+
+  // The teacher dashboard follows the connection and whichever problem of the set is current
+  useEffect(() => {
+    if (isSubmitted) reportToClassroom({ type: "state", state });
+  }, [isSubmitted, state, reportToClassroom]);
+
+  useEffect(() => {
+    const index = completedProblems.length;
+    if (!isSubmitted || index >= sessionProblems.length) return;
+    reportToClassroom({
+      type: "problem",
+      question: sessionProblems[index].question,
+      index,
+      total: sessionProblems.length,
     });
-  }, [question, answer, wrongAnswer, connect, onUserTranscript, onAgentTranscript]);
+  }, [isSubmitted, sessionProblems, completedProblems.length, reportToClassroom]);
+
+  const handleNextProblem = useCallback(() => {
+    setCompletedProblems((prev) => (prev.length < sessionProblems.length ? [...prev, "teacher"] : prev));
+  }, [sessionProblems.length]);
+
+  // Store the session once connected (the provider reports its model then) and close it when the call ends
+  useEffect(() => {
+    if (isConnected && isSubmitted) {
+      const isSet = sessionProblems.length > 1;
+      // A set is stored as one numbered list of its questions and answers
+      startRecording({
+        problem: isSet
+          ? sessionProblems.map((problem, i) => `${i + 1}. ${problem.question}`).join("\n")
+          : sessionProblems[0].question,
+        correctAnswer: isSet
+          ? sessionProblems.map((problem, i) => `${i + 1}. ${problem.answer}`).join("\n")
+          : sessionProblems[0].answer,
+        wrongAttempt: isSet ? undefined : sessionProblems[0].wrongAnswer,
+        provider,
+        model,
+      });
+    } else if (!isConnected && !isConnecting && !isReconnecting) {
+      void finishRecording();
+    }
+    // Only connection transitions matter here; the form is locked while submitted
+  }, [isConnected, isConnecting, isReconnecting]);
+
+  // Push to talk: hold the spacebar anywhere except while typing
+  useEffect(() => {
+    if (!isPushToTalk || !isConnected) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    // Releasing the key in another window never reaches this one
+    const handleBlur = () => stopTalking();
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, [isPushToTalk, isConnected, startTalking, stopTalking]);
 
   const handleDisconnect = useCallback(() => {
+    // A problem still open when the call ends counts as not solved; finished ones were recorded as they finished
+    if (completedProblems.length < sessionProblems.length) finishProblem(false);
+    void finishRecording();
     disconnect();
     setIsSubmitted(false);
     setConversationLog([]);
-  }, [disconnect]);
+    setWhiteboard([]);
+    setSessionProblems([]);
+    setCompletedProblems([]);
+  }, [disconnect, finishRecording, finishProblem, completedProblems.length, sessionProblems.length]);
 
-  const canSubmit = question.trim().length > 0 && answer.trim().length > 0 && !isConnected && !isConnecting;
+  const canSubmit =
+    problemsToSubmit.length > 0 &&
+    availableProviders.length > 0 &&
+    !isConnected &&
+    !isConnecting &&
+    !isReconnecting;
 
   return (
     <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans selection:bg-indigo-500/30">
@@ -87,11 +396,137 @@ export default function App() {
           <div className="text-center shrink-0">
             <h1 className="text-2xl font-semibold tracking-tight">Math Tutor</h1>
             <p className="text-neutral-400 text-sm">Enter a problem and get voice help</p>
+            <div className="flex items-center justify-center gap-4 mt-1">
+              <AccountMenu user={user} />
+            </div>
+          </div>
+
+          {/* Student Section */}
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Your progress</label>
+            <StudentSkills profile={studentProfile} error={studentError} />
+          </div>
+
+          {/* Provider Section */}
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Voice Provider</label>
+            {availableProviders.length > 0 ? (
+              <select
+                value={provider}
+                onChange={(e) => {
+                  if (isVoiceProviderId(e.target.value)) setProvider(e.target.value);
+                }}
+                className="w-full px-4 py-3 bg-neutral-800/50 rounded-xl border border-white/10 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                disabled={isSubmitted}
+              >
+                {availableProviders.map((info) => (
+                  <option key={info.id} value={info.id}>
+                    {info.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-xs text-neutral-500">
+                {isLoadingProviders
+                  ? "Checking which providers are configured..."
+                  : "No voice provider is configured on the server. Set GEMINI_API_KEY or OPENAI_API_KEY."}
+              </p>
+            )}
+            {availableProviders.length > 0 && (
+              <VoiceSettingsPanel
+                provider={provider}
+                settings={voiceSettings}
+                onChange={updateVoiceSettings}
+                language={language}
+                defaultMaxResponseTokens={getTutorMode(tutorMode).maxResponseTokens}
+                disabled={isSubmitted}
+              />
+            )}
+          </div>
+
+          {/* Language Section */}
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Session Language</label>
+            <select
+              value={language}
+              onChange={(e) => {
+                if (isSessionLanguageId(e.target.value)) setLanguage(e.target.value);
+              }}
+              className="w-full px-4 py-3 bg-neutral-800/50 rounded-xl border border-white/10 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+              disabled={isSubmitted}
+            >
+              {SESSION_LANGUAGES.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.label}
+                </option>
+              ))}
+            </select>
+            <label
+              className={`flex items-center gap-2 text-xs ${language === "en" ? "text-neutral-600" : "text-neutral-400"}`}
+            >
+              <input
+                type="checkbox"
+                checked={isBilingual}
+                onChange={(e) => setBilingual(e.target.checked)}
+                disabled={isSubmitted || language === "en"}
+                className="accent-indigo-500"
+              />
+              Bilingual: explanations in {getSessionLanguage(language).name}, math terms in English
+            </label>
+          </div>
+
+          {/* Tutoring Mode Section */}
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Tutoring Mode</label>
+            <select
+              value={tutorMode}
+              onChange={(e) => {
+                if (isTutorModeId(e.target.value)) setTutorMode(e.target.value);
+              }}
+              className="w-full px-4 py-3 bg-neutral-800/50 rounded-xl border border-white/10 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+              disabled={isSubmitted}
+            >
+              {TUTOR_MODES.map((mode) => (
+                <option key={mode.id} value={mode.id}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-neutral-500">{getTutorMode(tutorMode).description}</p>
+          </div>
+
+          {/* Turn Taking Section */}
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">Turn Taking</label>
+            <TurnTakingSettings settings={turnDetection} onChange={updateTurnDetection} disabled={isSubmitted} />
           </div>
 
           {/* Question Section */}
           <div className="shrink-0 space-y-2">
             <label className="block text-sm font-medium text-neutral-300">Math Problem</label>
+            {/* The bank holds every answer and solution; students only pick from what their teacher assigned */}
+            <ProblemBankPicker
+              question={question}
+              answer={answer}
+              assignedOnly={user.role === "student"}
+              disabled={isSubmitted}
+              onSelect={(problem) => {
+                setQuestion(problem.question);
+                setAnswer(problem.answer);
+                setWrongAnswer("");
+                setQuestionTags(problem.tags);
+              }}
+            />
+            <ProblemCapture
+              disabled={isSubmitted}
+              onRecognized={(recognized) => {
+                setQuestion(recognized);
+                // The image only gives the question; an answer left from the previous problem would be wrong
+                setAnswer("");
+                setWrongAnswer("");
+                setQuestionTags([]);
+              }}
+            />
             <textarea
               value={question}
               onChange={(e) => setQuestion(e.target.value)}
@@ -140,6 +575,33 @@ export default function App() {
             </p>
           </div>
 
+          {/* Problem Set Section */}
+          <div className="shrink-0 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label className="block text-sm font-medium text-neutral-300">
+                Problem Set{queuedProblems.length > 0 && ` (${queuedProblems.length} queued)`}
+              </label>
+              <button
+                onClick={handleAddToSet}
+                disabled={!formProblem || isSubmitted}
+                className="h-8 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Queue this problem and clear the form for the next one"
+              >
+                <ListPlus className="w-3.5 h-3.5" />
+                Add to set
+              </button>
+            </div>
+            <ProblemSetQueue
+              problems={queuedProblems}
+              onRemove={(index) => setQueuedProblems((prev) => prev.filter((_, i) => i !== index))}
+              onMove={handleMoveQueued}
+              disabled={isSubmitted}
+            />
+            <p className="text-xs text-neutral-500">
+              Queue several problems to work through them in one session. The tutor moves on when an answer checks out.
+            </p>
+          </div>
+
           {/* Submit Button */}
           <div className="shrink-0">
             <button
@@ -152,7 +614,9 @@ export default function App() {
               }`}
             >
               <Send className="w-5 h-5" />
-              Submit & Start Session
+              {problemsToSubmit.length > 1
+                ? `Start Session (${problemsToSubmit.length} problems)`
+                : "Submit & Start Session"}
             </button>
           </div>
 
@@ -161,44 +625,27 @@ export default function App() {
             <label className="block text-sm font-medium text-neutral-300 shrink-0 mb-2">
               Conversation
             </label>
-            <div
-              ref={conversationScrollRef}
-              className="h-64 overflow-y-auto overflow-x-hidden bg-neutral-800/30 rounded-xl border border-white/10 p-4 space-y-3"
-            >
-              {conversationLog.length === 0 && !isConnected && !isConnecting && (
-                <p className="text-neutral-500 text-sm">Submit a problem to start the tutoring session.</p>
-              )}
-              {conversationLog.length === 0 && (isConnected || isConnecting) && (
-                <p className="text-neutral-500 text-sm">Waiting for the tutor to greet you...</p>
-              )}
-              {conversationLog.map((entry, i) => (
-                <div
-                  key={i}
-                  className={`flex ${entry.role === "user" ? "justify-end" : "justify-start"}`}
-                >
-                  <div
-                    className={`max-w-[85%] px-4 py-2 rounded-xl ${
-                      entry.role === "user"
-                        ? "bg-indigo-500/30 text-indigo-100"
-                        : "bg-neutral-700/50 text-neutral-200"
-                    }`}
-                  >
-                    <span className="text-xs font-mono opacity-70 block mb-1">
-                      {entry.role === "user" ? "You" : "Tutor"}
-                    </span>
-                    <p className="text-sm whitespace-pre-wrap">{entry.text}</p>
-                  </div>
-                </div>
-              ))}
+            <ConversationLog
+              entries={conversationLog}
+              live={isConnected}
+              languageTags={language !== "en"}
+              emptyMessage={
+                isConnected || isConnecting || isReconnecting
+                  ? "Waiting for the tutor to greet you..."
+                  : "Submit a problem to start the tutoring session."
+              }
+            />
+            <div className="shrink-0 mt-2">
+              <TextComposer onSend={handleSendText} disabled={!isConnected || isTutorPaused} />
             </div>
           </div>
         </div>
 
         {/* Right Panel (~40%) - Voice Agent */}
-        <div className="flex-4 min-w-0 flex flex-col gap-4">
+        <div className="flex-4 min-w-0 flex flex-col gap-4 overflow-y-auto">
           <div className="relative aspect-video bg-neutral-800/50 rounded-3xl border border-white/10 overflow-hidden shadow-2xl flex flex-col items-center justify-center flex-1 min-h-[200px]">
             <AnimatePresence mode="wait">
-              {!isConnected && !isConnecting && (
+              {!isConnected && !isConnecting && !isReconnecting && (
                 <motion.div
                   initial={{ opacity: 0, scale: 0.9 }}
                   animate={{ opacity: 1, scale: 1 }}
@@ -220,7 +667,23 @@ export default function App() {
                   className="flex flex-col items-center gap-4"
                 >
                   <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" />
-                  <p className="text-neutral-400 text-sm">Connecting to Gemini...</p>
+                  <p className="text-neutral-400 text-sm">Connecting to {providerLabel}...</p>
+                </motion.div>
+              )}
+
+              {isReconnecting && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="flex flex-col items-center gap-4 text-center px-6"
+                >
+                  <Loader2 className="w-8 h-8 text-amber-400 animate-spin" />
+                  <p className="text-neutral-400 text-sm">
+                    Connection lost. Reconnecting to {providerLabel}...
+                    <br />
+                    The tutor will pick up where you left off.
+                  </p>
                 </motion.div>
               )}
 
@@ -233,7 +696,7 @@ export default function App() {
                 >
                   <div className="w-full flex-1 flex flex-col items-center justify-center gap-2">
                     <span className="text-xs font-mono text-indigo-400 uppercase tracking-wider">
-                      Gemini (Output)
+                      {providerLabel} (Output)
                     </span>
                     <div className="w-full h-24 flex items-center justify-center">
                       {outputAnalyser && (
@@ -272,27 +735,84 @@ export default function App() {
                 <p>{error.message}</p>
               </div>
             )}
+
+            {isConnected && (isTutorPaused || isTeacherTalking) && (
+              <div className="absolute bottom-4 left-4 right-4 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 flex items-center gap-3 text-amber-300 text-sm">
+                <Headphones className="w-4 h-4 shrink-0" />
+                <p>
+                  {isTeacherTalking
+                    ? talkError
+                      ? `Your teacher wants to talk with you, but the microphone could not start: ${talkError.message}`
+                      : "Your teacher is talking with you."
+                    : "Your teacher paused the tutor."}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Problem Set Progress */}
+          {isSubmitted && sessionProblems.length > 1 && (
+            <div className="shrink-0">
+              <ProblemSetProgress
+                problems={sessionProblems}
+                completed={completedProblems}
+                onNext={handleNextProblem}
+                disabled={!isConnected}
+              />
+            </div>
+          )}
+
+          {/* Whiteboard */}
+          <div className="shrink-0">
+            <label className="block text-sm font-medium text-neutral-300 mb-2">Whiteboard</label>
+            <Whiteboard
+              items={whiteboard}
+              onSendSketch={handleSendSketch}
+              disabled={!isConnected || isTutorPaused}
+            />
           </div>
 
           {/* Controls */}
           <div className="flex items-center justify-center gap-4">
             <button
-              onClick={() => setMicEnabled(!micEnabled)}
+              onClick={toggleMute}
               className={`p-3 rounded-full transition-all duration-200 ${
-                micEnabled
-                  ? "bg-neutral-800 hover:bg-neutral-700 text-white"
-                  : "bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                isMicMuted
+                  ? "bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                  : "bg-neutral-800 hover:bg-neutral-700 text-white"
               }`}
               disabled={!isConnected}
+              title={isMicMuted ? "Unmute" : "Mute"}
             >
-              {micEnabled ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+              {isMicMuted ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
             </button>
 
+            {isPushToTalk && (
+              <button
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  startTalking();
+                }}
+                onPointerUp={stopTalking}
+                onPointerCancel={stopTalking}
+                disabled={!isConnected || isMicMuted || isTutorPaused}
+                className={`h-14 px-6 rounded-full font-medium flex items-center gap-2 transition-all duration-200 select-none touch-none ${
+                  isTalking
+                    ? "bg-emerald-500 text-white shadow-lg shadow-emerald-500/20"
+                    : "bg-neutral-800 hover:bg-neutral-700 text-white disabled:text-neutral-500 disabled:cursor-not-allowed"
+                }`}
+                title="Hold while speaking (or hold the spacebar)"
+              >
+                <Hand className="w-5 h-5" />
+                {isTalking ? "Listening..." : "Hold to talk"}
+              </button>
+            )}
+
             <button
               onClick={handleDisconnect}
-              disabled={!isConnected}
+              disabled={!isConnected && !isReconnecting}
               className={`h-14 px-6 rounded-full font-medium flex items-center gap-2 transition-all duration-200 shadow-lg ${
-                isConnected
+                isConnected || isReconnecting
                   ? "bg-red-500 hover:bg-red-600 text-white shadow-red-500/20"
                   : "bg-neutral-700 text-neutral-500 cursor-not-allowed"
               }`}
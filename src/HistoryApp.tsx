@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, History, LayoutGrid, Loader2, Search } from "lucide-react";
+import { AccountMenu } from "./components/AccountMenu";
+import { ConversationEntry, ConversationLog, entryDisplayText } from "./components/ConversationLog";
+import { MathRenderer } from "./components/MathRenderer";
+import { WhiteboardItem, WhiteboardItems } from "./components/Whiteboard";
+import type { AuthUser } from "./api/auth";
+import { StoredSession, StoredSessionWithTurns, getSession, listSessions } from "./api/sessions";
+import { detectLanguage } from "./prompts/languages";
+import { VOICE_PROVIDERS, getVoiceProviderLabel, isVoiceProviderId } from "./hooks/use-voice-tutor-session";
+
+// Debounce the problem-text search so typing does not fire a request per keystroke
+const SEARCH_DEBOUNCE_MS = 300;
+
+function providerLabel(provider: string): string {
+  return isVoiceProviderId(provider) ? getVoiceProviderLabel(provider) : provider;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function formatDuration(startedAt: string, endedAt: string | null): string {
+  if (!endedAt) return "In progress";
+  const seconds = Math.max(0, Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/** Converts a local yyyy-mm-dd date input to the ISO instant where that day starts. */
+function localDayStart(date: string, addDays = 0): string | undefined {
+  if (!date) return undefined;
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+}
+
+interface HistoryAppProps {
+  user: AuthUser;
+}
+
+export default function HistoryApp({ user }: HistoryAppProps) {
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [provider, setProvider] = useState("");
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<StoredSessionWithTurns | null>(null);
+  const [isLoadingSelected, setIsLoadingSelected] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listSessions({
+      from: localDayStart(fromDate),
+      // The "to" date is inclusive in the UI, so query up to the start of the following day
+      to: localDayStart(toDate, 1),
+      provider: provider || undefined,
+      q: debouncedSearch || undefined,
+      limit: 200,
+    })
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError : new Error(String(loadError)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, toDate, provider, debouncedSearch]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingSelected(true);
+    getSession(selectedId)
+      .then((session) => {
+        if (!cancelled) setSelected(session);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError : new Error(String(loadError)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSelected(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const selectedEntries = useMemo<ConversationEntry[]>(
+    () =>
+      selected?.turns.map((turn) => ({
+        role: turn.role,
+        text: turn.text,
+        startedAt: new Date(turn.startedAt).getTime(),
+        endedAt: turn.endedAt ? new Date(turn.endedAt).getTime() : undefined,
+      })) ?? [],
+    [selected]
+  );
+
+  // Language tags only help when the session was not all English
+  const isMultilingual = useMemo(
+    () => selectedEntries.some((entry) => (detectLanguage(entryDisplayText(entry)) ?? "en") !== "en"),
+    [selectedEntries]
+  );
+
+  const selectedWhiteboard = useMemo<WhiteboardItem[]>(
+    () =>
+      selected?.whiteboard.map((item) => ({
+        kind: item.kind,
+        content: item.content,
+        createdAt: new Date(item.createdAt).getTime(),
+      })) ?? [],
+    [selected]
+  );
+
+  const inputClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-xl border border-white/10 text-white text-sm placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+  return (
+    <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans selection:bg-indigo-500/30">
+      <div className="flex-1 flex min-h-0 p-4 gap-4">
+        {/* Left Panel - filters and session list */}
+        <div className="flex-4 min-w-0 flex flex-col gap-4 overflow-hidden">
+          <div className="shrink-0 flex items-center justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-2">
+                <History className="w-5 h-5 text-indigo-400" />
+                Session History
+              </h1>
+              <p className="text-neutral-400 text-sm">Review past tutoring sessions</p>
+              <AccountMenu user={user} />
+            </div>
+            <a
+              href="/teacher"
+              className="h-10 px-4 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm font-medium flex items-center gap-2"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              Dashboard
+            </a>
+          </div>
+
+          <div className="shrink-0 grid grid-cols-2 gap-2">
+            <label className="text-xs text-neutral-400 space-y-1">
+              <span>From</span>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-xs text-neutral-400 space-y-1">
+              <span>To</span>
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-xs text-neutral-400 space-y-1">
+              <span>Provider</span>
+              <select value={provider} onChange={(e) => setProvider(e.target.value)} className={inputClassName}>
+                <option value="">All providers</option>
+                {VOICE_PROVIDERS.map((info) => (
+                  <option key={info.id} value={info.id}>
+                    {info.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-neutral-400 space-y-1">
+              <span>Problem text</span>
+              <div className="relative">
+                <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="e.g. x^2"
+                  className={`${inputClassName} pl-9`}
+                />
+              </div>
+            </label>
+          </div>
+
+          {error && (
+            <div className="shrink-0 bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <p>{error.message}</p>
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-neutral-400 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading sessions...
+              </div>
+            )}
+            {!isLoading && sessions.length === 0 && (
+              <p className="text-neutral-500 text-sm">No sessions match these filters.</p>
+            )}
+            {sessions.map((session) => (
+              <button
+                key={session.id}
+                onClick={() => setSelectedId(session.id)}
+                className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${
+                  session.id === selectedId
+                    ? "bg-indigo-500/20 border-indigo-500/40"
+                    : "bg-neutral-800/40 border-white/10 hover:bg-neutral-800/70"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-neutral-400">
+                  <span>{formatDateTime(session.startedAt)}</span>
+                  <span className="font-mono">{providerLabel(session.provider)}</span>
+                </div>
+                <p className="text-sm text-neutral-200 truncate mt-1">{session.problem}</p>
+                <p className="text-xs text-neutral-500 mt-1">
+                  {session.turnCount ?? 0} turns · {formatDuration(session.startedAt, session.endedAt)}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Right Panel - selected session replay */}
+        <div className="flex-6 min-w-0 flex flex-col gap-4 overflow-hidden">
+          {!selectedId && (
+            <div className="flex-1 flex items-center justify-center text-neutral-500 text-sm">
+              Select a session to review its transcript.
+            </div>
+          )}
+          {selectedId && isLoadingSelected && (
+            <div className="flex-1 flex items-center justify-center gap-2 text-neutral-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading transcript...
+            </div>
+          )}
+          {selected && !isLoadingSelected && (
+            <>
+              <div className="shrink-0 space-y-2">
+                <label className="block text-sm font-medium text-neutral-300">Math Problem</label>
+                <div className="px-4 py-3 bg-neutral-800/30 rounded-xl border border-white/10">
+                  <MathRenderer content={selected.problem} />
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs text-neutral-400">
+                  <p>
+                    Correct answer: <span className="text-neutral-200">{selected.correctAnswer}</span>
+                  </p>
+                  <p>
+                    Student attempt: <span className="text-neutral-200">{selected.wrongAttempt || "None"}</span>
+                  </p>
+                  <p>
+                    Provider:{" "}
+                    <span className="text-neutral-200">
+                      {providerLabel(selected.provider)}
+                      {selected.model ? ` (${selected.model})` : ""}
+                    </span>
+                  </p>
+                  <p>
+                    {formatDateTime(selected.startedAt)} ·{" "}
+                    <span className="text-neutral-200">{formatDuration(selected.startedAt, selected.endedAt)}</span>
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex-1 flex flex-col min-h-0">
+                <label className="block text-sm font-medium text-neutral-300 shrink-0 mb-2">Conversation</label>
+                <ConversationLog
+                  entries={selectedEntries}
+                  emptyMessage="No transcript was recorded for this session."
+                  languageTags={isMultilingual}
+                  className="flex-1 min-h-0"
+                />
+              </div>
+
+              {selectedWhiteboard.length > 0 && (
+                <div className="shrink-0">
+                  <label className="block text-sm font-medium text-neutral-300 mb-2">Whiteboard</label>
+                  <WhiteboardItems items={selectedWhiteboard} className="max-h-80" />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
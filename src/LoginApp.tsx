@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FormEvent, useEffect, useState } from "react";
+import { KeyRound, Loader2, LogIn } from "lucide-react";
+import { AuthConfig, getAuthConfig, getCurrentUser, homePath, login, oidcStartUrl } from "./api/auth";
+
+/** Only same-site paths are followed after sign-in; `/\evil.com` counts as `//evil.com`, as browsers read it. */
+function readNextPath(params: URLSearchParams): string | null {
+  const next = params.get("next");
+  if (!next || !next.startsWith("/") || next.includes("\\")) return null;
+  const url = new URL(next, window.location.origin);
+  if (url.origin !== window.location.origin || url.pathname.startsWith("//")) return null;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export default function LoginApp() {
+  const params = new URLSearchParams(window.location.search);
+  const nextPath = readNextPath(params);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [config, setConfig] = useState<AuthConfig | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(params.get("error"));
+
+  useEffect(() => {
+    let cancelled = false;
+    // Already signed in: straight on to where the user was going
+    getCurrentUser()
+      .then((user) => {
+        if (!cancelled && user) window.location.assign(nextPath ?? homePath(user.role));
+      })
+      .catch(() => {});
+    getAuthConfig()
+      .then((result) => {
+        if (!cancelled) setConfig(result);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [nextPath]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = await login(username.trim(), password);
+      window.location.assign(nextPath ?? homePath(user.role));
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : String(loginError));
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-4 py-3 bg-neutral-800/50 rounded-xl border border-white/10 text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+  return (
+    <div className="min-h-screen bg-neutral-900 text-white flex items-center justify-center font-sans selection:bg-indigo-500/30 p-4">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-semibold tracking-tight">Math Tutor</h1>
+          <p className="text-neutral-400 text-sm">Sign in to continue</p>
+        </div>
+
+        <form onSubmit={(event) => void handleSubmit(event)} className="space-y-3">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            autoFocus
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !username.trim() || !password}
+            className="w-full py-3 rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+            Sign in
+          </button>
+        </form>
+
+        {config?.oidc && (
+          <a
+            href={oidcStartUrl(nextPath ?? "/")}
+            className="w-full py-3 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm font-medium flex items-center justify-center gap-2"
+          >
+            <KeyRound className="w-4 h-4" />
+            {config.oidc.label}
+          </a>
+        )}
+
+        {error && (
+          <p className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-red-400 text-sm">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
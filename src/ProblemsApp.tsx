@@ -0,0 +1,388 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  CheckCircle2,
+  Download,
+  LayoutGrid,
+  Library,
+  Loader2,
+  Pencil,
+  Plus,
+  Save,
+  Search,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { AccountMenu } from "./components/AccountMenu";
+import { MathRenderer } from "./components/MathRenderer";
+import type { AuthUser } from "./api/auth";
+import {
+  BankProblem,
+  ProblemDifficulty,
+  createProblem,
+  deleteProblem,
+  importProblems,
+  listAssignedProblems,
+  listProblems,
+  problemExportUrl,
+  setProblemAssigned,
+  updateProblem,
+} from "./api/problems";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const DIFFICULTIES: ProblemDifficulty[] = ["easy", "medium", "hard"];
+
+interface ProblemForm {
+  question: string;
+  answer: string;
+  solution: string;
+  /** Comma separated, as typed. */
+  tags: string;
+  difficulty: ProblemDifficulty | "";
+}
+
+const EMPTY_FORM: ProblemForm = { question: "", answer: "", solution: "", tags: "", difficulty: "" };
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface ProblemsAppProps {
+  user: AuthUser;
+}
+
+export default function ProblemsApp({ user }: ProblemsAppProps) {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [problems, setProblems] = useState<BankProblem[]>([]);
+  const [assignedIds, setAssignedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  // The problem being edited, or null while the form adds a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProblemForm>(EMPTY_FORM);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Assignments go to the teacher's own class; admins have none
+  const canAssign = user.classId !== null;
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([listProblems({ q: debouncedSearch || undefined, limit: 200 }), listAssignedProblems()])
+      .then(([loaded, assigned]) => {
+        if (cancelled) return;
+        setProblems(loaded);
+        setAssignedIds(new Set(assigned.map((problem) => problem.id)));
+      })
+      .catch((loadError) => {
+        if (!cancelled) setStatus(errorMessage(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearch, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const resetForm = useCallback(() => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    const input = {
+      question: form.question.trim(),
+      answer: form.answer.trim(),
+      solution: form.solution.trim() || null,
+      tags: form.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      difficulty: form.difficulty || null,
+    };
+    try {
+      if (editingId) await updateProblem(editingId, input);
+      else await createProblem(input);
+      setStatus(editingId ? "Problem updated." : "Problem added to the bank.");
+      resetForm();
+      reload();
+    } catch (saveError) {
+      setStatus(errorMessage(saveError));
+    }
+  }, [form, editingId, resetForm, reload]);
+
+  const handleEdit = useCallback((problem: BankProblem) => {
+    setEditingId(problem.id);
+    setForm({
+      question: problem.question,
+      answer: problem.answer,
+      solution: problem.solution ?? "",
+      tags: problem.tags.join(", "),
+      difficulty: problem.difficulty ?? "",
+    });
+  }, []);
+
+  const handleDelete = useCallback(
+    async (problem: BankProblem) => {
+      if (!window.confirm("Delete this problem from the bank? It is also taken back from the class.")) return;
+      try {
+        await deleteProblem(problem.id);
+        if (editingId === problem.id) resetForm();
+        setStatus(null);
+        reload();
+      } catch (deleteError) {
+        setStatus(errorMessage(deleteError));
+      }
+    },
+    [editingId, resetForm, reload]
+  );
+
+  const handleToggleAssigned = useCallback(
+    async (problem: BankProblem) => {
+      const assign = !assignedIds.has(problem.id);
+      try {
+        await setProblemAssigned(problem.id, assign);
+        setAssignedIds((prev) => {
+          const next = new Set(prev);
+          if (assign) next.add(problem.id);
+          else next.delete(problem.id);
+          return next;
+        });
+      } catch (assignError) {
+        setStatus(errorMessage(assignError));
+      }
+    },
+    [assignedIds]
+  );
+
+  const handleImport = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+      try {
+        const imported = await importProblems(file);
+        setStatus(`Imported ${imported} problem${imported === 1 ? "" : "s"}.`);
+        reload();
+      } catch (importError) {
+        setStatus(errorMessage(importError));
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    },
+    [reload]
+  );
+
+  const canSave = form.question.trim() !== "" && form.answer.trim() !== "";
+
+  const fieldClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+  const buttonClassName =
+    "h-9 px-3 shrink-0 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans selection:bg-indigo-500/30">
+      <div className="flex-1 flex min-h-0 p-4 gap-4">
+        {/* Left Panel - add or edit a problem, import and export */}
+        <div className="flex-4 min-w-0 flex flex-col gap-4 overflow-y-auto">
+          <div className="shrink-0 flex items-center justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-2">
+                <Library className="w-5 h-5 text-indigo-400" />
+                Problem Bank
+              </h1>
+              <p className="text-neutral-400 text-sm">Problems, and the ones your class works on</p>
+              <AccountMenu user={user} />
+            </div>
+            <a
+              href="/teacher"
+              className="h-10 px-4 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm font-medium flex items-center gap-2"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              Dashboard
+            </a>
+          </div>
+
+          <div className="shrink-0 space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">
+              {editingId ? "Edit problem" : "New problem"}
+            </label>
+            <textarea
+              value={form.question}
+              onChange={(e) => setForm({ ...form, question: e.target.value })}
+              placeholder="Question, e.g. Solve for x: $x^2 - 4 = 0$"
+              className={`${fieldClassName} h-20 resize-none`}
+            />
+            {form.question.trim() && (
+              <div className="px-3 py-2 bg-neutral-800/30 rounded-lg border border-white/5">
+                <MathRenderer content={form.question} />
+              </div>
+            )}
+            <input
+              type="text"
+              value={form.answer}
+              onChange={(e) => setForm({ ...form, answer: e.target.value })}
+              placeholder="Answer, e.g. x = 2 or x = -2"
+              className={fieldClassName}
+            />
+            <textarea
+              value={form.solution}
+              onChange={(e) => setForm({ ...form, solution: e.target.value })}
+              placeholder="Worked solution (optional; never shown to students)"
+              className={`${fieldClassName} h-16 resize-none`}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={form.tags}
+                onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                placeholder="Skill tags, e.g. factoring, quadratics"
+                className={fieldClassName}
+              />
+              <select
+                value={form.difficulty}
+                onChange={(e) => setForm({ ...form, difficulty: e.target.value as ProblemForm["difficulty"] })}
+                className={fieldClassName}
+              >
+                <option value="">No difficulty</option>
+                {DIFFICULTIES.map((difficulty) => (
+                  <option key={difficulty} value={difficulty}>
+                    {difficulty}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => void handleSave()} disabled={!canSave} className={buttonClassName}>
+                {editingId ? <Save className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                {editingId ? "Save changes" : "Add to bank"}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className={buttonClassName}>
+                  <X className="w-3.5 h-3.5" />
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="shrink-0 flex flex-wrap items-center gap-2 pt-2 border-t border-white/5">
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON/CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => void handleImport(e.target.files?.[0])}
+            />
+            <a href={problemExportUrl("json")} className={buttonClassName}>
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </a>
+            <a href={problemExportUrl("csv")} className={buttonClassName}>
+              <Download className="w-3.5 h-3.5" />
+              Export CSV
+            </a>
+          </div>
+
+          {!canAssign && (
+            <p className="text-xs text-neutral-500">Sign in as a teacher with a class to assign problems.</p>
+          )}
+          {status && <p className="text-xs text-neutral-400">{status}</p>}
+        </div>
+
+        {/* Right Panel - the bank */}
+        <div className="flex-6 min-w-0 flex flex-col gap-2 overflow-hidden">
+          <div className="shrink-0 relative">
+            <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search problems"
+              className={`${fieldClassName} pl-9`}
+            />
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-neutral-400 text-xs">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Loading...
+              </div>
+            )}
+            {!isLoading && problems.length === 0 && <p className="text-neutral-500 text-sm">No problems found.</p>}
+            {problems.map((problem) => {
+              const assigned = assignedIds.has(problem.id);
+              return (
+                <div
+                  key={problem.id}
+                  className={`px-4 py-3 rounded-xl border ${
+                    problem.id === editingId
+                      ? "bg-indigo-500/10 border-indigo-500/40"
+                      : "bg-neutral-800/40 border-white/10"
+                  }`}
+                >
+                  <MathRenderer content={problem.question} displayMode={false} className="text-sm" />
+                  <p className="text-xs text-neutral-400 mt-1">
+                    Answer: <span className="text-neutral-200">{problem.answer}</span>
+                  </p>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+                    <div className="flex flex-wrap gap-1">
+                      {problem.difficulty && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-200">
+                          {problem.difficulty}
+                        </span>
+                      )}
+                      {problem.tags.map((tag) => (
+                        <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-neutral-700 text-neutral-300">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => void handleToggleAssigned(problem)}
+                        disabled={!canAssign}
+                        className={`${buttonClassName} ${
+                          assigned ? "bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30" : ""
+                        }`}
+                        title={assigned ? "Take back from the class" : "Let the class pick this problem"}
+                      >
+                        <CheckCircle2 className="w-3.5 h-3.5" />
+                        {assigned ? "Assigned" : "Assign to class"}
+                      </button>
+                      <button onClick={() => handleEdit(problem)} className={buttonClassName}>
+                        <Pencil className="w-3.5 h-3.5" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => void handleDelete(problem)}
+                        className={`${buttonClassName} hover:bg-red-500/20 hover:text-red-300`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
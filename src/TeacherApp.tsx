@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, History, LayoutGrid, Library } from "lucide-react";
+import { AccountMenu } from "./components/AccountMenu";
+import { ConversationEntry, ConversationLog } from "./components/ConversationLog";
+import { MathRenderer } from "./components/MathRenderer";
+import { TeacherControls } from "./components/TeacherControls";
+import type { AuthUser } from "./api/auth";
+import { CLASSROOM_EVENTS_URL, ClassroomEvent, LiveSession, LiveTurn } from "./api/classroom";
+import { getVoiceProviderLabel, isVoiceProviderId } from "./hooks/use-voice-tutor-session";
+
+// Matches the rolling transcript the server keeps per student
+const MAX_TRANSCRIPT_TURNS = 60;
+
+interface TileStatus {
+  label: string;
+  className: string;
+}
+
+function providerLabel(provider: string): string {
+  return isVoiceProviderId(provider) ? getVoiceProviderLabel(provider) : provider;
+}
+
+function formatElapsed(since: string | null, now: number): string {
+  if (!since) return "";
+  const seconds = Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function problemLabel(problem: NonNullable<LiveSession["problem"]>): string {
+  return problem.total > 1 ? `Problem ${problem.index + 1} of ${problem.total}` : "Problem";
+}
+
+/** The one thing a tile says about a student, most urgent first. */
+function tileStatus(session: LiveSession): TileStatus {
+  if (!session.online || session.connection === "idle") {
+    const label = session.connection === "idle" ? "Ended" : "Offline";
+    return { label, className: "bg-neutral-700 text-neutral-300" };
+  }
+  if (session.teacherTalking) return { label: "Teacher talking", className: "bg-amber-500/20 text-amber-300" };
+  if (session.tutorPaused) return { label: "Tutor paused", className: "bg-amber-500/20 text-amber-300" };
+  if (session.stuck) return { label: "Stuck", className: "bg-red-500/20 text-red-300" };
+  if (session.solved) return { label: "Solved", className: "bg-emerald-500/20 text-emerald-300" };
+  if (session.speaking === "user") return { label: "Student speaking", className: "bg-indigo-500/20 text-indigo-200" };
+  if (session.speaking === "agent") return { label: "Tutor speaking", className: "bg-sky-500/20 text-sky-200" };
+  if (session.connection === "connecting" || session.connection === "reconnecting") {
+    const label = session.connection === "connecting" ? "Connecting" : "Reconnecting";
+    return { label, className: "bg-yellow-500/20 text-yellow-300" };
+  }
+  return { label: "Connected", className: "bg-neutral-700 text-neutral-200" };
+}
+
+/** Adds a turn from the stream; a turn with the latest seq replaces it, as its text grew. */
+function mergeTurn(turns: LiveTurn[], turn: LiveTurn): LiveTurn[] {
+  const last = turns[turns.length - 1];
+  if (last && last.seq === turn.seq) return [...turns.slice(0, -1), turn];
+  return [...turns, turn].slice(-MAX_TRANSCRIPT_TURNS);
+}
+
+interface TeacherAppProps {
+  user: AuthUser;
+}
+
+export default function TeacherApp({ user }: TeacherAppProps) {
+  const [sessions, setSessions] = useState<Record<string, LiveSession>>({});
+  const [transcripts, setTranscripts] = useState<Record<string, LiveTurn[]>>({});
+  const [isStreamDown, setIsStreamDown] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Time on the current problem keeps growing between events
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    // EventSource reconnects by itself, and every new stream starts with a full snapshot
+    const source = new EventSource(CLASSROOM_EVENTS_URL);
+    const handle = (raw: MessageEvent<string>) => {
+      let event: ClassroomEvent;
+      try {
+        event = JSON.parse(raw.data);
+      } catch {
+        return;
+      }
+      switch (event.type) {
+        case "snapshot":
+          setSessions(
+            Object.fromEntries(event.sessions.map(({ transcript: _transcript, ...session }) => [session.id, session]))
+          );
+          setTranscripts(Object.fromEntries(event.sessions.map((session) => [session.id, session.transcript])));
+          break;
+        case "session":
+          setSessions((prev) => ({ ...prev, [event.session.id]: event.session }));
+          break;
+        case "transcript":
+          setTranscripts((prev) => ({
+            ...prev,
+            [event.sessionId]: mergeTurn(prev[event.sessionId] ?? [], event.turn),
+          }));
+          break;
+        case "removed":
+          setSessions(({ [event.sessionId]: _removed, ...rest }) => rest);
+          setTranscripts(({ [event.sessionId]: _removed, ...rest }) => rest);
+          break;
+      }
+    };
+    for (const type of ["snapshot", "session", "transcript", "removed"]) {
+      source.addEventListener(type, handle as EventListener);
+    }
+    source.onopen = () => setIsStreamDown(false);
+    source.onerror = () => setIsStreamDown(true);
+    return () => source.close();
+  }, []);
+
+  // Stuck students first, then everyone else by name
+  const tiles = useMemo(
+    () =>
+      Object.values(sessions).sort(
+        (a: LiveSession, b: LiveSession) =>
+          Number(b.stuck !== null && b.online) - Number(a.stuck !== null && a.online) ||
+          a.studentName.localeCompare(b.studentName) ||
+          a.startedAt.localeCompare(b.startedAt)
+      ),
+    [sessions]
+  );
+
+  const selected = selectedId ? sessions[selectedId] ?? null : null;
+  const selectedEntries = useMemo<ConversationEntry[]>(
+    () => (selectedId ? transcripts[selectedId] ?? [] : []).map((turn) => ({ role: turn.role, text: turn.text })),
+    [selectedId, transcripts]
+  );
+
+  return (
+    <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans selection:bg-indigo-500/30">
+      <div className="flex-1 flex min-h-0 p-4 gap-4">
+        {/* Left Panel - live grid of students */}
+        <div className="flex-6 min-w-0 flex flex-col gap-4 overflow-hidden">
+          <div className="shrink-0 flex items-center justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-2">
+                <LayoutGrid className="w-5 h-5 text-indigo-400" />
+                Teacher Dashboard
+              </h1>
+              <p className="text-neutral-400 text-sm">Live tutoring sessions in your class</p>
+              <AccountMenu user={user} />
+            </div>
+            <div className="flex items-center gap-2">
+              <a
+                href="/problems"
+                className="h-10 px-4 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm font-medium flex items-center gap-2"
+              >
+                <Library className="w-4 h-4" />
+                Problem bank
+              </a>
+              <a
+                href="/history"
+                className="h-10 px-4 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm font-medium flex items-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                Session history
+              </a>
+            </div>
+          </div>
+
+          {isStreamDown && (
+            <div className="shrink-0 bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <p>Lost the live connection to the server. Retrying...</p>
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-y-auto pr-1">
+            {tiles.length === 0 && <p className="text-neutral-500 text-sm">No students are in a session right now.</p>}
+            <div className="grid grid-cols-2 xl:grid-cols-3 gap-3">
+              {tiles.map((session) => {
+                const status = tileStatus(session);
+                const lastTurn = transcripts[session.id]?.at(-1);
+                return (
+                  <button
+                    key={session.id}
+                    onClick={() => setSelectedId(session.id)}
+                    className={`text-left px-4 py-3 rounded-xl border transition-all ${
+                      session.id === selectedId
+                        ? "bg-indigo-500/20 border-indigo-500/40"
+                        : session.stuck && session.online
+                          ? "bg-red-500/5 border-red-500/30 hover:bg-red-500/10"
+                          : "bg-neutral-800/40 border-white/10 hover:bg-neutral-800/70"
+                    } ${session.online ? "" : "opacity-60"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-neutral-100 truncate">{session.studentName}</span>
+                      <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <p className="text-xs text-neutral-400 mt-1">
+                      {session.problem
+                        ? `${problemLabel(session.problem)} · ${formatElapsed(session.problemStartedAt, now)}`
+                        : "No problem yet"}
+                    </p>
+                    {session.stuck && session.online && <p className="text-xs text-red-300 mt-1">{session.stuck}</p>}
+                    <p className="text-xs text-neutral-500 mt-1 truncate">
+                      {lastTurn
+                        ? `${lastTurn.role === "user" ? "Student" : "Tutor"}: ${lastTurn.text}`
+                        : "Nothing said yet"}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Right Panel - selected student's problem and transcript */}
+        <div className="flex-4 min-w-0 flex flex-col gap-4 overflow-hidden">
+          {!selected && (
+            <div className="flex-1 flex items-center justify-center text-neutral-500 text-sm">
+              Select a student to follow their session.
+            </div>
+          )}
+          {selected && (
+            <>
+              <div className="shrink-0 space-y-2">
+                <label className="block text-sm font-medium text-neutral-300">
+                  {selected.studentName}
+                  {selected.problem && selected.problem.total > 1 ? ` · ${problemLabel(selected.problem)}` : ""}
+                </label>
+                <div className="px-4 py-3 bg-neutral-800/30 rounded-xl border border-white/10">
+                  {selected.problem ? (
+                    <MathRenderer content={selected.problem.question} />
+                  ) : (
+                    <p className="text-neutral-500 text-sm">The student has not started a problem yet.</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs text-neutral-400">
+                  <p>
+                    Status: <span className="text-neutral-200">{tileStatus(selected).label}</span>
+                  </p>
+                  <p>
+                    Provider: <span className="text-neutral-200">{providerLabel(selected.provider) || "Unknown"}</span>
+                  </p>
+                  <p>
+                    Wrong answers: <span className="text-neutral-200">{selected.wrongAnswers}</span>
+                  </p>
+                  <p>
+                    Tutor replies: <span className="text-neutral-200">{selected.tutorReplies}</span>
+                  </p>
+                  {selected.stuck && (
+                    <p className="col-span-2 text-red-300">Looks stuck: {selected.stuck}</p>
+                  )}
+                </div>
+                {/* Keyed so a note being typed, or a live microphone, never carries over to another student */}
+                <div key={selected.id}>
+                  <TeacherControls session={selected} />
+                </div>
+              </div>
+
+              <div className="flex-1 flex flex-col min-h-0">
+                <label className="block text-sm font-medium text-neutral-300 shrink-0 mb-2">Conversation</label>
+                <ConversationLog
+                  entries={selectedEntries}
+                  emptyMessage="Nothing has been said yet."
+                  live={selected.online && selected.connection === "connected"}
+                  userLabel="Student"
+                  className="flex-1 min-h-0"
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
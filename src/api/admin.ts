@@ -0,0 +1,63 @@
+import type { AuthUser, Role } from "./auth";
+import { requestJson } from "./http";
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface ManagedUser extends AuthUser {
+  hasPassword: boolean;
+  /** Signed in through single sign-on at least once. */
+  oidcLinked: boolean;
+}
+
+export interface UserInput {
+  username: string;
+  displayName: string;
+  role: Role;
+  classId?: string;
+  /** Leave out for accounts that only sign in through single sign-on. */
+  password?: string;
+  /** An existing student profile to sign in as, instead of a new one. */
+  studentId?: string;
+}
+
+export async function listClasses(): Promise<SchoolClass[]> {
+  const { classes } = await requestJson<{ classes: SchoolClass[] }>("/api/admin/classes");
+  return classes;
+}
+
+export async function createClass(name: string): Promise<SchoolClass> {
+  const { class: created } = await requestJson<{ class: SchoolClass }>("/api/admin/classes", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return created;
+}
+
+export async function listUsers(): Promise<ManagedUser[]> {
+  const { users } = await requestJson<{ users: ManagedUser[] }>("/api/admin/users");
+  return users;
+}
+
+export async function createUser(input: UserInput): Promise<ManagedUser> {
+  const { user } = await requestJson<{ user: ManagedUser }>("/api/admin/users", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return user;
+}
+
+export async function setUserPassword(userId: string, password: string): Promise<ManagedUser> {
+  const { user } = await requestJson<{ user: ManagedUser }>(`/api/admin/users/${encodeURIComponent(userId)}/password`, {
+    method: "POST",
+    body: JSON.stringify({ password }),
+  });
+  return user;
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+  await requestJson<void>(`/api/admin/users/${encodeURIComponent(userId)}`, { method: "DELETE" });
+}
@@ -0,0 +1,64 @@
+import { requestJson } from "./http";
+
+export type Role = "student" | "teacher" | "admin";
+
+/** The signed-in user. */
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  classId: string | null;
+  /** The student profile a student signs in as; null for teachers and admins. */
+  studentId: string | null;
+}
+
+export interface AuthConfig {
+  /** Single sign-on, when the server has it configured. */
+  oidc: { label: string } | null;
+}
+
+export const LOGIN_PATH = "/login";
+
+/** Where each role lands after signing in. */
+export function homePath(role: Role): string {
+  return role === "admin" ? "/admin" : role === "teacher" ? "/teacher" : "/";
+}
+
+/** The sign-in page, coming back to `next` afterwards. */
+export function loginUrl(next: string = window.location.pathname + window.location.search): string {
+  return `${LOGIN_PATH}?next=${encodeURIComponent(next)}`;
+}
+
+export function oidcStartUrl(next: string): string {
+  return `/api/auth/oidc/start?next=${encodeURIComponent(next)}`;
+}
+
+/** The signed-in user, or null when there is no valid session. */
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const resp = await fetch("/api/auth/me");
+  if (resp.status === 401) return null;
+  if (!resp.ok) throw new Error(`Request to /api/auth/me failed (${resp.status}): ${await resp.text()}`);
+  const { user } = (await resp.json()) as { user: AuthUser };
+  return user;
+}
+
+export async function getAuthConfig(): Promise<AuthConfig> {
+  return requestJson<AuthConfig>("/api/auth/config");
+}
+
+/** Signs in with a username and password; the error carries the server's message as is. */
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const resp = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error ?? `Sign-in failed (${resp.status}).`);
+  return (body as { user: AuthUser }).user;
+}
+
+export async function logout(): Promise<void> {
+  await requestJson<void>("/api/auth/logout", { method: "POST" });
+}
@@ -0,0 +1,96 @@
+import type { ConversationRole, VoiceSessionState } from "../hooks/voice-session";
+import { requestJson } from "./http";
+
+/** Socket the tutor page reports its live session on, for the teacher dashboard. */
+export const CLASSROOM_SOCKET_PATH = "/api/classroom/live";
+/** Socket the dashboard opens while the teacher talks to one student directly. */
+export const TEACHER_TALK_SOCKET_PATH = "/api/classroom/talk";
+/** Server-sent events feeding the teacher dashboard. */
+export const CLASSROOM_EVENTS_URL = "/api/classroom/events";
+
+/** One student's running tutoring session, as the teacher dashboard sees it. */
+export interface LiveSession {
+  id: string;
+  studentName: string;
+  studentId: string | null;
+  provider: string;
+  /** The voice session's state; "idle" once the student has ended the call. */
+  connection: VoiceSessionState;
+  /** False once the student's page has gone away; the tile is kept for a while after. */
+  online: boolean;
+  speaking: ConversationRole | null;
+  problem: { question: string; index: number; total: number } | null;
+  problemStartedAt: string | null;
+  /** Counted for the current problem only. */
+  wrongAnswers: number;
+  tutorReplies: number;
+  solved: boolean;
+  /** Why the student looks stuck on the current problem, or null. */
+  stuck: string | null;
+  /** The teacher paused the AI tutor. */
+  tutorPaused: boolean;
+  /** The teacher's microphone is live to the student. */
+  teacherTalking: boolean;
+  /** Private notes the teacher sent into the session, oldest first. */
+  teacherNotes: string[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface LiveTurn {
+  seq: number;
+  role: ConversationRole;
+  text: string;
+}
+
+export type ClassroomEvent =
+  | { type: "snapshot"; sessions: (LiveSession & { transcript: LiveTurn[] })[] }
+  | { type: "session"; session: LiveSession }
+  | { type: "transcript"; sessionId: string; turn: LiveTurn }
+  | { type: "removed"; sessionId: string };
+
+/** What the tutor page reports after its `hello`. */
+export type ClassroomReport =
+  | { type: "state"; state: VoiceSessionState }
+  | { type: "turn"; role: ConversationRole; active: boolean }
+  | { type: "transcript"; role: ConversationRole; text: string }
+  | { type: "problem"; question: string; index: number; total: number }
+  | { type: "answer"; correct: boolean | null }
+  | { type: "end" };
+
+/** What the server sends the tutor page on the teacher's behalf. */
+export type ClassroomCommand =
+  | { type: "whisper"; text: string }
+  | { type: "pause"; paused: boolean }
+  | { type: "talk"; active: boolean }
+  | { type: "teacher-audio"; data: string };
+
+function socketUrl(path: string): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${path}`;
+}
+
+export function classroomSocketUrl(): string {
+  return socketUrl(CLASSROOM_SOCKET_PATH);
+}
+
+export function teacherTalkSocketUrl(sessionId: string): string {
+  return socketUrl(`${TEACHER_TALK_SOCKET_PATH}?sessionId=${encodeURIComponent(sessionId)}`);
+}
+
+/** Sends a private note to a student's tutor; the student does not see it. */
+export async function whisperToSession(sessionId: string, text: string): Promise<LiveSession> {
+  const { session } = await requestJson<{ session: LiveSession }>(
+    `/api/classroom/sessions/${encodeURIComponent(sessionId)}/whisper`,
+    { method: "POST", body: JSON.stringify({ text }) }
+  );
+  return session;
+}
+
+export async function setSessionTutorPaused(sessionId: string, paused: boolean): Promise<LiveSession> {
+  const { session } = await requestJson<{ session: LiveSession }>(
+    `/api/classroom/sessions/${encodeURIComponent(sessionId)}/pause`,
+    { method: "POST", body: JSON.stringify({ paused }) }
+  );
+  return session;
+}
@@ -0,0 +1,12 @@
+export async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!resp.ok) {
+    const errorText = await resp.text();
+    throw new Error(`Request to ${url} failed (${resp.status}): ${errorText}`);
+  }
+  if (resp.status === 204) return undefined as T;
+  return (await resp.json()) as T;
+}
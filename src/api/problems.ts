@@ -0,0 +1,99 @@
+import { requestJson } from "./http";
+
+export type ProblemDifficulty = "easy" | "medium" | "hard";
+
+export interface BankProblem {
+  id: string;
+  question: string;
+  answer: string;
+  solution: string | null;
+  tags: string[];
+  difficulty: ProblemDifficulty | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A problem a teacher assigned to the class; students get no worked solution. */
+export interface AssignedProblem extends Pick<BankProblem, "id" | "question" | "answer" | "tags" | "difficulty"> {
+  assignedAt: string;
+}
+
+export interface ProblemInput {
+  question: string;
+  answer: string;
+  solution?: string | null;
+  tags?: string[];
+  difficulty?: ProblemDifficulty | null;
+}
+
+export interface ProblemListFilters {
+  q?: string;
+  tag?: string;
+  difficulty?: ProblemDifficulty;
+  limit?: number;
+}
+
+export async function listProblems(filters: ProblemListFilters = {}): Promise<BankProblem[]> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const { problems } = await requestJson<{ problems: BankProblem[] }>(`/api/problems?${query}`);
+  return problems;
+}
+
+export async function createProblem(input: ProblemInput): Promise<BankProblem> {
+  const { problem } = await requestJson<{ problem: BankProblem }>("/api/problems", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return problem;
+}
+
+export async function updateProblem(id: string, input: ProblemInput): Promise<BankProblem> {
+  const { problem } = await requestJson<{ problem: BankProblem }>(`/api/problems/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify(input),
+  });
+  return problem;
+}
+
+export async function deleteProblem(id: string): Promise<void> {
+  await requestJson(`/api/problems/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export async function listAssignedProblems(): Promise<AssignedProblem[]> {
+  const { problems } = await requestJson<{ problems: AssignedProblem[] }>("/api/problems/assigned");
+  return problems;
+}
+
+/** Assigns a problem to the signed-in teacher's class, or takes it back. */
+export async function setProblemAssigned(id: string, assigned: boolean): Promise<void> {
+  await requestJson(`/api/problems/${encodeURIComponent(id)}/assignment`, { method: assigned ? "PUT" : "DELETE" });
+}
+
+/** Imports a JSON array or CSV export; the file type decides which. Returns the number imported. */
+export async function importProblems(file: File): Promise<number> {
+  const text = await file.text();
+  const isCsv = file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv";
+  const { imported } = await requestJson<{ imported: number }>("/api/problems/import", {
+    method: "POST",
+    headers: { "Content-Type": isCsv ? "text/csv" : "application/json" },
+    body: text,
+  });
+  return imported;
+}
+
+/** Sends a photo or screenshot of a problem to the server and returns it transcribed as $...$ LaTeX. */
+export async function recognizeProblem(image: Blob): Promise<string> {
+  const { question } = await requestJson<{ question: string }>("/api/recognize-problem", {
+    method: "POST",
+    headers: { "Content-Type": image.type || "image/jpeg" },
+    body: image,
+  });
+  return question;
+}
+
+export function problemExportUrl(format: "json" | "csv"): string {
+  return `/api/problems/export?format=${format}`;
+}
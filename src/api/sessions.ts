@@ -0,0 +1,124 @@
+import type { ConversationRole } from "../hooks/voice-session";
+import type { WhiteboardItemKind } from "../components/Whiteboard";
+import { requestJson } from "./http";
+
+export interface StoredTurn {
+  seq: number;
+  role: ConversationRole;
+  text: string;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface StoredSession {
+  id: string;
+  problem: string;
+  correctAnswer: string;
+  wrongAttempt: string | null;
+  provider: string;
+  model: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  studentId: string | null;
+  turnCount?: number;
+}
+
+export interface StoredWhiteboardItem {
+  seq: number;
+  kind: WhiteboardItemKind;
+  /** LaTeX for a tutor step; a data: URL for a student sketch. */
+  content: string;
+  createdAt: string;
+}
+
+export interface StoredSessionWithTurns extends StoredSession {
+  turns: StoredTurn[];
+  whiteboard: StoredWhiteboardItem[];
+}
+
+export interface CreateSessionInput {
+  problem: string;
+  correctAnswer: string;
+  wrongAttempt?: string;
+  provider: string;
+  model?: string | null;
+  startedAt?: string;
+}
+
+export interface TurnInput {
+  seq: number;
+  role: ConversationRole;
+  text: string;
+  startedAt: string;
+  endedAt?: string | null;
+}
+
+export async function createSession(input: CreateSessionInput): Promise<StoredSession> {
+  const { session } = await requestJson<{ session: StoredSession }>("/api/sessions", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return session;
+}
+
+export async function appendTurns(sessionId: string, turns: TurnInput[]): Promise<void> {
+  await requestJson(`/api/sessions/${encodeURIComponent(sessionId)}/turns`, {
+    method: "POST",
+    body: JSON.stringify({ turns }),
+  });
+}
+
+export interface WhiteboardItemInput {
+  seq: number;
+  kind: WhiteboardItemKind;
+  content: string;
+  createdAt: string;
+}
+
+export async function appendWhiteboardItems(sessionId: string, items: WhiteboardItemInput[]): Promise<void> {
+  await requestJson(`/api/sessions/${encodeURIComponent(sessionId)}/whiteboard`, {
+    method: "POST",
+    body: JSON.stringify({ items }),
+  });
+}
+
+export async function endSession(sessionId: string, endedAt = new Date().toISOString()): Promise<void> {
+  await requestJson(`/api/sessions/${encodeURIComponent(sessionId)}/end`, {
+    method: "POST",
+    body: JSON.stringify({ endedAt }),
+  });
+}
+
+/** Best-effort end marker for page unloads, where a normal fetch may be cancelled. */
+export function endSessionOnUnload(sessionId: string) {
+  const body = new Blob([JSON.stringify({ endedAt: new Date().toISOString() })], { type: "application/json" });
+  navigator.sendBeacon(`/api/sessions/${encodeURIComponent(sessionId)}/end`, body);
+}
+
+export interface SessionListFilters {
+  /** ISO timestamps; `to` is exclusive. */
+  from?: string;
+  to?: string;
+  provider?: string;
+  studentId?: string;
+  /** Substring match against the problem text. */
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export async function listSessions(filters: SessionListFilters = {}): Promise<StoredSession[]> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const { sessions } = await requestJson<{ sessions: StoredSession[] }>(`/api/sessions?${query}`);
+  return sessions;
+}
+
+export async function getSession(sessionId: string): Promise<StoredSessionWithTurns> {
+  const { session } = await requestJson<{ session: StoredSessionWithTurns }>(
+    `/api/sessions/${encodeURIComponent(sessionId)}`
+  );
+  return session;
+}
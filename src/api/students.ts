@@ -0,0 +1,73 @@
+import type { AnswerMistake } from "../math/answer-check";
+import { requestJson } from "./http";
+
+export interface Student {
+  id: string;
+  name: string;
+  createdAt: string;
+  classId: string | null;
+}
+
+/** The student's record for one skill tag (problems without tags count as "general"). */
+export interface StudentSkill {
+  skill: string;
+  attempts: number;
+  solved: number;
+  hintsUsed: number;
+  durationMs: number;
+  /** 0 to 1, weighted towards recent problems. */
+  mastery: number;
+  mistakes: Partial<Record<AnswerMistake, number>>;
+}
+
+export interface ProblemOutcomeInput {
+  question: string;
+  tags: string[];
+  solved: boolean;
+  /** Tutor replies on the problem before it was solved, not counting its introduction. */
+  hintsUsed: number;
+  wrongAnswers: number;
+  mistakes: AnswerMistake[];
+  durationMs: number;
+  /** Stored session the problem was worked on in, when it was recorded. */
+  sessionId?: string | null;
+  completedAt?: string;
+}
+
+export interface StoredProblemOutcome extends Required<ProblemOutcomeInput> {
+  id: string;
+}
+
+export interface StudentProfile extends Student {
+  skills: StudentSkill[];
+  recentOutcomes: StoredProblemOutcome[];
+  /** What the tutor is told about the student; empty until there is enough history. */
+  summary: string;
+}
+
+export async function listStudents(): Promise<Student[]> {
+  const { students } = await requestJson<{ students: Student[] }>("/api/students");
+  return students;
+}
+
+export async function createStudent(name: string): Promise<Student> {
+  const { student } = await requestJson<{ student: Student }>("/api/students", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return student;
+}
+
+export async function getStudentProfile(studentId: string): Promise<StudentProfile> {
+  const { student } = await requestJson<{ student: StudentProfile }>(`/api/students/${encodeURIComponent(studentId)}`);
+  return student;
+}
+
+/** Records finished problems; resolves to the profile with the updated skill model. */
+export async function recordOutcomes(studentId: string, outcomes: ProblemOutcomeInput[]): Promise<StudentProfile> {
+  const { student } = await requestJson<{ student: StudentProfile }>(
+    `/api/students/${encodeURIComponent(studentId)}/outcomes`,
+    { method: "POST", body: JSON.stringify({ outcomes }) }
+  );
+  return student;
+}
@@ -0,0 +1,37 @@
+import type { VoiceProviderId } from "../hooks/use-voice-tutor-session";
+import { requestJson } from "./http";
+
+export interface VoiceOption {
+  name: string;
+  /** Short character of the voice, such as "Bright" or "Warm". */
+  description: string;
+}
+
+export interface VoicePreviewRequest {
+  provider: VoiceProviderId;
+  voice: string;
+  /** What the voice should say; a line in the session language. */
+  text: string;
+  /** Speaking rate multiplier, 1 for normal. */
+  speed?: number;
+}
+
+/** The prebuilt voices each provider supports. */
+export async function listVoices(): Promise<Record<VoiceProviderId, VoiceOption[]>> {
+  const { voices } = await requestJson<{ voices: Record<VoiceProviderId, VoiceOption[]> }>("/api/voices");
+  return voices;
+}
+
+/** Renders a short clip of `voice` reading `text`; resolves to the audio, ready for an <audio> element. */
+export async function previewVoice(request: VoicePreviewRequest): Promise<Blob> {
+  const resp = await fetch("/api/voices/preview", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!resp.ok) {
+    const errorText = await resp.text();
+    throw new Error(`Voice preview failed (${resp.status}): ${errorText}`);
+  }
+  return resp.blob();
+}
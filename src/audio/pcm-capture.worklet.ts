@@ -0,0 +1,130 @@
+/**
+ * Microphone capture worklet: low-pass filters the context-rate input,
+ * resamples it to 16 kHz, converts to PCM16 and posts base64 frames, so none
+ * of that work happens on the main thread.
+ */
+
+// AudioWorkletGlobalScope is not part of lib.dom; declare what this module uses.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+declare function registerProcessor(name: string, processorCtor: new (options?: any) => AudioWorkletProcessor): void;
+
+const TARGET_SAMPLE_RATE = 16000;
+// 20 ms frames keep latency low without flooding the socket with tiny messages
+const FRAME_SAMPLES = 320;
+const FILTER_TAPS = 63;
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Blackman-windowed sinc low-pass; `cutoff` is a fraction of the input sample rate. */
+function designLowPass(cutoff: number, taps: number): Float32Array {
+  const kernel = new Float32Array(taps);
+  const middle = (taps - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const x = i - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window =
+      0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (taps - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (taps - 1));
+    kernel[i] = sinc * window;
+    sum += kernel[i];
+  }
+  for (let i = 0; i < taps; i++) {
+    kernel[i] /= sum;
+  }
+  return kernel;
+}
+
+// btoa is not available inside AudioWorkletGlobalScope
+function encodeBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    chunks.push(
+      BASE64_ALPHABET[(n >> 18) & 63] +
+        BASE64_ALPHABET[(n >> 12) & 63] +
+        BASE64_ALPHABET[(n >> 6) & 63] +
+        BASE64_ALPHABET[n & 63]
+    );
+  }
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const n = bytes[i] << 16;
+    chunks.push(BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63] + "==");
+  } else if (remaining === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    chunks.push(
+      BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63] + BASE64_ALPHABET[(n >> 6) & 63] + "="
+    );
+  }
+  return chunks.join("");
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly ratio = sampleRate / TARGET_SAMPLE_RATE;
+  private readonly kernel: Float32Array | null =
+    sampleRate > TARGET_SAMPLE_RATE ? designLowPass((0.45 * TARGET_SAMPLE_RATE) / sampleRate, FILTER_TAPS) : null;
+  private history = new Float32Array(FILTER_TAPS - 1);
+  private scratch = new Float32Array(0);
+  private filtered = new Float32Array(0);
+  // Fractional read position into the current block; -1..0 refers to the previous block's last sample
+  private position = 0;
+  private previousSample = 0;
+  private frame = new Int16Array(FRAME_SAMPLES);
+  private frameLength = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input || input.length === 0) return true;
+
+    const samples = this.lowPass(input);
+    while (this.position < samples.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previousSample : samples[index];
+      const b = samples[index + 1];
+      this.pushSample(a + (b - a) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= samples.length;
+    this.previousSample = samples[samples.length - 1];
+    return true;
+  }
+
+  private lowPass(input: Float32Array): Float32Array {
+    const kernel = this.kernel;
+    if (!kernel) return input;
+
+    const historyLength = this.history.length;
+    if (this.scratch.length !== historyLength + input.length) {
+      this.scratch = new Float32Array(historyLength + input.length);
+      this.filtered = new Float32Array(input.length);
+    }
+    this.scratch.set(this.history, 0);
+    this.scratch.set(input, historyLength);
+
+    for (let n = 0; n < input.length; n++) {
+      let acc = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        acc += kernel[k] * this.scratch[n + kernel.length - 1 - k];
+      }
+      this.filtered[n] = acc;
+    }
+    this.history.set(this.scratch.subarray(this.scratch.length - historyLength));
+    return this.filtered;
+  }
+
+  private pushSample(sample: number) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameLength++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.frameLength === FRAME_SAMPLES) {
+      this.port.postMessage({ type: "chunk", data: encodeBase64(new Uint8Array(this.frame.buffer)) });
+      this.frameLength = 0;
+    }
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
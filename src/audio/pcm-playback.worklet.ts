@@ -0,0 +1,133 @@
+/**
+ * Playback worklet: a growable ring buffer of PCM16 audio at the provider's
+ * output rate, resampled to the context rate. Playback waits for a small jitter
+ * buffer before starting and after every underrun, and reports stats back to
+ * the main thread.
+ */
+
+// AudioWorkletGlobalScope is not part of lib.dom; declare what this module uses.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+declare function registerProcessor(name: string, processorCtor: new (options?: any) => AudioWorkletProcessor): void;
+
+interface PcmPlaybackOptions {
+  sourceSampleRate: number;
+  jitterBufferMs: number;
+}
+
+type PlaybackMessage = { type: "enqueue"; data: ArrayBuffer } | { type: "end-of-turn" } | { type: "clear" };
+
+const INITIAL_CAPACITY_SECONDS = 10;
+// Roughly every 20 ms at 48 kHz with 128-frame render quanta
+const STATS_INTERVAL_QUANTA = 8;
+
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  private readonly sourceSampleRate: number;
+  private readonly step: number;
+  private readonly prebufferFrames: number;
+  private ring: Float32Array;
+  // Absolute frame counters; ring positions are taken modulo capacity
+  private writeIndex = 0;
+  private readPosition = 0;
+  private buffering = true;
+  // Set at the end of a turn so the tail plays even if it is shorter than the jitter buffer
+  private draining = false;
+  private underruns = 0;
+  private quantaSinceStats = 0;
+
+  constructor(options?: { processorOptions?: PcmPlaybackOptions }) {
+    super(options);
+    const { sourceSampleRate = 24000, jitterBufferMs = 80 } = options?.processorOptions ?? {};
+    this.sourceSampleRate = sourceSampleRate;
+    this.step = sourceSampleRate / sampleRate;
+    this.prebufferFrames = Math.round((sourceSampleRate * jitterBufferMs) / 1000);
+    this.ring = new Float32Array(sourceSampleRate * INITIAL_CAPACITY_SECONDS);
+    this.port.onmessage = (event: MessageEvent<PlaybackMessage>) => this.handleMessage(event.data);
+  }
+
+  private get available(): number {
+    return this.writeIndex - Math.floor(this.readPosition);
+  }
+
+  private handleMessage(message: PlaybackMessage) {
+    if (message.type === "enqueue") {
+      const pcm = new Int16Array(message.data);
+      this.ensureCapacity(pcm.length);
+      const capacity = this.ring.length;
+      for (let i = 0; i < pcm.length; i++) {
+        this.ring[(this.writeIndex + i) % capacity] = pcm[i] / 32768;
+      }
+      this.writeIndex += pcm.length;
+      this.draining = false;
+    } else if (message.type === "end-of-turn") {
+      this.draining = true;
+    } else if (message.type === "clear") {
+      this.readPosition = this.writeIndex;
+      this.buffering = true;
+      this.draining = false;
+      this.postStats();
+    }
+  }
+
+  private ensureCapacity(incoming: number) {
+    if (this.available + incoming + 1 <= this.ring.length) return;
+    let capacity = this.ring.length;
+    while (this.available + incoming + 1 > capacity) capacity *= 2;
+    const next = new Float32Array(capacity);
+    for (let i = Math.floor(this.readPosition); i < this.writeIndex; i++) {
+      next[i % capacity] = this.ring[i % this.ring.length];
+    }
+    this.ring = next;
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0]?.[0];
+    if (!output) return true;
+
+    let i = 0;
+    if (this.buffering && (this.available >= this.prebufferFrames || (this.draining && this.available > 1))) {
+      this.buffering = false;
+    }
+
+    if (!this.buffering) {
+      const capacity = this.ring.length;
+      for (; i < output.length; i++) {
+        const index = Math.floor(this.readPosition);
+        if (this.writeIndex - index < 2) {
+          // Ran dry mid-stream: rebuild the jitter buffer before resuming
+          if (!this.draining) this.underruns++;
+          this.buffering = true;
+          this.draining = false;
+          break;
+        }
+        const fraction = this.readPosition - index;
+        const a = this.ring[index % capacity];
+        const b = this.ring[(index + 1) % capacity];
+        output[i] = a + (b - a) * fraction;
+        this.readPosition += this.step;
+      }
+    }
+    output.fill(0, i);
+
+    if (++this.quantaSinceStats >= STATS_INTERVAL_QUANTA) {
+      this.postStats();
+    }
+    return true;
+  }
+
+  private postStats() {
+    this.quantaSinceStats = 0;
+    this.port.postMessage({
+      type: "stats",
+      bufferedMs: (Math.max(0, this.available) / this.sourceSampleRate) * 1000,
+      underruns: this.underruns,
+      playedFrames: Math.floor(this.readPosition),
+      queuedFrames: this.writeIndex,
+    });
+  }
+}
+
+registerProcessor("pcm-playback", PcmPlaybackProcessor);
@@ -0,0 +1,107 @@
+import captureWorkletUrl from "./pcm-capture.worklet.ts?worker&url";
+import playbackWorkletUrl from "./pcm-playback.worklet.ts?worker&url";
+
+export interface PlaybackStats {
+  /** Audio queued but not yet played, in milliseconds. */
+  bufferedMs: number;
+  /** Times playback ran dry mid-turn and had to re-buffer. */
+  underruns: number;
+  /** Source-rate frames played since the player was created. */
+  playedFrames: number;
+  /** Source-rate frames queued since the player was created. */
+  queuedFrames: number;
+}
+
+export interface PcmPlayer {
+  node: AudioWorkletNode;
+  /** Queues base64 PCM16 mono audio at the player's source rate. */
+  enqueue: (base64: string) => void;
+  /** Lets the tail of a turn play out even if it is shorter than the jitter buffer. */
+  endOfTurn: () => void;
+  /** Drops everything not yet played. */
+  clear: () => void;
+  getStats: () => PlaybackStats;
+  dispose: () => void;
+}
+
+export interface PcmPlayerOptions {
+  sourceSampleRate: number;
+  jitterBufferMs?: number;
+}
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/** Registers both processors on the context; safe to call on every connect. */
+export function loadPcmWorklets(ctx: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    loading = Promise.all([
+      ctx.audioWorklet.addModule(captureWorkletUrl),
+      ctx.audioWorklet.addModule(playbackWorkletUrl),
+    ]).then(() => undefined);
+    loading.catch(() => loadedContexts.delete(ctx));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+}
+
+/**
+ * Creates a capture node that emits base64 PCM16 at 16 kHz. It has no outputs,
+ * so it does not need to be wired to the destination to keep running.
+ */
+export function createPcmCapture(ctx: BaseAudioContext, onChunk: (base64: string) => void): AudioWorkletNode {
+  const node = new AudioWorkletNode(ctx, "pcm-capture", {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: "explicit",
+  });
+  node.port.onmessage = (event) => {
+    if (event.data?.type === "chunk") {
+      onChunk(event.data.data);
+    }
+  };
+  return node;
+}
+
+export function createPcmPlayer(ctx: BaseAudioContext, options: PcmPlayerOptions): PcmPlayer {
+  const node = new AudioWorkletNode(ctx, "pcm-playback", {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: {
+      sourceSampleRate: options.sourceSampleRate,
+      jitterBufferMs: options.jitterBufferMs ?? 80,
+    },
+  });
+
+  let stats: PlaybackStats = { bufferedMs: 0, underruns: 0, playedFrames: 0, queuedFrames: 0 };
+  let queuedFrames = 0;
+  node.port.onmessage = (event) => {
+    if (event.data?.type === "stats") {
+      const { type: _type, ...next } = event.data;
+      stats = next;
+    }
+  };
+
+  return {
+    node,
+    enqueue: (base64) => {
+      const binary = atob(base64);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      queuedFrames += bytes.length / 2;
+      node.port.postMessage({ type: "enqueue", data: bytes.buffer }, [bytes.buffer]);
+    },
+    endOfTurn: () => node.port.postMessage({ type: "end-of-turn" }),
+    clear: () => node.port.postMessage({ type: "clear" }),
+    // Queued frames are counted here so callers see enqueues before the worklet reports them
+    getStats: () => ({ ...stats, queuedFrames }),
+    dispose: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+    },
+  };
+}
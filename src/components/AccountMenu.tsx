@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { LogOut } from "lucide-react";
+import { AuthUser, LOGIN_PATH, logout } from "../api/auth";
+
+interface AccountMenuProps {
+  user: AuthUser;
+}
+
+/** Who is signed in, and a way out. */
+export function AccountMenu({ user }: AccountMenuProps) {
+  const handleSignOut = useCallback(async () => {
+    try {
+      await logout();
+    } finally {
+      window.location.assign(LOGIN_PATH);
+    }
+  }, []);
+
+  return (
+    <div className="inline-flex items-center gap-2 text-xs text-neutral-400">
+      <span>
+        {user.displayName} <span className="text-neutral-500">({user.role})</span>
+      </span>
+      <button
+        onClick={() => void handleSignOut()}
+        className="inline-flex items-center gap-1 text-indigo-300 hover:text-indigo-200"
+      >
+        <LogOut className="w-3.5 h-3.5" />
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { ReactNode, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { AuthUser, Role, getCurrentUser, homePath, loginUrl } from "../api/auth";
+
+interface AuthGateProps {
+  /** Roles the page is for; admins may open every page. */
+  roles: Role[];
+  children: (user: AuthUser) => ReactNode;
+}
+
+/**
+ * Renders a page only for a signed-in user with one of `roles`. Anyone else
+ * is sent to sign in, or to their own home page when signed in with another
+ * role. The server enforces the same roles; this only avoids a page of errors.
+ */
+export function AuthGate({ roles, children }: AuthGateProps) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentUser()
+      .then((current) => {
+        if (cancelled) return;
+        if (!current) window.location.assign(loginUrl());
+        else if (current.role !== "admin" && !roles.includes(current.role)) window.location.assign(homePath(current.role));
+        else setUser(current);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roles]);
+
+  if (user) return <>{children(user)}</>;
+  return (
+    <div className="min-h-screen bg-neutral-900 text-neutral-400 flex items-center justify-center gap-2 text-sm font-sans">
+      {error ? (
+        <p>{error}</p>
+      ) : (
+        <>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading...
+        </>
+      )}
+    </div>
+  );
+}
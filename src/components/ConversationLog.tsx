@@ -0,0 +1,143 @@
+import { ReactNode, useEffect, useRef } from "react";
+import type { ConversationRole } from "../hooks/voice-session";
+import { detectLanguage, getSessionLanguage } from "../prompts/languages";
+import { MathRenderer } from "./MathRenderer";
+
+export interface ConversationEntry {
+  role: ConversationRole;
+  text: string;
+  /** Epoch milliseconds of the first and latest transcript chunk, for live entries. */
+  startedAt?: number;
+  endedAt?: number;
+  /** Sent from the text composer rather than spoken. */
+  typed?: boolean;
+  /** The tutor's written form of this reply, with $...$ math; shown instead of the spoken transcript. */
+  written?: string;
+}
+
+interface ConversationLogProps {
+  entries: ConversationEntry[];
+  emptyMessage?: ReactNode;
+  className?: string;
+  /** The last entry may still be streaming in. */
+  live?: boolean;
+  /** Tag each bubble with the language detected in it, for multilingual sessions. */
+  languageTags?: boolean;
+  /** Label on the student's bubbles; "You" on the student's own screen. */
+  userLabel?: string;
+}
+
+/** What a bubble shows, and what gets stored: the written form when the tutor sent one. */
+export function entryDisplayText(entry: ConversationEntry): string {
+  return entry.written || entry.text;
+}
+
+function LanguageTag({ text }: { text: string }) {
+  const language = detectLanguage(text);
+  if (!language) return null;
+  return (
+    <span className="ml-2 px-1 rounded bg-white/10 text-[10px] not-italic" title="Detected language">
+      {getSessionLanguage(language).tag}
+    </span>
+  );
+}
+
+export function ConversationLog({
+  entries,
+  emptyMessage,
+  className = "h-64",
+  live = false,
+  languageTags = false,
+  userLabel = "You",
+}: ConversationLogProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({
+      top: scrollRef.current.scrollHeight,
+      behavior: "smooth",
+    });
+  }, [entries]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className={`${className} overflow-y-auto overflow-x-hidden bg-neutral-800/30 rounded-xl border border-white/10 p-4 space-y-3`}
+    >
+      {entries.length === 0 && emptyMessage && <p className="text-neutral-500 text-sm">{emptyMessage}</p>}
+      {entries.map((entry, i) => (
+        <div key={i} className={`flex ${entry.role === "user" ? "justify-end" : "justify-start"}`}>
+          <div
+            className={`max-w-[85%] px-4 py-2 rounded-xl ${
+              entry.role === "user" ? "bg-indigo-500/30 text-indigo-100" : "bg-neutral-700/50 text-neutral-200"
+            }`}
+          >
+            <span className="text-xs font-mono opacity-70 block mb-1">
+              {entry.role === "user" ? userLabel : "Tutor"}
+              {languageTags && <LanguageTag text={entryDisplayText(entry)} />}
+            </span>
+            <MathRenderer
+              content={entryDisplayText(entry)}
+              displayMode={false}
+              textFallback
+              streaming={live && i === entries.length - 1}
+              className="text-sm"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Appends an incremental transcript chunk, merging it into the last entry when
+ * the same speaker is still talking.
+ */
+export function appendTranscript(
+  entries: ConversationEntry[],
+  role: ConversationRole,
+  text: string
+): ConversationEntry[] {
+  const now = Date.now();
+  const last = entries[entries.length - 1];
+  if (last?.role === role && !last.typed) {
+    return [...entries.slice(0, -1), { ...last, text: `${last.text}${text}`, endedAt: now }];
+  }
+  return [...entries, { role, text: text.trim(), startedAt: now, endedAt: now }];
+}
+
+/**
+ * Attaches a chunk of the tutor's written text to its current reply. The text
+ * channel can run ahead of the audio transcript, so it may open the entry.
+ */
+export function appendAgentText(entries: ConversationEntry[], text: string): ConversationEntry[] {
+  const now = Date.now();
+  const last = entries[entries.length - 1];
+  if (last?.role === "agent") {
+    const written = last.written ? `${last.written} ${text.trim()}` : text.trim();
+    return [...entries.slice(0, -1), { ...last, written, endedAt: now }];
+  }
+  return [...entries, { role: "agent", text: "", written: text.trim(), startedAt: now, endedAt: now }];
+}
+
+/** Adds a typed student message as its own entry; transcripts never merge into it. */
+export function appendTypedEntry(entries: ConversationEntry[], text: string): ConversationEntry[] {
+  const now = Date.now();
+  return [...entries, { role: "user", text: text.trim(), startedAt: now, endedAt: now, typed: true }];
+}
+
+/**
+ * Replaces the text of the latest agent entry, e.g. after an interruption cut the reply short.
+ * The student's own transcript may already have started, so the agent entry is not always last.
+ */
+export function trimLastAgentEntry(entries: ConversationEntry[], text: string): ConversationEntry[] {
+  let index = entries.length - 1;
+  while (index >= 0 && entries[index].role !== "agent") index--;
+  if (index < 0) return entries;
+  const trimmed = text.trim();
+  if (!trimmed) return [...entries.slice(0, index), ...entries.slice(index + 1)];
+  // The written form covers the whole planned reply, not just the part that was heard
+  const { written: _written, ...entry } = entries[index];
+  return [...entries.slice(0, index), { ...entry, text: trimmed }, ...entries.slice(index + 1)];
+}
@@ -1,83 +1,94 @@
-import { useMemo } from "react";
+import { memo, useMemo } from "react";
 import katex from "katex";
 
 interface MathRendererProps {
   content: string;
   displayMode?: boolean;
   className?: string;
+  /** Render content without any $ delimiters as plain text rather than as one LaTeX expression. */
+  textFallback?: boolean;
+  /**
+   * Content is still arriving: hide a trailing `$` expression that has not been
+   * closed yet, so half-written LaTeX never flashes up as raw source.
+   */
+  streaming?: boolean;
 }
 
-/**
- * Renders LaTeX/KaTeX math expressions. Handles $...$ (inline) and $$...$$ (block).
- * Mixed text and math is supported.
- */
-export function MathRenderer({ content, displayMode = true, className = "" }: MathRendererProps) {
-  const html = useMemo(() => {
-    if (!content.trim()) return "";
+type Segment = { kind: "text"; text: string } | { kind: "math"; tex: string; block: boolean };
 
-    try {
-      const result: string[] = [];
-      let i = 0;
+// Match $$...$$ (block) or $...$ (inline)
+const MATH_PATTERN = /\$\$([\s\S]*?)\$\$|\$([^$]+)\$/g;
 
-      // Match $$...$$ (block) or $...$ (inline)
-      const regex = /\$\$([\s\S]*?)\$\$|\$([^$]+)\$/g;
-      let lastIndex = 0;
-      let match;
-
-      while ((match = regex.exec(content)) !== null) {
-        // Add text before this match
-        if (match.index > lastIndex) {
-          result.push(content.slice(lastIndex, match.index).replace(/\n/g, "<br/>"));
-        }
-
-        const isBlock = !!match[1];
-        const math = (match[1] || match[2] || "").trim();
+function splitMath(content: string, streaming: boolean): Segment[] {
+  const segments: Segment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MATH_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ kind: "text", text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ kind: "math", tex: (match[1] ?? match[2]).trim(), block: match[1] !== undefined });
+    lastIndex = match.index + match[0].length;
+  }
 
-        try {
-          result.push(
-            katex.renderToString(math, {
-              displayMode: isBlock,
-              throwOnError: false,
-              output: "html",
-            })
-          );
-        } catch {
-          result.push(math);
-        }
+  let rest = content.slice(lastIndex);
+  if (streaming) {
+    const open = rest.indexOf("$");
+    if (open >= 0) rest = rest.slice(0, open);
+  }
+  if (rest) segments.push({ kind: "text", text: rest });
+  return segments;
+}
 
-        lastIndex = regex.lastIndex;
-      }
+/** One KaTeX expression; memoized so streaming updates do not re-render finished math. */
+const KatexSpan = memo(function KatexSpan({ tex, block, strict = true }: { tex: string; block: boolean; strict?: boolean }) {
+  const html = useMemo(() => {
+    try {
+      return katex.renderToString(tex, {
+        displayMode: block,
+        throwOnError: false,
+        output: "html",
+        ...(strict ? {} : { strict: false }),
+      });
+    } catch {
+      return null;
+    }
+  }, [tex, block, strict]);
 
-      if (result.length === 0) {
-        // No math delimiters - try rendering whole as LaTeX
-        try {
-          return katex.renderToString(content, {
-            displayMode,
-            throwOnError: false,
-            output: "html",
-            strict: false,
-          });
-        } catch {
-          return content.replace(/\n/g, "<br/>");
-        }
-      }
+  if (html === null) return <span className="whitespace-pre-wrap">{tex}</span>;
+  return <span dangerouslySetInnerHTML={{ __html: html }} />;
+});
 
-      if (lastIndex < content.length) {
-        result.push(content.slice(lastIndex).replace(/\n/g, "<br/>"));
-      }
+/**
+ * Renders LaTeX/KaTeX math expressions. Handles $...$ (inline) and $$...$$ (block).
+ * Mixed text and math is supported; text is rendered as React text, never as HTML.
+ */
+export function MathRenderer({
+  content,
+  displayMode = true,
+  className = "",
+  textFallback = false,
+  streaming = false,
+}: MathRendererProps) {
+  const segments = useMemo(() => splitMath(content, streaming), [content, streaming]);
 
-      return result.join("");
-    } catch {
-      return content.replace(/\n/g, "<br/>");
-    }
-  }, [content, displayMode]);
+  if (!content.trim()) return null;
 
-  if (!html) return null;
+  const hasMath = segments.some((segment) => segment.kind === "math");
+  // No math delimiters - render the whole thing as LaTeX unless it is known to be prose
+  const body =
+    !hasMath && !textFallback ? (
+      <KatexSpan tex={content} block={displayMode} strict={false} />
+    ) : (
+      segments.map((segment, i) =>
+        segment.kind === "math" ? (
+          <KatexSpan key={i} tex={segment.tex} block={segment.block} />
+        ) : (
+          <span key={i} className="whitespace-pre-wrap">
+            {segment.text}
+          </span>
+        )
+      )
+    );
 
-  return (
-    <div
-      className={`prose prose-invert max-w-none ${className}`}
-      dangerouslySetInnerHTML={{ __html: html }}
-    />
-  );
+  return <div className={`prose prose-invert max-w-none ${className}`}>{body}</div>;
 }
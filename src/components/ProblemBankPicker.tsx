@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Download, Library, Loader2, Save, Search, Upload } from "lucide-react";
+import { MathRenderer } from "./MathRenderer";
+import {
+  BankProblem,
+  createProblem,
+  importProblems,
+  listAssignedProblems,
+  listProblems,
+  problemExportUrl,
+} from "../api/problems";
+
+/** What the picker lists: a bank problem, or one assigned to the class. */
+type PickableProblem = Pick<BankProblem, "id" | "question" | "answer" | "tags" | "difficulty">;
+
+interface ProblemBankPickerProps {
+  onSelect: (problem: PickableProblem) => void;
+  /** Current form values, offered for saving into the bank. */
+  question: string;
+  answer: string;
+  /** Lists only the problems assigned to the user's class, with no saving, import or export; for students. */
+  assignedOnly?: boolean;
+  disabled?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Assigned problems are few, so they are fetched whole and searched here. */
+async function searchAssignedProblems(search: string): Promise<PickableProblem[]> {
+  const needle = search.toLowerCase();
+  const problems = await listAssignedProblems();
+  return needle ? problems.filter((problem) => problem.question.toLowerCase().includes(needle)) : problems;
+}
+
+export function ProblemBankPicker({
+  onSelect,
+  question,
+  answer,
+  assignedOnly = false,
+  disabled = false,
+}: ProblemBankPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [problems, setProblems] = useState<PickableProblem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setIsLoading(true);
+      const request = assignedOnly
+        ? searchAssignedProblems(search.trim())
+        : listProblems({ q: search.trim() || undefined, limit: 50 });
+      request
+        .then((result) => {
+          if (!cancelled) setProblems(result);
+        })
+        .catch((loadError) => {
+          if (!cancelled) setStatus(loadError instanceof Error ? loadError.message : String(loadError));
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isOpen, search, reloadKey, assignedOnly]);
+
+  const handleSave = useCallback(async () => {
+    if (!question.trim() || !answer.trim()) return;
+    try {
+      await createProblem({ question: question.trim(), answer: answer.trim() });
+      setStatus("Saved to the problem bank.");
+      setReloadKey((key) => key + 1);
+    } catch (saveError) {
+      setStatus(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  }, [question, answer]);
+
+  const handleImport = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await importProblems(file);
+      setStatus(`Imported ${imported} problem${imported === 1 ? "" : "s"}.`);
+      setReloadKey((key) => key + 1);
+    } catch (importError) {
+      setStatus(importError instanceof Error ? importError.message : String(importError));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  }, []);
+
+  const smallButtonClassName =
+    "h-8 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setIsOpen(!isOpen)} disabled={disabled} className={smallButtonClassName}>
+          <Library className="w-3.5 h-3.5" />
+          {assignedOnly
+            ? isOpen
+              ? "Hide assigned problems"
+              : "Pick an assigned problem"
+            : isOpen
+              ? "Hide problem bank"
+              : "Pick from problem bank"}
+        </button>
+        {!assignedOnly && (
+          <button
+            onClick={handleSave}
+            disabled={disabled || !question.trim() || !answer.trim()}
+            className={smallButtonClassName}
+            title="Save the current question and answer"
+          >
+            <Save className="w-3.5 h-3.5" />
+            Save to bank
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="bg-neutral-800/30 rounded-xl border border-white/10 p-3 space-y-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search problems"
+              className="w-full pl-9 pr-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+            />
+          </div>
+
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-neutral-400 text-xs">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Loading...
+              </div>
+            )}
+            {!isLoading && problems.length === 0 && (
+              <p className="text-neutral-500 text-xs">
+                {assignedOnly && !search.trim() ? "Your teacher has not assigned any problems yet." : "No problems found."}
+              </p>
+            )}
+            {problems.map((problem) => (
+              <button
+                key={problem.id}
+                onClick={() => {
+                  onSelect(problem);
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-neutral-700/50 border border-transparent hover:border-white/10"
+              >
+                <MathRenderer content={problem.question} displayMode={false} className="text-sm" />
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {problem.difficulty && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-200">
+                      {problem.difficulty}
+                    </span>
+                  )}
+                  {problem.tags.map((tag) => (
+                    <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-neutral-700 text-neutral-300">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {!assignedOnly && (
+            <div className="flex flex-wrap items-center gap-2 pt-1 border-t border-white/5">
+              <button onClick={() => fileInputRef.current?.click()} className={smallButtonClassName}>
+                <Upload className="w-3.5 h-3.5" />
+                Import JSON/CSV
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files?.[0])}
+              />
+              <a href={problemExportUrl("json")} className={smallButtonClassName}>
+                <Download className="w-3.5 h-3.5" />
+                Export JSON
+              </a>
+              <a href={problemExportUrl("csv")} className={smallButtonClassName}>
+                <Download className="w-3.5 h-3.5" />
+                Export CSV
+              </a>
+            </div>
+          )}
+        </div>
+      )}
+
+      {status && <p className="text-xs text-neutral-400">{status}</p>}
+    </div>
+  );
+}
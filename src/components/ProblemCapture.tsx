@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, ImageUp, Loader2, ScanText, X } from "lucide-react";
+import { recognizeProblem } from "../api/problems";
+
+interface ProblemCaptureProps {
+  /** Called with the recognized question, as $...$ LaTeX, for the teacher to review and edit. */
+  onRecognized: (question: string) => void;
+  disabled?: boolean;
+}
+
+// Phone photos are far larger than the model needs; shrink before uploading
+const MAX_IMAGE_DIMENSION = 1600;
+const UPLOAD_MIME_TYPE = "image/jpeg";
+const UPLOAD_QUALITY = 0.85;
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))),
+      UPLOAD_MIME_TYPE,
+      UPLOAD_QUALITY
+    );
+  });
+}
+
+/** Draws an image or video frame onto a canvas no larger than MAX_IMAGE_DIMENSION and encodes it as JPEG. */
+function encodeScaled(source: CanvasImageSource, width: number, height: number): Promise<Blob> {
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext("2d")!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas);
+}
+
+async function scaleImageFile(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await encodeScaled(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** "Capture problem": upload a photo or screenshot, or take one with the webcam, and transcribe it to LaTeX. */
+export function ProblemCapture({ onRecognized, disabled = false }: ProblemCaptureProps) {
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isRecognizing, setIsRecognizing] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsCameraOpen(false);
+  }, []);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  useEffect(() => {
+    if (isCameraOpen && videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+    }
+  }, [isCameraOpen]);
+
+  const recognize = useCallback(
+    async (image: Blob) => {
+      setIsRecognizing(true);
+      setStatus(null);
+      try {
+        onRecognized(await recognizeProblem(image));
+        setStatus("Problem captured. Check the preview and edit it if anything was misread.");
+      } catch (recognizeError) {
+        setStatus(recognizeError instanceof Error ? recognizeError.message : String(recognizeError));
+      } finally {
+        setIsRecognizing(false);
+      }
+    },
+    [onRecognized]
+  );
+
+  const handleFile = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+      try {
+        await recognize(await scaleImageFile(file));
+      } catch (fileError) {
+        setStatus(fileError instanceof Error ? fileError.message : String(fileError));
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    },
+    [recognize]
+  );
+
+  const openCamera = useCallback(async () => {
+    setStatus(null);
+    try {
+      // Prefer the rear camera on phones and tablets; laptops fall back to whatever they have
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      setIsCameraOpen(true);
+    } catch (cameraError) {
+      setStatus(cameraError instanceof Error ? `Camera unavailable: ${cameraError.message}` : "Camera unavailable.");
+    }
+  }, []);
+
+  const takePhoto = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const photo = await encodeScaled(video, video.videoWidth, video.videoHeight);
+    stopCamera();
+    await recognize(photo);
+  }, [recognize, stopCamera]);
+
+  const smallButtonClassName =
+    "h-8 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+  const busy = disabled || isRecognizing;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy} className={smallButtonClassName}>
+          <ImageUp className="w-3.5 h-3.5" />
+          Capture from image
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <button
+          onClick={isCameraOpen ? stopCamera : openCamera}
+          disabled={busy}
+          className={smallButtonClassName}
+        >
+          {isCameraOpen ? <X className="w-3.5 h-3.5" /> : <Camera className="w-3.5 h-3.5" />}
+          {isCameraOpen ? "Close camera" : "Capture with camera"}
+        </button>
+        {isRecognizing && (
+          <span className="flex items-center gap-1.5 text-xs text-neutral-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Reading the problem...
+          </span>
+        )}
+      </div>
+
+      {isCameraOpen && (
+        <div className="bg-neutral-800/30 rounded-xl border border-white/10 p-3 space-y-2">
+          <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-64 rounded-lg bg-black object-contain" />
+          <button onClick={takePhoto} disabled={busy} className={smallButtonClassName}>
+            <ScanText className="w-3.5 h-3.5" />
+            Take photo and read problem
+          </button>
+        </div>
+      )}
+
+      {status && <p className="text-xs text-neutral-400">{status}</p>}
+    </div>
+  );
+}
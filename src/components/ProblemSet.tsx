@@ -0,0 +1,127 @@
+import { ArrowDown, ArrowUp, CheckCircle2, Circle, CircleDot, SkipForward, X } from "lucide-react";
+import type { ProblemAdvanceReason } from "../prompts/math-tutor";
+import type { TutorProblem } from "../hooks/voice-session";
+import { MathRenderer } from "./MathRenderer";
+
+interface ProblemSetQueueProps {
+  problems: TutorProblem[];
+  onRemove: (index: number) => void;
+  /** Swaps the problem at `index` with its neighbour in `direction`. */
+  onMove: (index: number, direction: -1 | 1) => void;
+  disabled?: boolean;
+}
+
+/** The problems queued for the next session, in the order the tutor will go through them. */
+export function ProblemSetQueue({ problems, onRemove, onMove, disabled = false }: ProblemSetQueueProps) {
+  if (problems.length === 0) return null;
+  const iconButtonClassName =
+    "p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <ol className="space-y-1.5">
+      {problems.map((problem, index) => (
+        <li
+          key={index}
+          className="flex items-start gap-2 px-3 py-2 bg-neutral-800/30 rounded-lg border border-white/5 text-sm"
+        >
+          <span className="text-xs text-neutral-500 pt-0.5 shrink-0">{index + 1}.</span>
+          <div className="flex-1 min-w-0">
+            <MathRenderer content={problem.question} />
+            <span className="block text-xs text-neutral-500 truncate">Answer: {problem.answer}</span>
+          </div>
+          <div className="flex items-center shrink-0">
+            <button
+              onClick={() => onMove(index, -1)}
+              disabled={disabled || index === 0}
+              className={iconButtonClassName}
+              title="Move up"
+            >
+              <ArrowUp className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onMove(index, 1)}
+              disabled={disabled || index === problems.length - 1}
+              className={iconButtonClassName}
+              title="Move down"
+            >
+              <ArrowDown className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onRemove(index)}
+              disabled={disabled}
+              className={iconButtonClassName}
+              title="Remove from the set"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface ProblemSetProgressProps {
+  problems: TutorProblem[];
+  /** How each finished problem ended, in order; its length is the index of the current problem. */
+  completed: ProblemAdvanceReason[];
+  /** Teacher override: move the session on without waiting for the answer. */
+  onNext: () => void;
+  disabled?: boolean;
+}
+
+/** "Problem i of N" during a session, with each problem's state and a button to skip ahead. */
+export function ProblemSetProgress({ problems, completed, onNext, disabled = false }: ProblemSetProgressProps) {
+  const currentIndex = completed.length;
+  const isComplete = currentIndex >= problems.length;
+
+  return (
+    <div className="bg-neutral-800/30 rounded-xl border border-white/10 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-neutral-300">
+          {isComplete ? "Problem set complete" : `Problem ${currentIndex + 1} of ${problems.length}`}
+        </span>
+        {!isComplete && (
+          <button
+            onClick={onNext}
+            disabled={disabled}
+            className="h-8 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={
+              currentIndex === problems.length - 1
+                ? "End the set without waiting for an answer"
+                : "Move on without waiting for an answer"
+            }
+          >
+            <SkipForward className="w-3.5 h-3.5" />
+            {currentIndex === problems.length - 1 ? "Finish set" : "Next problem"}
+          </button>
+        )}
+      </div>
+      <ol className="space-y-1">
+        {problems.map((problem, index) => {
+          const outcome = completed[index];
+          const isCurrent = index === currentIndex;
+          return (
+            <li
+              key={index}
+              className={`flex items-start gap-2 text-sm ${isCurrent ? "text-white" : "text-neutral-500"}`}
+            >
+              {outcome === "solved" ? (
+                <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-emerald-400" />
+              ) : outcome === "teacher" ? (
+                <SkipForward className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+              ) : isCurrent ? (
+                <CircleDot className="w-4 h-4 mt-0.5 shrink-0 text-indigo-400" />
+              ) : (
+                <Circle className="w-4 h-4 mt-0.5 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <MathRenderer content={problem.question} />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { StudentProfile } from "../api/students";
+
+interface StudentSkillsProps {
+  /** The signed-in student's profile, once loaded. */
+  profile: StudentProfile | null;
+  /** Why the profile could not be loaded. */
+  error?: string | null;
+}
+
+/** "Your progress": what earlier sessions showed about the student's skills, and what the tutor is told. */
+export function StudentSkills({ profile, error }: StudentSkillsProps) {
+  return (
+    <div className="space-y-2">
+      {profile && (
+        <div className="bg-neutral-800/30 rounded-xl border border-white/10 p-3 space-y-2">
+          {profile.skills.length > 0 ? (
+            <ul className="space-y-1">
+              {profile.skills.map((skill) => (
+                <li key={skill.skill} className="flex items-center gap-2 text-xs text-neutral-400">
+                  <span className="w-32 truncate">{skill.skill}</span>
+                  <div className="flex-1 h-1.5 rounded-full bg-neutral-700 overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-400"
+                      style={{ width: `${Math.round(skill.mastery * 100)}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right">
+                    {skill.solved}/{skill.attempts} solved
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-neutral-500">No finished problems yet.</p>
+          )}
+          {profile.summary && (
+            <div className="text-xs text-neutral-400">
+              <span className="block text-neutral-500 mb-1">The tutor is told:</span>
+              <p className="whitespace-pre-line">{profile.summary}</p>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-neutral-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Mic, MicOff, Pause, Play, Send } from "lucide-react";
+import { LiveSession, setSessionTutorPaused, teacherTalkSocketUrl, whisperToSession } from "../api/classroom";
+import { useTalkback } from "../hooks/use-talkback";
+
+interface TeacherControlsProps {
+  session: LiveSession;
+}
+
+/**
+ * The teacher's hand in one student's session: private notes to the tutor,
+ * pausing it, and talking to the student directly. Talking ends when another
+ * student is selected; the tutor stays paused until it is resumed.
+ */
+export function TeacherControls({ session }: TeacherControlsProps) {
+  const [note, setNote] = useState("");
+  const [isTalking, setIsTalking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const talkSocketRef = useRef<WebSocket | null>(null);
+  const isLive = session.online && session.connection !== "idle";
+
+  const sendTalkAudio = useCallback((data: string) => {
+    const socket = talkSocketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "audio", data }));
+  }, []);
+  const { play: playStudentAudio, error: talkError } = useTalkback(isTalking, sendTalkAudio);
+
+  useEffect(() => {
+    if (!isTalking) return;
+    const socket = new WebSocket(teacherTalkSocketUrl(session.id));
+    talkSocketRef.current = socket;
+    socket.onmessage = (event) => {
+      let message: any;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message?.type === "audio" && typeof message.data === "string") playStudentAudio(message.data);
+    };
+    // The server closes the talk when the tutor is resumed or the student leaves
+    socket.onclose = (event) => {
+      if (talkSocketRef.current !== socket) return;
+      talkSocketRef.current = null;
+      setIsTalking(false);
+      if (event.code !== 1000 && event.reason) setStatus(event.reason);
+    };
+    return () => {
+      talkSocketRef.current = null;
+      socket.close();
+    };
+  }, [isTalking, session.id, playStudentAudio]);
+
+  const handleWhisper = useCallback(async () => {
+    const text = note.trim();
+    if (!text) return;
+    try {
+      await whisperToSession(session.id, text);
+      setNote("");
+      setStatus(null);
+    } catch (whisperError) {
+      setStatus(whisperError instanceof Error ? whisperError.message : String(whisperError));
+    }
+  }, [note, session.id]);
+
+  const handleTogglePause = useCallback(async () => {
+    try {
+      await setSessionTutorPaused(session.id, !session.tutorPaused);
+      setStatus(null);
+    } catch (pauseError) {
+      setStatus(pauseError instanceof Error ? pauseError.message : String(pauseError));
+    }
+  }, [session.id, session.tutorPaused]);
+
+  const fieldClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50";
+  const buttonClassName =
+    "h-9 px-3 shrink-0 rounded-lg text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void handleWhisper();
+          }}
+          placeholder="Private note to the tutor, e.g. they need to review distributing negatives first"
+          maxLength={500}
+          disabled={!isLive}
+          className={fieldClassName}
+        />
+        <button
+          onClick={() => void handleWhisper()}
+          disabled={!isLive || !note.trim()}
+          className={`${buttonClassName} bg-neutral-800 hover:bg-neutral-700`}
+          title="Only the tutor gets this note; the student does not see it"
+        >
+          <Send className="w-3.5 h-3.5" />
+          Whisper
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => void handleTogglePause()}
+          disabled={!isLive}
+          className={`${buttonClassName} ${
+            session.tutorPaused
+              ? "bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30"
+              : "bg-neutral-800 hover:bg-neutral-700"
+          }`}
+        >
+          {session.tutorPaused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+          {session.tutorPaused ? "Resume tutor" : "Pause tutor"}
+        </button>
+        <button
+          onClick={() => setIsTalking((talking) => !talking)}
+          disabled={!isLive && !isTalking}
+          className={`${buttonClassName} ${
+            isTalking ? "bg-red-500 hover:bg-red-600 text-white" : "bg-neutral-800 hover:bg-neutral-700"
+          }`}
+          title="Pauses the tutor and connects your microphone to the student"
+        >
+          {isTalking ? <MicOff className="w-3.5 h-3.5" /> : <Mic className="w-3.5 h-3.5" />}
+          {isTalking ? "Stop talking" : "Talk to student"}
+        </button>
+      </div>
+
+      {session.teacherNotes.length > 0 && (
+        <ul className="text-xs text-neutral-400 space-y-1">
+          {session.teacherNotes.map((sent, i) => (
+            <li key={i} className="truncate">
+              Note: <span className="text-neutral-200">{sent}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {(talkError || status) && <p className="text-xs text-neutral-400">{talkError?.message ?? status}</p>}
+    </div>
+  );
+}
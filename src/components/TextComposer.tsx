@@ -0,0 +1,41 @@
+import { FormEvent, useState } from "react";
+import { SendHorizontal } from "lucide-react";
+
+interface TextComposerProps {
+  /** False keeps the text in the box, as it was not sent. */
+  onSend: (text: string) => boolean;
+  disabled?: boolean;
+}
+
+/** Single-line input for typed student turns; Enter sends. */
+export function TextComposer({ onSend, disabled = false }: TextComposerProps) {
+  const [text, setText] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || disabled) return;
+    if (onSend(trimmed)) setText("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        placeholder={disabled ? "Start a session to type a message" : "Type a message (wrap math in $...$)"}
+        className="flex-1 px-4 py-2 bg-neutral-800/50 rounded-xl border border-white/10 text-sm text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="h-9 w-9 rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white flex items-center justify-center disabled:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+        title="Send"
+      >
+        <SendHorizontal className="w-4 h-4" />
+      </button>
+    </form>
+  );
+}
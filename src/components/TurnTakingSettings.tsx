@@ -0,0 +1,120 @@
+import { MAX_ECHO_WINDOW_MS, MAX_SILENCE_DURATION_MS, MIN_SILENCE_DURATION_MS } from "../hooks/use-voice-settings";
+import {
+  SemanticVadEagerness,
+  TURN_DETECTION_MODES,
+  TurnDetectionSettings,
+  isTurnDetectionMode,
+} from "../hooks/voice-session";
+
+interface TurnTakingSettingsProps {
+  settings: TurnDetectionSettings;
+  onChange: (changes: Partial<TurnDetectionSettings>) => void;
+  disabled?: boolean;
+}
+
+const EAGERNESS_OPTIONS: { id: SemanticVadEagerness; label: string }[] = [
+  { id: "auto", label: "Automatic" },
+  { id: "low", label: "Low (waits through long pauses)" },
+  { id: "medium", label: "Medium" },
+  { id: "high", label: "High (replies quickly)" },
+];
+
+/** "Turn Taking": how the tutor decides the student has finished speaking, with the mode's tuning. */
+export function TurnTakingSettings({ settings, onChange, disabled = false }: TurnTakingSettingsProps) {
+  const mode = TURN_DETECTION_MODES.find((option) => option.id === settings.mode) ?? TURN_DETECTION_MODES[0];
+  const fieldClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50";
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={settings.mode}
+        onChange={(e) => {
+          if (isTurnDetectionMode(e.target.value)) onChange({ mode: e.target.value });
+        }}
+        className="w-full px-4 py-3 bg-neutral-800/50 rounded-xl border border-white/10 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+        disabled={disabled}
+      >
+        {TURN_DETECTION_MODES.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-neutral-500">{mode.description}</p>
+
+      {settings.mode === "server-vad" && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1 text-xs text-neutral-400">
+            <span className="block">Threshold: {settings.threshold.toFixed(2)}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.threshold}
+              onChange={(e) => onChange({ threshold: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+          <label className="space-y-1 text-xs text-neutral-400">
+            <span className="block">Silence before replying: {settings.silenceDurationMs} ms</span>
+            <input
+              type="range"
+              min={MIN_SILENCE_DURATION_MS}
+              max={MAX_SILENCE_DURATION_MS}
+              step={100}
+              value={settings.silenceDurationMs}
+              onChange={(e) => onChange({ silenceDurationMs: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+        </div>
+      )}
+
+      {settings.mode === "semantic-vad" && (
+        <label className="block space-y-1 text-xs text-neutral-400">
+          <span className="block">Eagerness</span>
+          <select
+            value={settings.eagerness}
+            onChange={(e) => {
+              const eagerness = EAGERNESS_OPTIONS.find((option) => option.id === e.target.value)?.id;
+              if (eagerness) onChange({ eagerness });
+            }}
+            disabled={disabled}
+            className={fieldClassName}
+          >
+            {EAGERNESS_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {settings.mode !== "push-to-talk" && (
+        <label className="block space-y-1 text-xs text-neutral-400">
+          <span className="block">
+            Echo window: {settings.echoWindowMs === 0 ? "off" : `${settings.echoWindowMs} ms`} (OpenAI Realtime)
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_ECHO_WINDOW_MS}
+            step={100}
+            value={settings.echoWindowMs}
+            onChange={(e) => onChange({ echoWindowMs: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full accent-indigo-500"
+          />
+          <span className="block text-neutral-500">
+            Speech heard this soon after the tutor stops is taken to be the tutor's own voice from the speakers.
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
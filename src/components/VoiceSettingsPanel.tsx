@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Play, SlidersHorizontal, Square } from "lucide-react";
+import { VoiceOption, listVoices, previewVoice } from "../api/voices";
+import { MAX_RESPONSE_TOKENS, MIN_RESPONSE_TOKENS, VoiceSettings } from "../hooks/use-voice-settings";
+import type { VoiceProviderId } from "../hooks/use-voice-tutor-session";
+import { SessionLanguageId, getSessionLanguage } from "../prompts/languages";
+import { SPEECH_PACES, getSpeechPace, isSpeechPaceId } from "../prompts/speech";
+
+interface VoiceSettingsPanelProps {
+  provider: VoiceProviderId;
+  settings: VoiceSettings;
+  onChange: (changes: Partial<VoiceSettings>) => void;
+  /** Session language; decides the default voice and what previews say. */
+  language: SessionLanguageId;
+  /** Reply token limit of the selected tutoring mode, used when none is set here. */
+  defaultMaxResponseTokens: number;
+  disabled?: boolean;
+}
+
+/** "Voice settings": the provider's voice (with a preview), speaking pace and reply length limit. */
+export function VoiceSettingsPanel({
+  provider,
+  settings,
+  onChange,
+  language,
+  defaultMaxResponseTokens,
+  disabled = false,
+}: VoiceSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [voices, setVoices] = useState<Record<VoiceProviderId, VoiceOption[]> | null>(null);
+  const [previewState, setPreviewState] = useState<"idle" | "loading" | "playing">("idle");
+  const [status, setStatus] = useState<string | null>(null);
+  const [tokenDraft, setTokenDraft] = useState(settings.maxResponseTokens?.toString() ?? "");
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Bumped on every stop, so a preview that finishes loading after Stop is dropped
+  const previewIdRef = useRef(0);
+
+  const sessionLanguage = getSessionLanguage(language);
+  const defaultVoice = provider === "gemini" ? sessionLanguage.geminiVoice : sessionLanguage.openAiVoice;
+  const providerVoices = voices?.[provider] ?? [];
+
+  useEffect(() => {
+    if (!isOpen || voices) return;
+    let cancelled = false;
+    listVoices()
+      .then((result) => {
+        if (!cancelled) setVoices(result);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setStatus(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, voices]);
+
+  useEffect(() => {
+    setTokenDraft(settings.maxResponseTokens?.toString() ?? "");
+  }, [settings.maxResponseTokens]);
+
+  const stopPreview = useCallback(() => {
+    previewIdRef.current += 1;
+    const audio = audioRef.current;
+    audioRef.current = null;
+    setPreviewState("idle");
+    if (!audio) return;
+    audio.pause();
+    URL.revokeObjectURL(audio.src);
+  }, []);
+
+  useEffect(() => stopPreview, [stopPreview]);
+
+  const handlePreview = useCallback(async () => {
+    stopPreview();
+    setPreviewState("loading");
+    setStatus(null);
+    const previewId = previewIdRef.current;
+    try {
+      const clip = await previewVoice({
+        provider,
+        voice: settings.voice ?? defaultVoice,
+        text: sessionLanguage.previewText,
+        speed: getSpeechPace(settings.pace).speed,
+      });
+      if (previewId !== previewIdRef.current) return;
+      const audio = new Audio(URL.createObjectURL(clip));
+      audioRef.current = audio;
+      audio.onended = stopPreview;
+      await audio.play();
+      setPreviewState("playing");
+    } catch (previewError) {
+      if (previewId !== previewIdRef.current) return;
+      stopPreview();
+      setStatus(previewError instanceof Error ? previewError.message : String(previewError));
+    }
+  }, [provider, settings.voice, settings.pace, defaultVoice, sessionLanguage.previewText, stopPreview]);
+
+  const commitTokenDraft = () => {
+    const parsed = Number.parseInt(tokenDraft, 10);
+    if (!tokenDraft.trim() || Number.isNaN(parsed)) {
+      onChange({ maxResponseTokens: undefined });
+      return;
+    }
+    onChange({ maxResponseTokens: Math.min(Math.max(parsed, MIN_RESPONSE_TOKENS), MAX_RESPONSE_TOKENS) });
+  };
+
+  const smallButtonClassName =
+    "h-8 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs font-medium flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+  const fieldClassName =
+    "w-full px-3 py-2 bg-neutral-800/50 rounded-lg border border-white/10 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-50";
+
+  return (
+    <div className="space-y-2">
+      <button onClick={() => setIsOpen(!isOpen)} className={smallButtonClassName}>
+        <SlidersHorizontal className="w-3.5 h-3.5" />
+        {isOpen ? "Hide voice settings" : "Voice settings"}
+      </button>
+
+      {isOpen && (
+        <div className="bg-neutral-800/30 rounded-xl border border-white/10 p-3 space-y-3">
+          <div className="space-y-1">
+            <label className="block text-xs text-neutral-400">Voice</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={settings.voice ?? ""}
+                onChange={(e) => onChange({ voice: e.target.value || undefined })}
+                disabled={disabled}
+                className={fieldClassName}
+              >
+                <option value="">Language default ({defaultVoice})</option>
+                {providerVoices.map((option) => (
+                  <option key={option.name} value={option.name}>
+                    {option.name} ({option.description})
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={previewState === "idle" ? handlePreview : stopPreview}
+                className={`${smallButtonClassName} shrink-0`}
+                title="Hear this voice at the chosen pace"
+              >
+                {previewState === "loading" ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : previewState === "playing" ? (
+                  <Square className="w-3.5 h-3.5" />
+                ) : (
+                  <Play className="w-3.5 h-3.5" />
+                )}
+                {previewState === "idle" ? "Preview" : "Stop"}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="block text-xs text-neutral-400">Speaking pace</label>
+              <select
+                value={settings.pace}
+                onChange={(e) => {
+                  if (isSpeechPaceId(e.target.value)) onChange({ pace: e.target.value });
+                }}
+                disabled={disabled}
+                className={fieldClassName}
+              >
+                {SPEECH_PACES.map((pace) => (
+                  <option key={pace.id} value={pace.id}>
+                    {pace.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-xs text-neutral-400">Reply token limit</label>
+              <input
+                type="number"
+                min={MIN_RESPONSE_TOKENS}
+                max={MAX_RESPONSE_TOKENS}
+                step={16}
+                value={tokenDraft}
+                onChange={(e) => setTokenDraft(e.target.value)}
+                onBlur={commitTokenDraft}
+                placeholder={`Mode default (${defaultMaxResponseTokens})`}
+                disabled={disabled}
+                className={fieldClassName}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            {provider === "gemini"
+              ? "Gemini Live has no speaking rate setting, so the pace is asked for in the tutor's instructions."
+              : "Lower token limits cut long replies short; the tutoring mode already keeps replies brief."}
+          </p>
+          {status && <p className="text-xs text-neutral-400">{status}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { PointerEvent, ReactNode, useCallback, useEffect, useRef, useState } from "react";
+import { Eraser, ImageUp } from "lucide-react";
+import type { ImageInput } from "../hooks/voice-session";
+import { MathRenderer } from "./MathRenderer";
+
+export type WhiteboardItemKind = "step" | "sketch";
+
+export interface WhiteboardItem {
+  /** "step": LaTeX the tutor wrote. "sketch": a drawing the student sent, as a data: URL. */
+  kind: WhiteboardItemKind;
+  content: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+}
+
+// Drawing resolution; the canvas is scaled to the panel width with CSS
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 400;
+const SKETCH_MIME_TYPE = "image/jpeg";
+const SKETCH_QUALITY = 0.8;
+
+export function sketchDataUrl(image: ImageInput): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+export function appendWhiteboardItem(items: WhiteboardItem[], kind: WhiteboardItemKind, content: string): WhiteboardItem[] {
+  return [...items, { kind, content, createdAt: Date.now() }];
+}
+
+interface WhiteboardItemsProps {
+  items: WhiteboardItem[];
+  emptyMessage?: ReactNode;
+  className?: string;
+}
+
+/** The board's history: tutor steps typeset with KaTeX and the student's sketches, oldest first. */
+export function WhiteboardItems({ items, emptyMessage, className = "h-48" }: WhiteboardItemsProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
+  }, [items]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className={`${className} overflow-y-auto overflow-x-hidden bg-neutral-800/30 rounded-xl border border-white/10 p-4 space-y-3`}
+    >
+      {items.length === 0 && emptyMessage && <p className="text-neutral-500 text-sm">{emptyMessage}</p>}
+      {items.map((item, i) =>
+        item.kind === "step" ? (
+          <div key={i} className="px-3 py-2 bg-neutral-700/40 rounded-lg">
+            <span className="text-xs font-mono text-indigo-300 opacity-70 block mb-1">Tutor</span>
+            <MathRenderer content={item.content} />
+          </div>
+        ) : (
+          <div key={i} className="flex flex-col items-end gap-1">
+            <span className="text-xs font-mono text-emerald-300 opacity-70">You</span>
+            <img src={item.content} alt="Student sketch" className="max-w-[85%] rounded-lg border border-white/10" />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+interface WhiteboardProps {
+  items: WhiteboardItem[];
+  onSendSketch: (image: ImageInput) => void;
+  disabled?: boolean;
+}
+
+/** Shared board: the tutor's written steps above a canvas the student can draw on and send. */
+export function Whiteboard({ items, onSendSketch, disabled = false }: WhiteboardProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [hasInk, setHasInk] = useState(false);
+
+  const clearCanvas = useCallback(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    // Paint the background rather than clearing, so the exported JPEG is not black
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasInk(false);
+  }, []);
+
+  useEffect(() => {
+    clearCanvas();
+  }, [clearCanvas]);
+
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = toCanvasPoint(e);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!last || !ctx) return;
+    const point = toCanvasPoint(e);
+    ctx.strokeStyle = "#111827";
+    ctx.lineWidth = 3;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    setHasInk(true);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleSend = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasInk || disabled) return;
+    const dataUrl = canvas.toDataURL(SKETCH_MIME_TYPE, SKETCH_QUALITY);
+    onSendSketch({ mimeType: SKETCH_MIME_TYPE, data: dataUrl.slice(dataUrl.indexOf(",") + 1) });
+    clearCanvas();
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0">
+      <WhiteboardItems items={items} emptyMessage="Steps the tutor writes will appear here." className="h-40" />
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full aspect-[2/1] rounded-xl border border-white/10 touch-none ${
+          disabled ? "opacity-50 cursor-not-allowed" : "cursor-crosshair"
+        }`}
+      />
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={clearCanvas}
+          disabled={!hasInk}
+          className="h-9 px-3 rounded-xl bg-neutral-800 hover:bg-neutral-700 text-sm flex items-center gap-2 disabled:text-neutral-500 disabled:cursor-not-allowed"
+        >
+          <Eraser className="w-4 h-4" />
+          Clear
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={!hasInk || disabled}
+          className="h-9 px-3 rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white text-sm flex items-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+        >
+          <ImageUp className="w-4 h-4" />
+          Send to tutor
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { AnswerCheckResult, checkAnswer } from "../math/answer-check";
+import { CHECK_ANSWER_TOOL, DISPLAY_TEXT_TOOL, WHITEBOARD_TOOL } from "../prompts/math-tutor";
+
+/** What a tool needs from the session it runs in. */
+export interface TutorToolContext {
+  /** Stored correct answer for the current problem; read per call, since a session can move on to another problem. */
+  getAnswer: () => string;
+  /** Reports every checked answer to the current problem, right or wrong. */
+  onAnswerChecked: (result: AnswerCheckResult) => void;
+  /** Shows the written form of the tutor's reply in the conversation. */
+  showText: (text: string) => void;
+  /** Adds a LaTeX step to the shared whiteboard. */
+  addWhiteboardStep: (latex: string) => void;
+}
+
+export interface TutorToolDeclaration {
+  name: string;
+  description: string;
+  parameters: object;
+}
+
+export interface TutorTool {
+  declaration: TutorToolDeclaration;
+  /**
+   * The model keeps speaking while the call runs and is not prompted by the
+   * result; for side-channel tools whose output the model does not need.
+   */
+  silent: boolean;
+  run: (args: Record<string, unknown>, context: TutorToolContext) => Record<string, unknown>;
+}
+
+/** Every function the tutor model can call, in the order they are declared to the provider. */
+export const TUTOR_TOOLS: readonly TutorTool[] = [
+  {
+    declaration: DISPLAY_TEXT_TOOL,
+    silent: true,
+    run: (args, { showText }) => {
+      if (typeof args.text !== "string") return { error: "text must be a string." };
+      showText(args.text);
+      return { result: "shown" };
+    },
+  },
+  {
+    declaration: CHECK_ANSWER_TOOL,
+    silent: false,
+    run: (args, { getAnswer, onAnswerChecked }) => {
+      if (typeof args.studentAnswer !== "string" || !args.studentAnswer.trim()) {
+        return { error: "studentAnswer must be the student's answer as a non-empty string." };
+      }
+      const result = checkAnswer(args.studentAnswer, getAnswer());
+      onAnswerChecked(result);
+      return { ...result };
+    },
+  },
+  {
+    declaration: WHITEBOARD_TOOL,
+    silent: true,
+    run: (args, { addWhiteboardStep }) => {
+      if (typeof args.latex !== "string" || !args.latex.trim()) return { error: "latex must be a non-empty string." };
+      addWhiteboardStep(args.latex.trim());
+      return { result: "written" };
+    },
+  },
+];
+
+export function isSilentTutorTool(name: string): boolean {
+  return TUTOR_TOOLS.find((tool) => tool.declaration.name === name)?.silent ?? false;
+}
+
+/** Runs one function call from the model and returns the response to send back. Never throws. */
+export function runTutorTool(name: string, args: unknown, context: TutorToolContext): Record<string, unknown> {
+  const tool = TUTOR_TOOLS.find((candidate) => candidate.declaration.name === name);
+  if (!tool) return { error: `Unknown function ${name}.` };
+  try {
+    return tool.run(args && typeof args === "object" ? (args as Record<string, unknown>) : {}, context);
+  } catch (err) {
+    console.warn(`Tutor tool ${name} failed:`, err);
+    return { error: `${name} failed.` };
+  }
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ClassroomCommand, ClassroomReport, classroomSocketUrl } from "../api/classroom";
+import { useTalkback } from "./use-talkback";
+
+// The dashboard is a convenience; a lost report socket is retried at a fixed, unhurried pace
+const RECONNECT_DELAY_MS = 3000;
+// Reports wait here while the socket is (re)connecting; beyond this the oldest are dropped
+const MAX_QUEUED_REPORTS = 500;
+
+/** Who the student is comes from their sign-in; the page only says which provider it uses. */
+export interface ClassroomIdentity {
+  provider: string;
+}
+
+/** What the teacher asks of the running session; the talk audio itself is handled here. */
+export interface ClassroomCommandHandlers {
+  onWhisper: (text: string) => void;
+  onPause: (paused: boolean) => void;
+}
+
+/**
+ * Streams a tutoring session to the teacher dashboard while `active`: one
+ * live session per activation, reported over a WebSocket that is reopened
+ * if it drops. The same socket carries the teacher's commands back, and
+ * both sides' audio while the teacher talks to the student directly.
+ * `report` is a no-op while inactive.
+ */
+export function useClassroomReporter(active: boolean, identity: ClassroomIdentity, handlers: ClassroomCommandHandlers) {
+  const [isTeacherTalking, setIsTeacherTalking] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const queueRef = useRef<ClassroomReport[]>([]);
+  const activeRef = useRef(active);
+  activeRef.current = active;
+  const identityRef = useRef(identity);
+  identityRef.current = identity;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Talk audio is live, so frames are dropped rather than queued while the socket is down
+  const sendAudio = useCallback((data: string) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "audio", data }));
+  }, []);
+  const { play: playTeacherAudio, error: talkError } = useTalkback(active && isTeacherTalking, sendAudio);
+
+  useEffect(() => {
+    if (!active) return;
+    const sessionId = crypto.randomUUID();
+    let stopped = false;
+    let retryTimer: number | undefined;
+
+    const handleCommand = (command: ClassroomCommand) => {
+      switch (command.type) {
+        case "whisper":
+          handlersRef.current.onWhisper(command.text);
+          break;
+        case "pause":
+          handlersRef.current.onPause(command.paused);
+          break;
+        case "talk":
+          setIsTeacherTalking(command.active);
+          break;
+        case "teacher-audio":
+          playTeacherAudio(command.data);
+          break;
+      }
+    };
+
+    const open = () => {
+      const socket = new WebSocket(classroomSocketUrl());
+      socketRef.current = socket;
+      socket.onopen = () => {
+        // The same id on a reopened socket continues the session on the dashboard
+        socket.send(JSON.stringify({ type: "hello", sessionId, ...identityRef.current }));
+        for (const queued of queueRef.current) socket.send(JSON.stringify(queued));
+        queueRef.current = [];
+      };
+      socket.onmessage = (event) => {
+        let command: ClassroomCommand;
+        try {
+          command = JSON.parse(String(event.data));
+        } catch {
+          return;
+        }
+        handleCommand(command);
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        // The server ends the talk when this socket goes away
+        setIsTeacherTalking(false);
+        if (!stopped) retryTimer = window.setTimeout(open, RECONNECT_DELAY_MS);
+      };
+    };
+    open();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(retryTimer);
+      queueRef.current = [];
+      setIsTeacherTalking(false);
+      const socket = socketRef.current;
+      socketRef.current = null;
+      if (!socket) return;
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "end" }));
+      socket.close();
+    };
+  }, [active, playTeacherAudio]);
+
+  const report = useCallback((event: ClassroomReport) => {
+    if (!activeRef.current) return;
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+      return;
+    }
+    queueRef.current.push(event);
+    if (queueRef.current.length > MAX_QUEUED_REPORTS) queueRef.current.shift();
+  }, []);
+
+  return { report, isTeacherTalking, talkError };
+}
@@ -1,54 +1,211 @@
 import { useRef, useState, useCallback } from "react";
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-import { buildMathTutorSystemInstruction } from "../prompts/math-tutor";
-
-const API_KEY = process.env.GEMINI_API_KEY as string;
-const MODEL = "gemini-2.5-flash-native-audio-preview-09-2025";
-
-export interface ConnectConfig {
-  question: string;
-  answer: string;
-  wrongAnswer?: string;
-  onUserTranscript?: (text: string) => void;
-  onAgentTranscript?: (text: string) => void;
+import {
+  Behavior,
+  EndSensitivity,
+  FunctionResponseScheduling,
+  GoogleGenAI,
+  LiveServerMessage,
+  Modality,
+  RealtimeInputConfig,
+  StartSensitivity,
+} from "@google/genai";
+import { PcmPlayer, createPcmCapture, createPcmPlayer, loadPcmWorklets } from "../audio/pcm-worklets";
+import { getSessionLanguage } from "../prompts/languages";
+import {
+  MathTutorPromptOptions,
+  ProblemAdvanceReason,
+  ProblemPosition,
+  buildGreetingTrigger,
+  buildMathTutorSystemInstruction,
+  buildProblemTransitionTrigger,
+  buildTeacherNoteTurn,
+  buildTutorResumeTrigger,
+  getTutorMode,
+} from "../prompts/math-tutor";
+import { TUTOR_TOOLS, TutorToolContext, isSilentTutorTool, runTutorTool } from "./tutor-tools";
+import {
+  ConnectConfig,
+  ConversationRole,
+  DEFAULT_TURN_DETECTION,
+  ImageInput,
+  SemanticVadEagerness,
+  TurnDetectionSettings,
+  TutorProblem,
+  VoiceTutorSession,
+  useConversationHistory,
+  useReconnectBackoff,
+  useVoiceSessionLifecycle,
+} from "./voice-session";
+
+const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Live cannot change a session's system instruction once it is set up, so a new
+ * problem arrives as a client turn that carries the replacement instruction.
+ */
+function buildInstructionUpdateTurn(systemInstruction: string, trigger: string): string {
+  return `INSTRUCTION UPDATE: The instructions below replace your earlier system instructions for the rest of this session.
+
+${systemInstruction}
+
+${trigger}`;
 }
 
-export interface UseLiveApiResult {
-  connect: (config: ConnectConfig) => Promise<void>;
-  disconnect: () => void;
-  isConnected: boolean;
-  isConnecting: boolean;
-  error: Error | null;
-  inputAnalyser: AnalyserNode | null;
-  outputAnalyser: AnalyserNode | null;
+// Live has no semantic VAD; the closest it gets is ending turns less readily after a pause
+const SEMANTIC_SILENCE_MS: Record<SemanticVadEagerness, number | undefined> = {
+  low: 1500,
+  medium: 800,
+  high: undefined,
+  auto: undefined,
+};
+
+/** Live's activity detection for a turn-taking setting; push to talk disables it and sends activity signals. */
+function toGeminiRealtimeInputConfig(settings: TurnDetectionSettings): RealtimeInputConfig {
+  switch (settings.mode) {
+    case "server-vad":
+      // Live only has two sensitivity levels, so the threshold picks one
+      return {
+        automaticActivityDetection: {
+          startOfSpeechSensitivity:
+            settings.threshold < 0.5 ? StartSensitivity.START_SENSITIVITY_HIGH : StartSensitivity.START_SENSITIVITY_LOW,
+          silenceDurationMs: settings.silenceDurationMs,
+        },
+      };
+    case "semantic-vad":
+      return {
+        automaticActivityDetection: {
+          endOfSpeechSensitivity:
+            settings.eagerness === "high" ? EndSensitivity.END_SENSITIVITY_HIGH : EndSensitivity.END_SENSITIVITY_LOW,
+          silenceDurationMs: SEMANTIC_SILENCE_MS[settings.eagerness],
+        },
+      };
+    case "push-to-talk":
+      return { automaticActivityDetection: { disabled: true } };
+  }
 }
 
-export function useLiveApi(): UseLiveApiResult {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+interface GeminiSessionResponse {
+  token: string;
+  model: string;
+  /** Set when the server runs in mock mode; points the SDK at the local Live socket. */
+  baseUrl?: string;
+}
+
+export function useLiveApi(): VoiceTutorSession {
+  const {
+    state,
+    error,
+    model: activeModel,
+    setModel,
+    eventsRef,
+    updateState,
+    reportError,
+    resetError,
+    isConnected,
+    isConnecting,
+    isReconnecting,
+  } = useVoiceSessionLifecycle();
+  const { append: appendHistory, trimLastAgentTurn, clear: clearHistory, getTurns } = useConversationHistory();
+  const { schedule: scheduleReconnect, reset: resetReconnect, cancel: cancelReconnect } = useReconnectBackoff();
+  const [isMicMuted, setIsMicMuted] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isTutorPaused, setIsTutorPaused] = useState(false);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const inputProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
+  const playerRef = useRef<PcmPlayer | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   const sessionRef = useRef<any>(null);
-  const nextScheduledTimeRef = useRef<number>(0);
+  // Bumped whenever a session is replaced or closed, so callbacks from the old socket are ignored
+  const connectionIdRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  // Transcript and queued frame range of the current agent turn, used to work out what was heard
+  const agentPlaybackRef = useRef<{ text: string; startFrame: number | null; endFrame: number }>({
+    text: "",
+    startFrame: null,
+    endFrame: 0,
+  });
   const greetingSentRef = useRef<boolean>(false);
+  // Read from the audio callback, which cannot see React state updates
+  const micMutedRef = useRef<boolean>(false);
+  const activeTurnRef = useRef<ConversationRole | null>(null);
+  const turnDetectionRef = useRef<TurnDetectionSettings>(DEFAULT_TURN_DETECTION);
+  // Read from the audio callback: in push-to-talk mode audio is only sent while this is set
+  const talkingRef = useRef(false);
+  // Everything the instruction is built from; the problem fields change when the session moves on
+  const promptOptionsRef = useRef<MathTutorPromptOptions | null>(null);
+  const pendingProblemRef = useRef<{
+    problem: TutorProblem;
+    position: ProblemPosition;
+    reason: ProblemAdvanceReason;
+  } | null>(null);
+  const problemSolvedRef = useRef(false);
+  // A blocking tool result was sent; the tutor still has to speak about it before its turn completes
+  const awaitingToolReplyRef = useRef(false);
+  // Read from the audio and message callbacks: while set the tutor neither hears nor is heard
+  const tutorPausedRef = useRef(false);
 
   // Initialize AudioContext
   const ensureAudioContext = useCallback(() => {
     if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000, // Request 16kHz if possible
-      });
+      // Native rate: the worklets resample to 16 kHz for capture and from 24 kHz for playback
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
     }
     return audioContextRef.current;
   }, []);
 
+  // Gemini has no explicit turn-start events, so infer them from which side is producing content
+  const beginTurn = useCallback((role: ConversationRole) => {
+    if (activeTurnRef.current === role) return;
+    if (activeTurnRef.current) {
+      eventsRef.current.onTurnEnd?.(activeTurnRef.current);
+    }
+    activeTurnRef.current = role;
+    eventsRef.current.onTurnStart?.(role);
+  }, [eventsRef]);
+
+  const endTurn = useCallback((role: ConversationRole) => {
+    if (activeTurnRef.current !== role) return;
+    activeTurnRef.current = null;
+    eventsRef.current.onTurnEnd?.(role);
+  }, [eventsRef]);
+
+  const resetAgentPlayback = useCallback(() => {
+    agentPlaybackRef.current = { text: "", startFrame: null, endFrame: 0 };
+  }, []);
+
+  /** Drops all queued audio and returns the part of the agent transcript that actually played. */
+  const flushPlayback = useCallback((): string => {
+    const player = playerRef.current;
+    if (!player) {
+      resetAgentPlayback();
+      return "";
+    }
+    const { playedFrames } = player.getStats();
+    player.clear();
+
+    const { text, startFrame, endFrame } = agentPlaybackRef.current;
+    let heardText = text;
+    if (startFrame !== null && endFrame > startFrame) {
+      const heardFraction = Math.min(1, Math.max(0, (playedFrames - startFrame) / (endFrame - startFrame)));
+      const cut = Math.round(text.length * heardFraction);
+      // Snap back to a word boundary so the bubble never ends mid-word
+      const boundary = text.lastIndexOf(" ", cut);
+      heardText = cut >= text.length ? text : text.slice(0, boundary > 0 ? boundary : cut).trimEnd();
+    }
+
+    resetAgentPlayback();
+    return heardText;
+  }, [resetAgentPlayback]);
+
   const disconnect = useCallback(() => {
+    cancelReconnect();
+    connectionIdRef.current += 1;
+    resumeHandleRef.current = null;
+    flushPlayback();
     if (sessionRef.current) {
       try {
         sessionRef.current.close();
@@ -57,10 +214,24 @@ export function useLiveApi(): UseLiveApiResult {
       }
     }
     sessionRef.current = null;
-
-    if (inputProcessorRef.current) {
-      inputProcessorRef.current.disconnect();
-      inputProcessorRef.current = null;
+    activeTurnRef.current = null;
+    micMutedRef.current = false;
+    talkingRef.current = false;
+    promptOptionsRef.current = null;
+    pendingProblemRef.current = null;
+    awaitingToolReplyRef.current = false;
+    tutorPausedRef.current = false;
+    setIsTalking(false);
+    setIsTutorPaused(false);
+
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
+    }
+    if (playerRef.current) {
+      playerRef.current.dispose();
+      playerRef.current = null;
     }
     if (inputSourceRef.current) {
       inputSourceRef.current.disconnect();
@@ -71,198 +242,577 @@ export function useLiveApi(): UseLiveApiResult {
       mediaStreamRef.current = null;
     }
 
-    setIsConnected(false);
-    setIsConnecting(false);
+    updateState("idle");
+    setIsMicMuted(false);
+  }, [updateState, flushPlayback, cancelReconnect]);
+
+  const setMuted = useCallback((muted: boolean) => {
+    const stream = mediaStreamRef.current;
+    if (!stream) return;
+    const wasMuted = micMutedRef.current;
+    micMutedRef.current = muted;
+    stream.getAudioTracks().forEach((track) => {
+      track.enabled = !muted;
+    });
+    setIsMicMuted(muted);
+
+    // Tell Gemini the stream paused so it flushes cached audio instead of waiting for more
+    if (muted && !wasMuted && sessionRef.current) {
+      try {
+        sessionRef.current.sendRealtimeInput({ audioStreamEnd: true });
+      } catch (e) {
+        console.warn("Error sending audioStreamEnd", e);
+      }
+    }
   }, []);
 
-  const connect = useCallback(async (config: ConnectConfig) => {
-    if (isConnected || isConnecting) return;
-    setIsConnecting(true);
-    setError(null);
+  const sendText = useCallback((text: string) => {
+    const session = sessionRef.current;
+    const trimmed = text.trim();
+    if (!session || !trimmed || tutorPausedRef.current) return false;
+    appendHistory("user", `${trimmed} `);
+    // A complete client turn interrupts any reply in progress, just as speech would
+    session.sendClientContent({
+      turns: [{ role: "user", parts: [{ text: trimmed }] }],
+      turnComplete: true,
+    });
+    return true;
+  }, [appendHistory]);
+
+  const sendImage = useCallback((image: ImageInput, text: string) => {
+    const session = sessionRef.current;
+    if (!session || !text.trim() || tutorPausedRef.current) return false;
+    // The image rides the realtime stream as a video frame; the typed turn then asks the tutor to look at it
+    session.sendRealtimeInput({ video: { mimeType: image.mimeType, data: image.data } });
+    return sendText(text);
+  }, [sendText]);
+
+  /** Swaps in the waiting problem with one context turn; the tutor replies by introducing it. */
+  const applyPendingProblem = useCallback(() => {
+    const pending = pendingProblemRef.current;
+    const options = promptOptionsRef.current;
+    const session = sessionRef.current;
+    // A paused tutor introduces the next problem once it is resumed
+    if (!pending || !options || !session || tutorPausedRef.current) return;
+    pendingProblemRef.current = null;
+    problemSolvedRef.current = false;
+    const { problem, position, reason } = pending;
+    const nextOptions: MathTutorPromptOptions = {
+      ...options,
+      question: problem.question,
+      answer: problem.answer,
+      wrongAnswer: problem.wrongAnswer,
+      position,
+    };
+    promptOptionsRef.current = nextOptions;
+
+    // Not added to the history: a replacement session gets the current instruction as its system instruction
+    const trigger = buildProblemTransitionTrigger({
+      position,
+      reason,
+      language: options.language,
+      bilingual: options.bilingual,
+    });
+    session.sendClientContent({
+      turns: [
+        {
+          role: "user",
+          parts: [{ text: buildInstructionUpdateTurn(buildMathTutorSystemInstruction(nextOptions), trigger) }],
+        },
+      ],
+      turnComplete: true,
+    });
+  }, []);
 
-    const { question, answer, wrongAnswer, onUserTranscript, onAgentTranscript } = config;
-    greetingSentRef.current = false;
+  const advanceProblem = useCallback(
+    (problem: TutorProblem, position: ProblemPosition, reason: ProblemAdvanceReason) => {
+      pendingProblemRef.current = { problem, position, reason };
+      // Otherwise applied when the tutor's turn completes, after it has spoken about any answer check
+      if (activeTurnRef.current !== "agent" && !awaitingToolReplyRef.current) applyPendingProblem();
+    },
+    [applyPendingProblem]
+  );
+
+  const whisper = useCallback((note: string) => {
+    const options = promptOptionsRef.current;
+    const trimmed = note.trim();
+    if (!options || !trimmed) return;
+    // Kept in the instruction so a replacement session and later problems still follow it
+    promptOptionsRef.current = { ...options, teacherNotes: [...(options.teacherNotes ?? []), trimmed] };
+    // An incomplete turn only adds context; the tutor takes it into account in its next reply
+    sessionRef.current?.sendClientContent({
+      turns: [{ role: "user", parts: [{ text: buildTeacherNoteTurn(trimmed) }] }],
+      turnComplete: false,
+    });
+  }, []);
 
-    try {
-      const ctx = ensureAudioContext();
-      if (ctx.state === "suspended") {
-        await ctx.resume();
+  const setTutorPaused = useCallback((paused: boolean) => {
+    if (tutorPausedRef.current === paused) return;
+    tutorPausedRef.current = paused;
+    setIsTutorPaused(paused);
+    const session = sessionRef.current;
+
+    if (paused) {
+      // Live cannot cancel a reply; whatever the tutor still says is dropped as it arrives
+      if (activeTurnRef.current === "agent") {
+        const heardText = flushPlayback();
+        trimLastAgentTurn(heardText);
+        eventsRef.current.onInterrupted?.({ heardText });
+      } else {
+        flushPlayback();
+      }
+      if (activeTurnRef.current) endTurn(activeTurnRef.current);
+      talkingRef.current = false;
+      setIsTalking(false);
+      if (session) {
+        try {
+          session.sendRealtimeInput({ audioStreamEnd: true });
+        } catch (e) {
+          console.warn("Error sending audioStreamEnd", e);
+        }
       }
+      return;
+    }
 
-      // 1. Setup Input (Microphone)
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: 16000,
+    const options = promptOptionsRef.current;
+    if (!session || !options) return;
+    if (pendingProblemRef.current) {
+      applyPendingProblem();
+      return;
+    }
+    session.sendClientContent({
+      turns: [
+        {
+          role: "user",
+          parts: [{ text: buildTutorResumeTrigger({ language: options.language, bilingual: options.bilingual }) }],
         },
-      });
-      mediaStreamRef.current = stream;
-
-      const inputSource = ctx.createMediaStreamSource(stream);
-      inputSourceRef.current = inputSource;
-
-      const inputAnalyser = ctx.createAnalyser();
-      inputAnalyser.fftSize = 256;
-      inputAnalyser.smoothingTimeConstant = 0.8;
-      inputSource.connect(inputAnalyser);
-      inputAnalyserRef.current = inputAnalyser;
-
-      // Processor to capture audio data
-      // Buffer size 512 -> 32ms latency at 16kHz
-      const processor = ctx.createScriptProcessor(512, 1, 1);
-      inputProcessorRef.current = processor;
-
-      inputAnalyser.connect(processor);
-      processor.connect(ctx.destination); // ScriptProcessor needs to be connected to output to fire events
-
-      // 2. Setup Output Analyser (for visualizer)
-      const outputAnalyser = ctx.createAnalyser();
-      outputAnalyser.fftSize = 256;
-      outputAnalyser.smoothingTimeConstant = 0.8;
-      outputAnalyserRef.current = outputAnalyser;
+      ],
+      turnComplete: true,
+    });
+  }, [eventsRef, flushPlayback, trimLastAgentTurn, endTurn, applyPendingProblem]);
+
+  const startTalking = useCallback(() => {
+    const session = sessionRef.current;
+    if (
+      turnDetectionRef.current.mode !== "push-to-talk" ||
+      talkingRef.current ||
+      !session ||
+      tutorPausedRef.current
+    ) {
+      return;
+    }
+    talkingRef.current = true;
+    setIsTalking(true);
+    // Activity start interrupts a reply on the server; audio already queued here has to go too
+    if (activeTurnRef.current === "agent") {
+      const heardText = flushPlayback();
+      trimLastAgentTurn(heardText);
+      eventsRef.current.onInterrupted?.({ heardText });
+    } else {
+      flushPlayback();
+    }
+    session.sendRealtimeInput({ activityStart: {} });
+    beginTurn("user");
+  }, [eventsRef, flushPlayback, trimLastAgentTurn, beginTurn]);
+
+  const stopTalking = useCallback(() => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setIsTalking(false);
+    // The transcript and reply follow; the agent's first output ends the student's turn
+    sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+  }, []);
 
-      // 3. Connect to Gemini
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const getPlaybackStats = useCallback(() => playerRef.current?.getStats() ?? null, []);
 
-      // Reset scheduling
-      nextScheduledTimeRef.current = ctx.currentTime + 0.1;
+  const toggleMute = useCallback(() => {
+    setMuted(!isMicMuted);
+  }, [isMicMuted, setMuted]);
 
-      const systemInstruction = buildMathTutorSystemInstruction(question, answer, wrongAnswer);
+  const connect = useCallback(async (config: ConnectConfig) => {
+    if (isConnected || isConnecting || isReconnecting) return;
+    eventsRef.current = config;
+    updateState("connecting");
+    resetError();
+    setModel(null);
+
+    const { question, answer, wrongAnswer, mode, language, bilingual, pace, position, studentSummary } = config;
+    promptOptionsRef.current = {
+      question,
+      answer,
+      wrongAnswer,
+      mode,
+      language,
+      bilingual,
+      pace,
+      position,
+      studentSummary,
+    };
+    pendingProblemRef.current = null;
+    problemSolvedRef.current = false;
+    awaitingToolReplyRef.current = false;
+    tutorPausedRef.current = false;
+    setIsTutorPaused(false);
+    greetingSentRef.current = false;
+    activeTurnRef.current = null;
+    resumeHandleRef.current = null;
+    talkingRef.current = false;
+    turnDetectionRef.current = config.turnDetection ?? DEFAULT_TURN_DETECTION;
+    resetAgentPlayback();
+    clearHistory();
+    resetReconnect();
+    const tutorMode = getTutorMode(mode);
+    const voice = config.voice ?? getSessionLanguage(language).geminiVoice;
+    const maxResponseTokens = config.maxResponseTokens ?? tutorMode.maxResponseTokens;
+    const greetingTrigger = buildGreetingTrigger({ mode, language, bilingual });
+    const toolContext: TutorToolContext = {
+      getAnswer: () => promptOptionsRef.current?.answer ?? answer,
+      onAnswerChecked: (result) => {
+        // Nothing more is reported for a solved problem, or for the old one while a switch is waiting
+        if (problemSolvedRef.current || pendingProblemRef.current) return;
+        eventsRef.current.onAnswerChecked?.(result);
+        if (result.correct !== true) return;
+        problemSolvedRef.current = true;
+        eventsRef.current.onProblemSolved?.();
+      },
+      showText: (text) => {
+        if (tutorPausedRef.current) return;
+        beginTurn("agent");
+        eventsRef.current.onAgentText?.(text);
+      },
+      addWhiteboardStep: (latex) => eventsRef.current.onWhiteboardStep?.(latex),
+    };
+
+    // Opens a Live session on the existing audio graph; used for the first connect and every reconnect
+    const openSession = async () => {
+      const connectionId = ++connectionIdRef.current;
+      const player = playerRef.current!;
+      const resumeHandle = resumeHandleRef.current;
+      // Built from the current problem, which after a reconnect may be a later one in the set
+      const systemInstruction = buildMathTutorSystemInstruction(promptOptionsRef.current!);
+
+      // Fetch a short-lived token so the Gemini API key never reaches the browser
+      // The server locks the voice and reply length into the token's constraints
+      const sessionResp = await fetch("/api/gemini/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ voice, maxResponseTokens }),
+      });
+      if (!sessionResp.ok) {
+        const errorText = await sessionResp.text();
+        throw new Error(`Failed to get Gemini session token: ${errorText}`);
+      }
+      const { token, model, baseUrl } = (await sessionResp.json()) as GeminiSessionResponse;
+      // A superseded attempt must not report its model over the current session's
+      if (connectionId !== connectionIdRef.current) return;
+      setModel(model);
+
+      // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+      const ai = new GoogleGenAI({
+        apiKey: token,
+        httpOptions: {
+          apiVersion: "v1alpha",
+          ...(baseUrl ? { baseUrl: new URL(baseUrl, window.location.origin).toString() } : {}),
+        },
+      });
 
       const session = await ai.live.connect({
-        model: MODEL,
+        model,
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: "Zephyr" } },
+            // Native audio models pick the spoken language from the instruction; they take no language code
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
           },
+          // Live has no speaking rate setting; the pace is asked for in the system instruction
           systemInstruction,
+          maxOutputTokens: maxResponseTokens,
+          realtimeInputConfig: toGeminiRealtimeInputConfig(turnDetectionRef.current),
+          // Transcribes whatever language is spoken; Live has no transcription language setting
           inputAudioTranscription: {},
           outputAudioTranscription: {},
+          tools: [
+            {
+              functionDeclarations: TUTOR_TOOLS.map(({ declaration, silent }) => ({
+                name: declaration.name,
+                description: declaration.description,
+                parametersJsonSchema: declaration.parameters,
+                // Silent tools run alongside speech; the rest hold the reply until their result arrives
+                behavior: silent ? Behavior.NON_BLOCKING : Behavior.BLOCKING,
+              })),
+            },
+          ],
+          // Ask for resumption handles so a dropped socket can pick up the same conversation
+          sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
         },
         callbacks: {
           onopen: () => {
             console.log("Gemini Live Connected");
-            setIsConnected(true);
-            setIsConnecting(false);
           },
           onmessage: (msg: LiveServerMessage) => {
-            // Send trigger once when setup is complete (server is ready to accept content)
-            if (msg.setupComplete && !greetingSentRef.current) {
-              greetingSentRef.current = true;
-              session.sendClientContent({
-                turns: { role: "user", parts: [{ text: "The student is ready. Introduce yourself and ask what they need to solve the question." }] },
-                turnComplete: true,
+            if (connectionId !== connectionIdRef.current) return;
+
+            if (msg.setupComplete) {
+              updateState("connected");
+              resetReconnect();
+              if (!greetingSentRef.current) {
+                // Send trigger once when setup is complete (server is ready to accept content)
+                greetingSentRef.current = true;
+                session.sendClientContent({
+                  turns: { role: "user", parts: [{ text: greetingTrigger }] },
+                  turnComplete: true,
+                });
+              } else if (!resumeHandle) {
+                // No handle to resume from: hand the new session the conversation so far, then wait for the student
+                const turns = getTurns();
+                if (turns.length > 0) {
+                  session.sendClientContent({
+                    turns: turns.map((turn) => ({
+                      role: turn.role === "agent" ? "model" : "user",
+                      parts: [{ text: turn.text }],
+                    })),
+                    turnComplete: false,
+                  });
+                }
+              }
+              // A switch that was waiting when the connection dropped
+              applyPendingProblem();
+            }
+            if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+              resumeHandleRef.current = msg.sessionResumptionUpdate.newHandle;
+            }
+            if (msg.goAway) {
+              // The server is about to close this socket; move to a fresh one rather than wait for the drop
+              handleConnectionLost();
+              return;
+            }
+
+            const functionCalls = msg.toolCall?.functionCalls ?? [];
+            if (functionCalls.length > 0) {
+              if (functionCalls.some((call) => !isSilentTutorTool(call.name ?? ""))) {
+                awaitingToolReplyRef.current = true;
+              }
+              session.sendToolResponse({
+                functionResponses: functionCalls.map((call) => ({
+                  id: call.id,
+                  name: call.name,
+                  response: runTutorTool(call.name ?? "", call.args, toolContext),
+                  // Acknowledge side-channel calls without prompting another turn
+                  ...(isSilentTutorTool(call.name ?? "") ? { scheduling: FunctionResponseScheduling.SILENT } : {}),
+                })),
               });
             }
+
             // Handle transcriptions
             const serverContent = msg.serverContent;
-            if (serverContent?.outputTranscription?.text) {
-              onAgentTranscript?.(serverContent.outputTranscription.text);
-            }
             if (serverContent?.inputTranscription?.text) {
-              onUserTranscript?.(serverContent.inputTranscription.text);
+              beginTurn("user");
+              appendHistory("user", serverContent.inputTranscription.text);
+              eventsRef.current.onUserTranscript?.(serverContent.inputTranscription.text);
+            }
+            if (serverContent?.outputTranscription?.text && !tutorPausedRef.current) {
+              beginTurn("agent");
+              agentPlaybackRef.current.text += serverContent.outputTranscription.text;
+              appendHistory("agent", serverContent.outputTranscription.text);
+              eventsRef.current.onAgentTranscript?.(serverContent.outputTranscription.text);
             }
 
             // Handle Audio Output
             const data = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (data) {
-              // Decode Base64 to Int16
-              const binaryString = atob(data);
-              const len = binaryString.length;
-              const bytes = new Uint8Array(len);
-              for (let i = 0; i < len; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-              }
-              const int16 = new Int16Array(bytes.buffer);
-
-              // Convert Int16 to Float32
-              const float32 = new Float32Array(int16.length);
-              for (let i = 0; i < int16.length; i++) {
-                float32[i] = int16[i] / 32768.0;
-              }
-
-              // Play Audio
-              const buffer = ctx.createBuffer(1, float32.length, 24000); // Gemini output is usually 24kHz
-              buffer.getChannelData(0).set(float32);
-
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-
-              // Connect to analyser then destination
-              source.connect(outputAnalyser);
-              outputAnalyser.connect(ctx.destination);
+            if (data && !tutorPausedRef.current) {
+              beginTurn("agent");
+              const playback = agentPlaybackRef.current;
+              if (playback.startFrame === null) playback.startFrame = player.getStats().queuedFrames;
+              player.enqueue(data);
+              playback.endFrame = player.getStats().queuedFrames;
+            }
 
-              // Schedule playback
-              const now = ctx.currentTime;
-              const start = Math.max(now, nextScheduledTimeRef.current);
-              source.start(start);
-              nextScheduledTimeRef.current = start + buffer.duration;
+            if (serverContent?.interrupted) {
+              // The student talked over the tutor: drop the unplayed audio immediately
+              const heardText = flushPlayback();
+              trimLastAgentTurn(heardText);
+              eventsRef.current.onInterrupted?.({ heardText });
+              endTurn("agent");
+            }
+            if (serverContent?.turnComplete) {
+              player.endOfTurn();
+              resetAgentPlayback();
+              endTurn("agent");
+              awaitingToolReplyRef.current = false;
+              applyPendingProblem();
             }
           },
           onclose: () => {
             console.log("Gemini Live Closed");
-            setIsConnected(false);
+            if (connectionId === connectionIdRef.current) handleConnectionLost();
           },
           onerror: (err) => {
             console.error("Gemini Live Error:", err);
-            setError(err instanceof Error ? err : new Error(String(err)));
+            reportError(err);
           },
         },
       });
 
+      if (connectionId !== connectionIdRef.current) {
+        session.close();
+        return;
+      }
       sessionRef.current = session;
-
-      // 4. Handle Input Streaming
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        
-        // Simple resampling if needed
-        let dataToSend = inputData;
-        if (ctx.sampleRate !== 16000) {
-            const ratio = ctx.sampleRate / 16000;
-            const newLength = Math.floor(inputData.length / ratio);
-            const resampled = new Float32Array(newLength);
-            for (let i = 0; i < newLength; i++) {
-                resampled[i] = inputData[Math.floor(i * ratio)];
-            }
-            dataToSend = resampled;
+    };
+
+    // Keeps the microphone and player running while a replacement session is opened
+    const handleConnectionLost = () => {
+      if (!greetingSentRef.current) {
+        // Never got as far as a working session; that is a failed connect, not a drop
+        reportError(new Error("Gemini Live closed the connection before the session started."));
+        disconnect();
+        return;
+      }
+      const lost = sessionRef.current;
+      sessionRef.current = null;
+      connectionIdRef.current += 1;
+      if (lost) {
+        try {
+          lost.close();
+        } catch (e) {
+          console.warn("Error closing session", e);
         }
+      }
 
-        // Convert Float32 to Int16 PCM
-        const pcmData = new Int16Array(dataToSend.length);
-        for (let i = 0; i < dataToSend.length; i++) {
-          const s = Math.max(-1, Math.min(1, dataToSend[i]));
-          pcmData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-        }
+      // Whatever was still queued belongs to a reply the new session knows nothing about
+      if (activeTurnRef.current === "agent") {
+        const heardText = flushPlayback();
+        trimLastAgentTurn(heardText);
+        eventsRef.current.onInterrupted?.({ heardText });
+      } else {
+        flushPlayback();
+      }
+      if (activeTurnRef.current) endTurn(activeTurnRef.current);
+      // A held push-to-talk press belonged to the old session; the student presses again once reconnected
+      talkingRef.current = false;
+      setIsTalking(false);
+      // The tool reply died with the old session; a waiting switch goes out once the new one is set up
+      awaitingToolReplyRef.current = false;
+
+      updateState("reconnecting");
+      const scheduled = scheduleReconnect(() => {
+        openSession().catch((err) => {
+          console.warn("Gemini reconnect attempt failed:", err);
+          handleConnectionLost();
+        });
+      });
+      if (!scheduled) {
+        reportError(new Error("Lost the connection to Gemini Live and could not reconnect."));
+        disconnect();
+      }
+    };
+
+    try {
+      const ctx = ensureAudioContext();
+      if (ctx.state === "suspended") {
+        await ctx.resume();
+      }
 
-        // Convert to Base64
-        const base64 = btoa(
-          String.fromCharCode(...new Uint8Array(pcmData.buffer))
-        );
+      await loadPcmWorklets(ctx);
 
-        // Send to Gemini
-        session.sendRealtimeInput({
+      // 1. Setup Input (Microphone)
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          sampleRate: 16000,
+        },
+      });
+      mediaStreamRef.current = stream;
+      micMutedRef.current = false;
+      setIsMicMuted(false);
+
+      const inputSource = ctx.createMediaStreamSource(stream);
+      inputSourceRef.current = inputSource;
+
+      const inputAnalyser = ctx.createAnalyser();
+      inputAnalyser.fftSize = 256;
+      inputAnalyser.smoothingTimeConstant = 0.8;
+      inputSource.connect(inputAnalyser);
+      inputAnalyserRef.current = inputAnalyser;
+
+      // 2. Setup Output (playback worklet -> analyser for visualizer -> speakers)
+      const player = createPcmPlayer(ctx, { sourceSampleRate: GEMINI_OUTPUT_SAMPLE_RATE });
+      playerRef.current = player;
+
+      const outputAnalyser = ctx.createAnalyser();
+      outputAnalyser.fftSize = 256;
+      outputAnalyser.smoothingTimeConstant = 0.8;
+      player.node.connect(outputAnalyser);
+      outputAnalyser.connect(ctx.destination);
+      outputAnalyserRef.current = outputAnalyser;
+
+      // 3. Connect to Gemini
+      await openSession();
+
+      // 4. Handle Input Streaming (capture worklet resamples and encodes off the main thread)
+      const captureNode = createPcmCapture(ctx, (base64) => {
+        // Muted or paused: send nothing at all rather than a stream of silence. While reconnecting there is no session to send to.
+        if (micMutedRef.current || tutorPausedRef.current || !sessionRef.current) return;
+        if (turnDetectionRef.current.mode === "push-to-talk" && !talkingRef.current) return;
+        sessionRef.current.sendRealtimeInput({
           media: {
             mimeType: "audio/pcm;rate=16000",
             data: base64,
           },
         });
-      };
-
+      });
+      captureNodeRef.current = captureNode;
+      inputSource.connect(captureNode);
     } catch (err: any) {
       console.error("Connection failed:", err);
-      setError(err);
-      setIsConnecting(false);
+      reportError(err);
       disconnect(); // Cleanup
     }
-  }, [isConnected, isConnecting, ensureAudioContext, disconnect]);
+  }, [
+    isConnected,
+    isConnecting,
+    isReconnecting,
+    eventsRef,
+    updateState,
+    resetError,
+    reportError,
+    setModel,
+    ensureAudioContext,
+    disconnect,
+    beginTurn,
+    endTurn,
+    flushPlayback,
+    resetAgentPlayback,
+    appendHistory,
+    trimLastAgentTurn,
+    clearHistory,
+    getTurns,
+    applyPendingProblem,
+    scheduleReconnect,
+    resetReconnect,
+  ]);
 
   return {
     connect,
     disconnect,
+    toggleMute,
+    setMuted,
+    sendText,
+    sendImage,
+    advanceProblem,
+    startTalking,
+    stopTalking,
+    isTalking,
+    whisper,
+    setTutorPaused,
+    isTutorPaused,
+    isMicMuted,
+    getPlaybackStats,
+    state,
+    model: activeModel,
     isConnected,
     isConnecting,
+    isReconnecting,
     error,
     inputAnalyser: inputAnalyserRef.current,
     outputAnalyser: outputAnalyserRef.current,
@@ -1,39 +1,92 @@
 import { useCallback, useRef, useState } from "react";
-import { buildMathTutorSystemInstruction } from "../prompts/math-tutor";
+import { PcmPlayer, createPcmCapture, createPcmPlayer, loadPcmWorklets } from "../audio/pcm-worklets";
+import { getSessionLanguage } from "../prompts/languages";
+import { getSpeechPace } from "../prompts/speech";
+import {
+  MathTutorPromptOptions,
+  ProblemAdvanceReason,
+  ProblemPosition,
+  buildGreetingTrigger,
+  buildMathTutorSystemInstruction,
+  buildProblemTransitionTrigger,
+  buildTeacherNoteTurn,
+  buildTutorResumeTrigger,
+  getTutorMode,
+} from "../prompts/math-tutor";
+import { TUTOR_TOOLS, TutorToolContext, isSilentTutorTool, runTutorTool } from "./tutor-tools";
+import {
+  ConnectConfig,
+  DEFAULT_TURN_DETECTION,
+  ImageInput,
+  TurnDetectionSettings,
+  TutorProblem,
+  VoiceTutorSession,
+  useConversationHistory,
+  useReconnectBackoff,
+  useVoiceSessionLifecycle,
+} from "./voice-session";
 
 const OPENAI_REALTIME_BASE_URL = "https://api.openai.com/v1/realtime";
+const OPENAI_OUTPUT_SAMPLE_RATE = 24000;
+// No per-response instructions: they would replace the session's system instruction for that reply
+const TUTOR_REPLY_RESPONSE = { modalities: ["audio", "text"] };
+// A "disconnected" peer connection often recovers on its own; only rebuild it if it stays down this long
+const DISCONNECTED_GRACE_MS = 3000;
+// Realtime rejects committing less than 100 ms of audio; shorter presses are treated as accidental
+const MIN_PUSH_TO_TALK_MS = 200;
 
-export interface ConnectConfig {
-  question: string;
-  answer: string;
-  wrongAnswer?: string;
-  onUserTranscript?: (text: string) => void;
-  onAgentTranscript?: (text: string) => void;
+interface OpenAiSessionResponse {
+  clientSecret: string;
+  model: string;
+  /** Set when the server runs in mock mode; events and audio then go over this WebSocket instead of WebRTC. */
+  websocketUrl?: string;
 }
 
-export interface UseOpenAiWebRtcResult {
-  connect: (config: ConnectConfig) => Promise<void>;
-  disconnect: () => void;
-  toggleMute: () => void;
-  setMuted: (muted: boolean) => void;
-  isMicMuted: boolean;
-  isConnected: boolean;
-  isConnecting: boolean;
-  error: Error | null;
-  inputAnalyser: AnalyserNode | null;
-  outputAnalyser: AnalyserNode | null;
+/** The session's `turn_detection`; null for push to talk, where the client commits each turn itself. */
+function toOpenAiTurnDetection(settings: TurnDetectionSettings): object | null {
+  // The hook sends response.create itself, after filtering echo, so the server never starts replies
+  switch (settings.mode) {
+    case "server-vad":
+      return {
+        type: "server_vad",
+        threshold: settings.threshold,
+        silence_duration_ms: settings.silenceDurationMs,
+        create_response: false,
+        interrupt_response: true,
+      };
+    case "semantic-vad":
+      return { type: "semantic_vad", eagerness: settings.eagerness, create_response: false, interrupt_response: true };
+    case "push-to-talk":
+      return null;
+  }
 }
 
-interface OpenAiSessionResponse {
-  clientSecret: string;
-  model: string;
+/** Where Realtime JSON events are exchanged: the WebRTC data channel, or the mock server's WebSocket. */
+interface RealtimeEventChannel {
+  send: (event: object) => void;
+  isOpen: () => boolean;
+  close: () => void;
 }
 
-export function useOpenAiWebRtc(): UseOpenAiWebRtcResult {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+export function useOpenAiWebRtc(): VoiceTutorSession {
+  const {
+    state,
+    error,
+    model: activeModel,
+    setModel,
+    eventsRef,
+    updateState,
+    reportError,
+    resetError,
+    isConnected,
+    isConnecting,
+    isReconnecting,
+  } = useVoiceSessionLifecycle();
+  const { append: appendHistory, clear: clearHistory, getTurns } = useConversationHistory();
+  const { schedule: scheduleReconnect, reset: resetReconnect, cancel: cancelReconnect } = useReconnectBackoff();
   const [isMicMuted, setIsMicMuted] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isTutorPaused, setIsTutorPaused] = useState(false);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
@@ -44,11 +97,35 @@ export function useOpenAiWebRtc(): UseOpenAiWebRtcResult {
   const remoteStreamRef = useRef<MediaStream | null>(null);
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const dataChannelRef = useRef<RTCDataChannel | null>(null);
+  const channelRef = useRef<RealtimeEventChannel | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
+  const playerRef = useRef<PcmPlayer | null>(null);
   const assistantRespondingRef = useRef(false);
   const lastHandledUserTranscriptRef = useRef("");
   const lastAssistantDoneAtRef = useRef(0);
   const responseWatchdogRef = useRef<number | null>(null);
+  // Bumped whenever a transport is replaced or closed, so events from the old one are ignored
+  const connectionIdRef = useRef(0);
+  const hasGreetedRef = useRef(false);
+  const disconnectedGraceRef = useRef<number | null>(null);
+  // Set while a follow-up to a tool-only response is pending, so two in a row cannot loop
+  const toolFollowUpRef = useRef(false);
+  const turnDetectionRef = useRef<TurnDetectionSettings>(DEFAULT_TURN_DETECTION);
+  // When the push-to-talk press started, or null when the student is not holding it
+  const talkStartedAtRef = useRef<number | null>(null);
+  // Everything the instruction is built from; the problem fields change when the session moves on
+  const promptOptionsRef = useRef<MathTutorPromptOptions | null>(null);
+  const pendingProblemRef = useRef<{
+    problem: TutorProblem;
+    position: ProblemPosition;
+    reason: ProblemAdvanceReason;
+  } | null>(null);
+  const problemSolvedRef = useRef(false);
+  // From response.created to response.done; unlike assistantRespondingRef it stays set between output items
+  const responseInProgressRef = useRef(false);
+  const micMutedRef = useRef(false);
+  // While set the microphone track is off and nothing the tutor says is played
+  const tutorPausedRef = useRef(false);
 
   const clearResponseWatchdog = useCallback(() => {
     if (responseWatchdogRef.current !== null) {
@@ -72,18 +149,20 @@ export function useOpenAiWebRtc(): UseOpenAiWebRtcResult {
     return audioContextRef.current;
   }, []);
 
-  const disconnect = useCallback(() => {
-    assistantRespondingRef.current = false;
-    lastHandledUserTranscriptRef.current = "";
-    lastAssistantDoneAtRef.current = 0;
-    clearResponseWatchdog();
-    if (dataChannelRef.current) {
+  /** Tears down the peer connection or socket but keeps the microphone and player for a reconnect. */
+  const closeTransport = useCallback(() => {
+    if (disconnectedGraceRef.current !== null) {
+      window.clearTimeout(disconnectedGraceRef.current);
+      disconnectedGraceRef.current = null;
+    }
+
+    if (channelRef.current) {
       try {
-        dataChannelRef.current.close();
+        channelRef.current.close();
       } catch (closeError) {
-        console.warn("Error closing OpenAI data channel", closeError);
+        console.warn("Error closing OpenAI event channel", closeError);
       }
-      dataChannelRef.current = null;
+      channelRef.current = null;
     }
 
     if (peerConnectionRef.current) {
@@ -100,104 +179,598 @@ export function useOpenAiWebRtc(): UseOpenAiWebRtcResult {
       audioElementRef.current = null;
     }
 
-    if (inputSourceRef.current) {
-      inputSourceRef.current.disconnect();
-      inputSourceRef.current = null;
-    }
-
     if (outputSourceRef.current) {
       outputSourceRef.current.disconnect();
       outputSourceRef.current = null;
     }
 
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach((track) => track.stop());
-      localStreamRef.current = null;
-    }
-
     if (remoteStreamRef.current) {
       remoteStreamRef.current.getTracks().forEach((track) => track.stop());
       remoteStreamRef.current = null;
     }
+  }, []);
 
-    setIsConnected(false);
-    setIsConnecting(false);
+  const disconnect = useCallback(() => {
+    cancelReconnect();
+    connectionIdRef.current += 1;
+    assistantRespondingRef.current = false;
+    lastHandledUserTranscriptRef.current = "";
+    lastAssistantDoneAtRef.current = 0;
+    talkStartedAtRef.current = null;
+    setIsTalking(false);
+    promptOptionsRef.current = null;
+    pendingProblemRef.current = null;
+    responseInProgressRef.current = false;
+    toolFollowUpRef.current = false;
+    micMutedRef.current = false;
+    tutorPausedRef.current = false;
+    setIsTutorPaused(false);
+    clearResponseWatchdog();
+    closeTransport();
+
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
+    }
+
+    if (playerRef.current) {
+      playerRef.current.dispose();
+      playerRef.current = null;
+    }
+
+    if (inputSourceRef.current) {
+      inputSourceRef.current.disconnect();
+      inputSourceRef.current = null;
+    }
+
+    if (localStreamRef.current) {
+      localStreamRef.current.getTracks().forEach((track) => track.stop());
+      localStreamRef.current = null;
+    }
+
+    updateState("idle");
     setIsMicMuted(false);
-  }, [clearResponseWatchdog]);
+  }, [cancelReconnect, clearResponseWatchdog, closeTransport, updateState]);
 
-  const setMuted = useCallback((muted: boolean) => {
-    const stream = localStreamRef.current;
-    if (!stream) return;
-    stream.getAudioTracks().forEach((track) => {
-      track.enabled = !muted;
+  /** The microphone track carries audio unless the student muted it or the teacher paused the tutor. */
+  const syncMicTrack = useCallback(() => {
+    localStreamRef.current?.getAudioTracks().forEach((track) => {
+      track.enabled = !micMutedRef.current && !tutorPausedRef.current;
     });
-    setIsMicMuted(muted);
   }, []);
 
+  const setMuted = useCallback((muted: boolean) => {
+    if (!localStreamRef.current) return;
+    micMutedRef.current = muted;
+    syncMicTrack();
+    setIsMicMuted(muted);
+  }, [syncMicTrack]);
+
   const toggleMute = useCallback(() => {
-    const stream = localStreamRef.current;
-    if (!stream) return;
-    const nextMuted = !isMicMuted;
-    stream.getAudioTracks().forEach((track) => {
-      track.enabled = !nextMuted;
+    setMuted(!isMicMuted);
+  }, [isMicMuted, setMuted]);
+
+  /** Cuts off the reply in progress, for student turns the server VAD does not see (typing, push to talk). */
+  const interruptReply = useCallback(
+    (channel: RealtimeEventChannel) => {
+      if (!assistantRespondingRef.current) return;
+      channel.send({ type: "response.cancel" });
+      // Over WebRTC audio already sent sits in a server-side output buffer; the mock socket plays it locally
+      if (peerConnectionRef.current) channel.send({ type: "output_audio_buffer.clear" });
+      playerRef.current?.clear();
+      eventsRef.current.onInterrupted?.({});
+    },
+    [eventsRef]
+  );
+
+  /** Sends a typed student turn, optionally with an image, and asks for a reply. */
+  const sendUserTurn = useCallback(
+    (text: string, image?: ImageInput) => {
+      const channel = channelRef.current;
+      const trimmed = text.trim();
+      if (!channel?.isOpen() || !trimmed || tutorPausedRef.current) return false;
+      // Typing over the tutor interrupts it the same way speaking does
+      interruptReply(channel);
+      appendHistory("user", `${trimmed} `);
+      channel.send({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "user",
+          content: [
+            ...(image ? [{ type: "input_image", image_url: `data:${image.mimeType};base64,${image.data}` }] : []),
+            { type: "input_text", text: trimmed },
+          ],
+        },
+      });
+      channel.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+      startResponseWatchdog();
+      return true;
+    },
+    [interruptReply, appendHistory, startResponseWatchdog]
+  );
+
+  const startTalking = useCallback(() => {
+    const channel = channelRef.current;
+    if (
+      turnDetectionRef.current.mode !== "push-to-talk" ||
+      talkStartedAtRef.current !== null ||
+      !channel?.isOpen() ||
+      tutorPausedRef.current
+    ) {
+      return;
+    }
+    interruptReply(channel);
+    // The microphone streams all the time; drop whatever it picked up since the last turn
+    channel.send({ type: "input_audio_buffer.clear" });
+    talkStartedAtRef.current = Date.now();
+    setIsTalking(true);
+    eventsRef.current.onTurnStart?.("user");
+  }, [interruptReply, eventsRef]);
+
+  const stopTalking = useCallback(() => {
+    const startedAt = talkStartedAtRef.current;
+    if (startedAt === null) return;
+    talkStartedAtRef.current = null;
+    setIsTalking(false);
+    eventsRef.current.onTurnEnd?.("user");
+    const channel = channelRef.current;
+    if (!channel?.isOpen()) return;
+    if (Date.now() - startedAt < MIN_PUSH_TO_TALK_MS) {
+      channel.send({ type: "input_audio_buffer.clear" });
+      return;
+    }
+    // Its transcription arrives like a VAD turn's, and the reply is requested from there
+    channel.send({ type: "input_audio_buffer.commit" });
+  }, [eventsRef]);
+
+  /** Swaps in the waiting problem: new instructions, then a turn asking the tutor to introduce it. */
+  const applyPendingProblem = useCallback(() => {
+    const pending = pendingProblemRef.current;
+    const options = promptOptionsRef.current;
+    const channel = channelRef.current;
+    // A paused tutor introduces the next problem once it is resumed
+    if (!pending || !options || !channel?.isOpen() || tutorPausedRef.current) return;
+    pendingProblemRef.current = null;
+    problemSolvedRef.current = false;
+    const { problem, position, reason } = pending;
+    const nextOptions: MathTutorPromptOptions = {
+      ...options,
+      question: problem.question,
+      answer: problem.answer,
+      wrongAnswer: problem.wrongAnswer,
+      position,
+    };
+    promptOptionsRef.current = nextOptions;
+
+    channel.send({ type: "session.update", session: { instructions: buildMathTutorSystemInstruction(nextOptions) } });
+    channel.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: buildProblemTransitionTrigger({
+              position,
+              reason,
+              language: options.language,
+              bilingual: options.bilingual,
+            }),
+          },
+        ],
+      },
     });
-    setIsMicMuted(nextMuted);
-  }, [isMicMuted]);
+    assistantRespondingRef.current = true;
+    channel.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+    startResponseWatchdog();
+  }, [startResponseWatchdog]);
+
+  const advanceProblem = useCallback(
+    (problem: TutorProblem, position: ProblemPosition, reason: ProblemAdvanceReason) => {
+      pendingProblemRef.current = { problem, position, reason };
+      // Otherwise applied on response.done, once any tool follow-up has been spoken too
+      if (!responseInProgressRef.current) applyPendingProblem();
+    },
+    [applyPendingProblem]
+  );
+
+  const whisper = useCallback((note: string) => {
+    const options = promptOptionsRef.current;
+    const trimmed = note.trim();
+    if (!options || !trimmed) return;
+    // Kept in the instructions so a replacement session and later problems still follow it
+    promptOptionsRef.current = { ...options, teacherNotes: [...(options.teacherNotes ?? []), trimmed] };
+    const channel = channelRef.current;
+    if (!channel?.isOpen()) return;
+    // A system item without response.create only adds context; the next reply takes it into account
+    channel.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "system",
+        content: [{ type: "input_text", text: buildTeacherNoteTurn(trimmed) }],
+      },
+    });
+  }, []);
+
+  const setTutorPaused = useCallback(
+    (paused: boolean) => {
+      if (tutorPausedRef.current === paused) return;
+      tutorPausedRef.current = paused;
+      setIsTutorPaused(paused);
+      syncMicTrack();
+      if (audioElementRef.current) audioElementRef.current.muted = paused;
+      const channel = channelRef.current;
+
+      if (paused) {
+        if (talkStartedAtRef.current !== null) {
+          talkStartedAtRef.current = null;
+          setIsTalking(false);
+          eventsRef.current.onTurnEnd?.("user");
+        }
+        playerRef.current?.clear();
+        if (channel?.isOpen()) {
+          interruptReply(channel);
+          channel.send({ type: "input_audio_buffer.clear" });
+        }
+        return;
+      }
+
+      const options = promptOptionsRef.current;
+      if (!channel?.isOpen() || !options) return;
+      // Whatever the microphone picked up as the track switched back on
+      channel.send({ type: "input_audio_buffer.clear" });
+      if (pendingProblemRef.current) {
+        applyPendingProblem();
+        return;
+      }
+      channel.send({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: buildTutorResumeTrigger({ language: options.language, bilingual: options.bilingual }),
+            },
+          ],
+        },
+      });
+      assistantRespondingRef.current = true;
+      channel.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+      startResponseWatchdog();
+    },
+    [syncMicTrack, eventsRef, interruptReply, applyPendingProblem, startResponseWatchdog]
+  );
+
+  const sendText = useCallback((text: string) => sendUserTurn(text), [sendUserTurn]);
+
+  const sendImage = useCallback((image: ImageInput, text: string) => sendUserTurn(text, image), [sendUserTurn]);
 
   const connect = useCallback(
     async (config: ConnectConfig) => {
-      if (isConnected || isConnecting) return;
+      if (isConnected || isConnecting || isReconnecting) return;
 
-      setIsConnecting(true);
-      setError(null);
+      eventsRef.current = config;
+      updateState("connecting");
+      resetError();
+      setModel(null);
       assistantRespondingRef.current = false;
       lastHandledUserTranscriptRef.current = "";
       lastAssistantDoneAtRef.current = 0;
+      hasGreetedRef.current = false;
+      talkStartedAtRef.current = null;
+      turnDetectionRef.current = config.turnDetection ?? DEFAULT_TURN_DETECTION;
+      pendingProblemRef.current = null;
+      problemSolvedRef.current = false;
+      responseInProgressRef.current = false;
+      toolFollowUpRef.current = false;
+      micMutedRef.current = false;
+      tutorPausedRef.current = false;
+      setIsTutorPaused(false);
+      clearHistory();
+      resetReconnect();
+
+      const { question, answer, wrongAnswer, mode, language, bilingual, pace, position, studentSummary } = config;
+      promptOptionsRef.current = {
+        question,
+        answer,
+        wrongAnswer,
+        mode,
+        language,
+        bilingual,
+        pace,
+        position,
+        studentSummary,
+      };
+      const sessionLanguage = getSessionLanguage(language);
+      const voiceSettings = {
+        voice: config.voice ?? sessionLanguage.openAiVoice,
+        speed: getSpeechPace(pace).speed,
+        maxResponseTokens: config.maxResponseTokens ?? getTutorMode(mode).maxResponseTokens,
+      };
+      const toolContext: TutorToolContext = {
+        getAnswer: () => promptOptionsRef.current?.answer ?? answer,
+        onAnswerChecked: (result) => {
+          // Nothing more is reported for a solved problem, or for the old one while a switch is waiting
+          if (problemSolvedRef.current || pendingProblemRef.current) return;
+          eventsRef.current.onAnswerChecked?.(result);
+          if (result.correct !== true) return;
+          problemSolvedRef.current = true;
+          eventsRef.current.onProblemSolved?.();
+        },
+        showText: (text) => {
+          if (!tutorPausedRef.current) eventsRef.current.onAgentText?.(text);
+        },
+        addWhiteboardStep: (latex) => eventsRef.current.onWhiteboardStep?.(latex),
+      };
+
+      const handleServerEvent = (data: string) => {
+        let payload: any;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          return;
+        }
 
-      const { question, answer, wrongAnswer, onUserTranscript, onAgentTranscript } = config;
+        if (payload.type === "conversation.item.input_audio_transcription.completed" && payload.transcript) {
+          const transcript = String(payload.transcript).trim();
+          if (!transcript || tutorPausedRef.current) return;
+          const normalized = transcript.toLowerCase();
+          if (normalized === lastHandledUserTranscriptRef.current) return;
+          // Ignore likely echo right after assistant finishes speaking; a push-to-talk turn is always deliberate
+          const { mode: turnMode, echoWindowMs } = turnDetectionRef.current;
+          if (turnMode !== "push-to-talk" && Date.now() - lastAssistantDoneAtRef.current < echoWindowMs) return;
+          lastHandledUserTranscriptRef.current = normalized;
+          appendHistory("user", `${transcript} `);
+          eventsRef.current.onUserTranscript?.(transcript);
+
+          if (!assistantRespondingRef.current && channelRef.current?.isOpen()) {
+            assistantRespondingRef.current = true;
+            startResponseWatchdog();
+            channelRef.current.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+          }
+          return;
+        }
 
-      try {
-        const ctx = ensureAudioContext();
-        if (ctx.state === "suspended") {
-          await ctx.resume();
+        if (payload.type === "input_audio_buffer.speech_started") {
+          // Over WebRTC the server truncates playback itself; locally queued audio must be dropped here
+          playerRef.current?.clear();
+          if (assistantRespondingRef.current) {
+            // Both VAD types run with interrupt_response, so the reply is being cut off
+            eventsRef.current.onInterrupted?.({});
+            eventsRef.current.onTurnEnd?.("agent");
+          }
+          eventsRef.current.onTurnStart?.("user");
+          return;
         }
 
-        const sessionResp = await fetch("/api/openai/session", { method: "POST" });
-        if (!sessionResp.ok) {
-          const errorText = await sessionResp.text();
-          throw new Error(`Failed to get OpenAI session token: ${errorText}`);
+        if (payload.type === "input_audio_buffer.speech_stopped") {
+          eventsRef.current.onTurnEnd?.("user");
+          return;
         }
-        const { clientSecret, model } = (await sessionResp.json()) as OpenAiSessionResponse;
 
-        const localStream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            channelCount: 1,
-            echoCancellation: true,
-            noiseSuppression: true,
+        // A reply still arriving after the teacher paused the tutor is never heard
+        if (payload.type === "response.audio_transcript.delta" && payload.delta && !tutorPausedRef.current) {
+          appendHistory("agent", payload.delta);
+          eventsRef.current.onAgentTranscript?.(payload.delta);
+          return;
+        }
+
+        if (payload.type === "response.audio.delta" && payload.delta) {
+          if (!tutorPausedRef.current) playerRef.current?.enqueue(payload.delta);
+          return;
+        }
+
+        if (payload.type === "response.audio.done") {
+          playerRef.current?.endOfTurn();
+          return;
+        }
+
+        if (payload.type === "response.audio_transcript.done") {
+          return;
+        }
+
+        if (payload.type === "response.function_call_arguments.done") {
+          let args: unknown = {};
+          try {
+            args = JSON.parse(payload.arguments || "{}");
+          } catch {
+            // Malformed arguments: still answer the call so the conversation is not left waiting
+          }
+          const result = runTutorTool(String(payload.name), args, toolContext);
+          channelRef.current?.send({
+            type: "conversation.item.create",
+            item: { type: "function_call_output", call_id: payload.call_id, output: JSON.stringify(result) },
+          });
+          return;
+        }
+
+        if (payload.type === "response.created") {
+          assistantRespondingRef.current = true;
+          responseInProgressRef.current = true;
+          startResponseWatchdog();
+          eventsRef.current.onTurnStart?.("agent");
+          return;
+        }
+
+        if (payload.type === "error") {
+          reportError(new Error(payload.error?.message || "OpenAI realtime error."));
+          return;
+        }
+
+        // A function_call item (display_text opens most replies) finishing is not the end of the spoken reply;
+        // only the message item or the whole response ends the tutor's turn
+        if (
+          payload.type === "response.done" ||
+          payload.type === "response.error" ||
+          (payload.type === "response.output_item.done" && payload.item?.type === "message")
+        ) {
+          if (assistantRespondingRef.current) {
+            eventsRef.current.onTurnEnd?.("agent");
+          }
+          assistantRespondingRef.current = false;
+          lastAssistantDoneAtRef.current = Date.now();
+          clearResponseWatchdog();
+
+          // Realtime never answers a function result by itself. Follow up when the response only called
+          // tools (nothing said yet) or called one whose result the model still has to talk about.
+          if (payload.type === "response.done") {
+            const output: any[] = payload.response?.output ?? [];
+            const calls = output.filter((item) => item.type === "function_call");
+            const needsFollowUp =
+              payload.response?.status === "completed" &&
+              calls.length > 0 &&
+              (!output.some((item) => item.type === "message") ||
+                calls.some((call) => !isSilentTutorTool(call.name)));
+            if (needsFollowUp && !toolFollowUpRef.current && !tutorPausedRef.current) {
+              toolFollowUpRef.current = true;
+              assistantRespondingRef.current = true;
+              startResponseWatchdog();
+              channelRef.current?.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+            } else {
+              toolFollowUpRef.current = false;
+              responseInProgressRef.current = false;
+              applyPendingProblem();
+            }
+          }
+        }
+      };
+
+      const handleChannelOpen = () => {
+        const channel = channelRef.current;
+        const promptOptions = promptOptionsRef.current;
+        if (!channel || !promptOptions) return;
+        // Built from the current problem, which after a reconnect may be a later one in the set
+        const systemInstruction = buildMathTutorSystemInstruction(promptOptions);
+
+        channel.send({
+          type: "session.update",
+          session: {
+            modalities: ["audio", "text"],
+            instructions: systemInstruction,
+            voice: voiceSettings.voice,
+            speed: voiceSettings.speed,
+            // A bilingual student mixes languages, so only pin the transcription language for single-language sessions
+            input_audio_transcription: {
+              model: "gpt-4o-mini-transcribe",
+              ...(bilingual ? {} : { language: sessionLanguage.transcriptionLanguage }),
+            },
+            turn_detection: toOpenAiTurnDetection(turnDetectionRef.current),
+            max_response_output_tokens: voiceSettings.maxResponseTokens,
+            tools: TUTOR_TOOLS.map(({ declaration }) => ({ type: "function", ...declaration })),
+            tool_choice: "auto",
           },
         });
-        localStreamRef.current = localStream;
-        localStream.getAudioTracks().forEach((track) => {
-          track.enabled = true;
-        });
-        setIsMicMuted(false);
 
-        const inputSource = ctx.createMediaStreamSource(localStream);
-        inputSourceRef.current = inputSource;
+        if (hasGreetedRef.current) {
+          // Reconnected: replay the conversation so far and wait for the student instead of greeting again
+          getTurns().forEach((turn) => {
+            channel.send({
+              type: "conversation.item.create",
+              item: {
+                type: "message",
+                role: turn.role === "agent" ? "assistant" : "user",
+                content: [{ type: turn.role === "agent" ? "text" : "input_text", text: turn.text }],
+              },
+            });
+          });
+          // A switch that was waiting when the connection dropped
+          applyPendingProblem();
+          return;
+        }
 
-        const inputAnalyser = ctx.createAnalyser();
-        inputAnalyser.fftSize = 256;
-        inputAnalyser.smoothingTimeConstant = 0.8;
-        inputSource.connect(inputAnalyser);
-        inputAnalyserRef.current = inputAnalyser;
+        hasGreetedRef.current = true;
+        // Same opening turn as Gemini gets, so the mode's greeting behaves alike on both providers
+        channel.send({
+          type: "conversation.item.create",
+          item: {
+            type: "message",
+            role: "user",
+            content: [{ type: "input_text", text: buildGreetingTrigger({ mode, language, bilingual }) }],
+          },
+        });
+        channel.send({ type: "response.create", response: TUTOR_REPLY_RESPONSE });
+        startResponseWatchdog();
+      };
+
+      const handleConnected = () => {
+        updateState("connected");
+        resetReconnect();
+      };
+
+      // Mock mode: no media tracks, so audio rides the event channel as base64 PCM16
+      const openWebSocket = async (ctx: AudioContext, url: string, model: string, connectionId: number) => {
+        if (!playerRef.current) {
+          await loadPcmWorklets(ctx);
+
+          const player = createPcmPlayer(ctx, { sourceSampleRate: OPENAI_OUTPUT_SAMPLE_RATE });
+          playerRef.current = player;
+          const outputAnalyser = ctx.createAnalyser();
+          outputAnalyser.fftSize = 256;
+          outputAnalyser.smoothingTimeConstant = 0.8;
+          player.node.connect(outputAnalyser);
+          outputAnalyser.connect(ctx.destination);
+          outputAnalyserRef.current = outputAnalyser;
 
+          // A muted track feeds the capture node silence, which the server VAD ignores
+          const captureNode = createPcmCapture(ctx, (audio) => {
+            if (channelRef.current?.isOpen()) {
+              channelRef.current.send({ type: "input_audio_buffer.append", audio });
+            }
+          });
+          captureNodeRef.current = captureNode;
+          inputSourceRef.current?.connect(captureNode);
+        }
+
+        const socketUrl = new URL(url, window.location.href);
+        socketUrl.protocol = socketUrl.protocol === "https:" ? "wss:" : "ws:";
+        socketUrl.searchParams.set("model", model);
+        const socket = new WebSocket(socketUrl);
+        channelRef.current = {
+          send: (event) => socket.send(JSON.stringify(event)),
+          isOpen: () => socket.readyState === WebSocket.OPEN,
+          close: () => socket.close(),
+        };
+        socket.onopen = () => {
+          if (connectionId !== connectionIdRef.current) return;
+          handleConnected();
+          handleChannelOpen();
+        };
+        socket.onmessage = (event) => {
+          if (connectionId === connectionIdRef.current) handleServerEvent(String(event.data));
+        };
+        socket.onerror = () => {
+          if (connectionId === connectionIdRef.current) reportError(new Error("OpenAI realtime mock socket error."));
+        };
+        socket.onclose = () => {
+          if (connectionId === connectionIdRef.current) handleConnectionLost();
+        };
+      };
+
+      const openPeerConnection = async (
+        ctx: AudioContext,
+        localStream: MediaStream,
+        clientSecret: string,
+        model: string,
+        connectionId: number
+      ) => {
         const peerConnection = new RTCPeerConnection();
         peerConnectionRef.current = peerConnection;
         const dataChannel = peerConnection.createDataChannel("oai-events");
-        dataChannelRef.current = dataChannel;
+        channelRef.current = {
+          send: (event) => dataChannel.send(JSON.stringify(event)),
+          isOpen: () => dataChannel.readyState === "open",
+          close: () => dataChannel.close(),
+        };
 
         const remoteAudio = new Audio();
         remoteAudio.autoplay = true;
+        remoteAudio.muted = tutorPausedRef.current;
         audioElementRef.current = remoteAudio;
 
         const remoteStream = new MediaStream();
@@ -225,123 +798,34 @@ export function useOpenAiWebRtc(): UseOpenAiWebRtcResult {
           ensureRemoteAnalyser();
         };
         peerConnection.onconnectionstatechange = () => {
+          if (connectionId !== connectionIdRef.current) return;
+          if (disconnectedGraceRef.current !== null) {
+            window.clearTimeout(disconnectedGraceRef.current);
+            disconnectedGraceRef.current = null;
+          }
           if (peerConnection.connectionState === "connected") {
-            setIsConnected(true);
-            setIsConnecting(false);
-          } else if (
-            peerConnection.connectionState === "failed" ||
-            peerConnection.connectionState === "closed" ||
-            peerConnection.connectionState === "disconnected"
-          ) {
-            setIsConnected(false);
+            handleConnected();
+          } else if (peerConnection.connectionState === "failed" || peerConnection.connectionState === "closed") {
+            handleConnectionLost();
+          } else if (peerConnection.connectionState === "disconnected") {
+            disconnectedGraceRef.current = window.setTimeout(() => {
+              disconnectedGraceRef.current = null;
+              if (connectionId === connectionIdRef.current) handleConnectionLost();
+            }, DISCONNECTED_GRACE_MS);
           }
         };
 
         dataChannel.onmessage = (event) => {
-          let payload: any;
-          try {
-            payload = JSON.parse(event.data);
-          } catch {
-            return;
-          }
-
-          if (payload.type === "conversation.item.input_audio_transcription.completed" && payload.transcript) {
-            const transcript = String(payload.transcript).trim();
-            if (!transcript) return;
-            const normalized = transcript.toLowerCase();
-            if (normalized === lastHandledUserTranscriptRef.current) return;
-            // Ignore likely echo right after assistant finishes speaking.
-            if (Date.now() - lastAssistantDoneAtRef.current < 1200) return;
-            lastHandledUserTranscriptRef.current = normalized;
-            onUserTranscript?.(transcript);
-
-            if (!assistantRespondingRef.current && dataChannel.readyState === "open") {
-              assistantRespondingRef.current = true;
-              startResponseWatchdog();
-              dataChannel.send(
-                JSON.stringify({
-                  type: "response.create",
-                  response: {
-                    modalities: ["audio", "text"],
-                    instructions:
-                      "Respond only in English. Keep the student focused on this exact problem and reaching the correct answer. Give one concise tutoring response, then stop and wait for the student.",
-                  },
-                })
-              );
-            }
-            return;
-          }
-
-          if (payload.type === "response.audio_transcript.delta" && payload.delta) {
-            onAgentTranscript?.(payload.delta);
-            return;
-          }
-
-          if (payload.type === "response.audio_transcript.done") {
-            return;
-          }
-
-          if (payload.type === "response.created") {
-            assistantRespondingRef.current = true;
-            startResponseWatchdog();
-            return;
-          }
-
-          if (
-            payload.type === "response.done" ||
-            payload.type === "response.error" ||
-            payload.type === "response.output_item.done"
-          ) {
-            assistantRespondingRef.current = false;
-            lastAssistantDoneAtRef.current = Date.now();
-            clearResponseWatchdog();
-          }
+          if (connectionId === connectionIdRef.current) handleServerEvent(event.data);
         };
-
         dataChannel.onerror = () => {
-          setError(new Error("OpenAI realtime data channel error."));
+          if (connectionId === connectionIdRef.current) reportError(new Error("OpenAI realtime data channel error."));
         };
-
         dataChannel.onopen = () => {
-          const systemInstruction = `${buildMathTutorSystemInstruction(
-            question,
-            answer,
-            wrongAnswer
-          )}\n\nCRITICAL LANGUAGE RULE: Respond only in English. Never use Chinese or any other language.
-
-PRIMARY GOAL: Get the student to the correct final answer for this exact problem.
-FOCUS RULES:
-- Stay strictly on this problem until solved.
-- Do not discuss unrelated topics, examples, or tangents.
-- If the student asks something unrelated, briefly redirect to the current problem.
-- Use short step-by-step guidance and quick checks of student understanding.
-- Ask one focused question at a time and wait for student reply.`;
-
-          dataChannel.send(
-            JSON.stringify({
-              type: "session.update",
-              session: {
-                modalities: ["audio", "text"],
-                instructions: systemInstruction,
-                voice: "alloy",
-                input_audio_transcription: { model: "gpt-4o-mini-transcribe" },
-                turn_detection: { type: "server_vad", create_response: false, interrupt_response: true },
-                max_response_output_tokens: 320,
-              },
-            })
-          );
-
-          dataChannel.send(
-            JSON.stringify({
-              type: "response.create",
-              response: {
-                modalities: ["audio", "text"],
-                instructions:
-                  "The student is ready. Begin with your greeting in English only. Keep it short, give one hint for this exact problem, ask where they are stuck, then stop and wait.",
-              },
-            })
-          );
-          startResponseWatchdog();
+          if (connectionId === connectionIdRef.current) handleChannelOpen();
+        };
+        dataChannel.onclose = () => {
+          if (connectionId === connectionIdRef.current) handleConnectionLost();
         };
 
         const offer = await peerConnection.createOffer();
@@ -362,15 +846,127 @@ FOCUS RULES:
         }
 
         const answerSdp = await sdpResponse.text();
+        if (connectionId !== connectionIdRef.current) return;
         await peerConnection.setRemoteDescription({ type: "answer", sdp: answerSdp });
+      };
+
+      // Mints a fresh session and transport; used for the first connect and every reconnect
+      const openTransport = async () => {
+        const connectionId = ++connectionIdRef.current;
+        const ctx = ensureAudioContext();
+        const localStream = localStreamRef.current!;
+
+        const sessionResp = await fetch("/api/openai/session", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(voiceSettings),
+        });
+        if (!sessionResp.ok) {
+          const errorText = await sessionResp.text();
+          throw new Error(`Failed to get OpenAI session token: ${errorText}`);
+        }
+        const { clientSecret, model, websocketUrl } = (await sessionResp.json()) as OpenAiSessionResponse;
+        setModel(model);
+        if (connectionId !== connectionIdRef.current) return;
+
+        if (websocketUrl) {
+          await openWebSocket(ctx, websocketUrl, model, connectionId);
+        } else {
+          await openPeerConnection(ctx, localStream, clientSecret, model, connectionId);
+        }
+      };
+
+      // Keeps the microphone running while a replacement session is set up
+      const handleConnectionLost = () => {
+        if (!hasGreetedRef.current) {
+          // Never got as far as a working session; that is a failed connect, not a drop
+          reportError(new Error("OpenAI Realtime closed the connection before the session started."));
+          disconnect();
+          return;
+        }
+        connectionIdRef.current += 1;
+        closeTransport();
+        playerRef.current?.clear();
+        if (assistantRespondingRef.current) {
+          eventsRef.current.onInterrupted?.({});
+          eventsRef.current.onTurnEnd?.("agent");
+        }
+        assistantRespondingRef.current = false;
+        // A follow-up the old session never answered must not hold back the new session's first turn end
+        toolFollowUpRef.current = false;
+        clearResponseWatchdog();
+        // A held push-to-talk press belonged to the old session; the student presses again once reconnected
+        talkStartedAtRef.current = null;
+        setIsTalking(false);
+
+        updateState("reconnecting");
+        const scheduled = scheduleReconnect(() => {
+          openTransport().catch((err) => {
+            console.warn("OpenAI reconnect attempt failed:", err);
+            handleConnectionLost();
+          });
+        });
+        if (!scheduled) {
+          reportError(new Error("Lost the connection to OpenAI Realtime and could not reconnect."));
+          disconnect();
+        }
+      };
+
+      try {
+        const ctx = ensureAudioContext();
+        if (ctx.state === "suspended") {
+          await ctx.resume();
+        }
+
+        const localStream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+          },
+        });
+        localStreamRef.current = localStream;
+        syncMicTrack();
+        setIsMicMuted(false);
+
+        const inputSource = ctx.createMediaStreamSource(localStream);
+        inputSourceRef.current = inputSource;
+
+        const inputAnalyser = ctx.createAnalyser();
+        inputAnalyser.fftSize = 256;
+        inputAnalyser.smoothingTimeConstant = 0.8;
+        inputSource.connect(inputAnalyser);
+        inputAnalyserRef.current = inputAnalyser;
+
+        await openTransport();
       } catch (connectError: any) {
         console.error("OpenAI WebRTC connection failed:", connectError);
-        setError(connectError instanceof Error ? connectError : new Error(String(connectError)));
-        setIsConnecting(false);
+        reportError(connectError);
         disconnect();
       }
     },
-    [disconnect, ensureAudioContext, isConnected, isConnecting, startResponseWatchdog, clearResponseWatchdog]
+    [
+      disconnect,
+      closeTransport,
+      ensureAudioContext,
+      isConnected,
+      isConnecting,
+      isReconnecting,
+      eventsRef,
+      updateState,
+      resetError,
+      reportError,
+      setModel,
+      startResponseWatchdog,
+      clearResponseWatchdog,
+      syncMicTrack,
+      appendHistory,
+      clearHistory,
+      getTurns,
+      applyPendingProblem,
+      scheduleReconnect,
+      resetReconnect,
+    ]
   );
 
   return {
@@ -378,9 +974,21 @@ FOCUS RULES:
     disconnect,
     toggleMute,
     setMuted,
+    sendText,
+    sendImage,
+    advanceProblem,
+    startTalking,
+    stopTalking,
+    isTalking,
+    whisper,
+    setTutorPaused,
+    isTutorPaused,
     isMicMuted,
+    state,
+    model: activeModel,
     isConnected,
     isConnecting,
+    isReconnecting,
     error,
     inputAnalyser: inputAnalyserRef.current,
     outputAnalyser: outputAnalyserRef.current,
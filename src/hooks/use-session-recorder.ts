@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef } from "react";
+import { ConversationEntry, entryDisplayText } from "../components/ConversationLog";
+import type { WhiteboardItem } from "../components/Whiteboard";
+import {
+  CreateSessionInput,
+  TurnInput,
+  appendTurns,
+  appendWhiteboardItems,
+  createSession,
+  endSession,
+  endSessionOnUnload,
+} from "../api/sessions";
+
+// Transcripts stream in small deltas; batch them instead of posting every chunk
+const SYNC_DEBOUNCE_MS = 1500;
+
+function toTurnInput(entry: ConversationEntry, seq: number): TurnInput {
+  const startedAt = new Date(entry.startedAt ?? Date.now()).toISOString();
+  return {
+    seq,
+    role: entry.role,
+    text: entryDisplayText(entry),
+    startedAt,
+    endedAt: entry.endedAt ? new Date(entry.endedAt).toISOString() : null,
+  };
+}
+
+/**
+ * Mirrors the live conversation log and whiteboard into a stored session on
+ * the server. Turns are upserted by position, so entries edited after the fact
+ * (e.g. an interrupted reply being trimmed) are corrected on the next sync.
+ * Whiteboard items never change, so only new ones are sent.
+ */
+export function useSessionRecorder(entries: ConversationEntry[], whiteboard: WhiteboardItem[]) {
+  const sessionIdRef = useRef<Promise<string | null> | null>(null);
+  // Resolved id of the open session, for the synchronous pagehide handler
+  const openSessionIdRef = useRef<string | null>(null);
+  const syncedTextRef = useRef<Map<number, string>>(new Map());
+  const syncedWhiteboardCountRef = useRef(0);
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+  const whiteboardRef = useRef(whiteboard);
+  whiteboardRef.current = whiteboard;
+
+  const syncWhiteboard = useCallback(async (sessionId: string, board: WhiteboardItem[]) => {
+    const start = syncedWhiteboardCountRef.current;
+    if (board.length <= start) return;
+    try {
+      await appendWhiteboardItems(
+        sessionId,
+        board.slice(start).map((item, i) => ({
+          seq: start + i,
+          kind: item.kind,
+          content: item.content,
+          createdAt: new Date(item.createdAt).toISOString(),
+        }))
+      );
+      syncedWhiteboardCountRef.current = Math.max(syncedWhiteboardCountRef.current, board.length);
+    } catch (syncError) {
+      console.warn("Failed to store whiteboard items", syncError);
+    }
+  }, []);
+
+  const sync = useCallback(async (snapshot: ConversationEntry[], board: WhiteboardItem[]) => {
+    const pendingId = sessionIdRef.current;
+    if (!pendingId) return;
+    const sessionId = await pendingId;
+    if (!sessionId) return;
+    await syncWhiteboard(sessionId, board);
+
+    const changed = snapshot
+      .map((entry, seq) => ({ entry, seq }))
+      .filter(({ entry, seq }) => entryDisplayText(entry) && syncedTextRef.current.get(seq) !== entryDisplayText(entry));
+    if (changed.length === 0) return;
+
+    try {
+      await appendTurns(
+        sessionId,
+        changed.map(({ entry, seq }) => toTurnInput(entry, seq))
+      );
+      changed.forEach(({ entry, seq }) => syncedTextRef.current.set(seq, entryDisplayText(entry)));
+    } catch (syncError) {
+      console.warn("Failed to store transcript turns", syncError);
+    }
+  }, [syncWhiteboard]);
+
+  const start = useCallback((input: CreateSessionInput) => {
+    if (sessionIdRef.current) return;
+    syncedTextRef.current = new Map();
+    syncedWhiteboardCountRef.current = 0;
+    sessionIdRef.current = createSession({ startedAt: new Date().toISOString(), ...input })
+      .then((session) => {
+        openSessionIdRef.current = session.id;
+        return session.id;
+      })
+      .catch((createError) => {
+        console.warn("Failed to store tutoring session", createError);
+        return null;
+      });
+  }, []);
+
+  /** Flushes the remaining turns and closes the stored session. Safe to call more than once. */
+  const finish = useCallback(async () => {
+    const pendingId = sessionIdRef.current;
+    if (!pendingId) return;
+    await sync(entriesRef.current, whiteboardRef.current);
+    sessionIdRef.current = null;
+    openSessionIdRef.current = null;
+    const sessionId = await pendingId;
+    if (!sessionId) return;
+    try {
+      await endSession(sessionId);
+    } catch (endError) {
+      console.warn("Failed to mark tutoring session ended", endError);
+    }
+  }, [sync]);
+
+  useEffect(() => {
+    if (!sessionIdRef.current) return;
+    const timer = window.setTimeout(() => {
+      void sync(entries, whiteboard);
+    }, SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [entries, whiteboard, sync]);
+
+  useEffect(() => {
+    const handleUnload = () => {
+      if (openSessionIdRef.current) endSessionOnUnload(openSessionIdRef.current);
+    };
+    window.addEventListener("pagehide", handleUnload);
+    return () => window.removeEventListener("pagehide", handleUnload);
+  }, []);
+
+  /** Id of the stored session once it is created; null when there is none or creating it failed. */
+  const getSessionId = useCallback(() => sessionIdRef.current ?? Promise.resolve(null), []);
+
+  return { start, finish, getSessionId };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { StudentProfile, getStudentProfile, recordOutcomes } from "../api/students";
+import type { AnswerCheckResult, AnswerMistake } from "../math/answer-check";
+import type { TutorProblem } from "./voice-session";
+
+interface ProblemInProgress {
+  question: string;
+  tags: string[];
+  startedAt: number;
+  tutorReplies: number;
+  wrongAnswers: number;
+  mistakes: AnswerMistake[];
+}
+
+/**
+ * The signed-in student's profile, and the outcome of each problem they work
+ * on in a session: time taken, tutor replies (hints), wrong answers and the
+ * mistakes the answer check recognized. Each finished problem is sent to the
+ * server, which updates the skill model the next session's summary comes from.
+ * Without a student profile (an admin trying the tutor) nothing is recorded.
+ */
+export function useStudentProgress(studentId: string | null, getSessionId: () => Promise<string | null>) {
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const currentRef = useRef<ProblemInProgress | null>(null);
+  const studentIdRef = useRef(studentId);
+  studentIdRef.current = studentId;
+
+  useEffect(() => {
+    setProfile(null);
+    setError(null);
+    if (!studentId) return;
+    let cancelled = false;
+    getStudentProfile(studentId)
+      .then((result) => {
+        if (!cancelled) setProfile(result);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  const startProblem = useCallback((problem: TutorProblem) => {
+    currentRef.current = {
+      question: problem.question,
+      tags: problem.tags ?? [],
+      startedAt: Date.now(),
+      tutorReplies: 0,
+      wrongAnswers: 0,
+      mistakes: [],
+    };
+  }, []);
+
+  const noteTutorReply = useCallback(() => {
+    if (currentRef.current) currentRef.current.tutorReplies += 1;
+  }, []);
+
+  const noteAnswerCheck = useCallback((result: AnswerCheckResult) => {
+    const current = currentRef.current;
+    if (!current || result.correct !== false) return;
+    current.wrongAnswers += 1;
+    if (result.mistake) current.mistakes.push(result.mistake);
+  }, []);
+
+  /** Ends the problem in progress, if any, and stores its outcome for the student. */
+  const finishProblem = useCallback(
+    (solved: boolean) => {
+      const current = currentRef.current;
+      currentRef.current = null;
+      const id = studentIdRef.current;
+      if (!current || !id) return;
+      const completedAt = new Date();
+      void getSessionId()
+        .then((sessionId) =>
+          recordOutcomes(id, [
+            {
+              question: current.question,
+              tags: current.tags,
+              solved,
+              // The first reply introduces the problem; every later one is help towards it
+              hintsUsed: Math.max(0, current.tutorReplies - 1),
+              wrongAnswers: current.wrongAnswers,
+              mistakes: current.mistakes,
+              durationMs: completedAt.getTime() - current.startedAt,
+              sessionId,
+              completedAt: completedAt.toISOString(),
+            },
+          ])
+        )
+        .then((updated) => {
+          if (studentIdRef.current === id) setProfile(updated);
+        })
+        .catch((recordError) => {
+          console.warn("Failed to record the problem outcome", recordError);
+        });
+    },
+    [getSessionId]
+  );
+
+  return {
+    profile,
+    error,
+    startProblem,
+    noteTutorReply,
+    noteAnswerCheck,
+    finishProblem,
+  };
+}
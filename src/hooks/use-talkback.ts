@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PcmPlayer, createPcmCapture, createPcmPlayer, loadPcmWorklets } from "../audio/pcm-worklets";
+
+// The capture worklet's output rate; the other side plays it back at the same rate
+const TALKBACK_SAMPLE_RATE = 16000;
+
+/**
+ * Direct voice between the teacher and a student, outside the AI session. While
+ * `active` the microphone is captured as base64 PCM16 frames for `send`, and
+ * `play` plays frames from the other side. Both ends of the classroom talk
+ * relay use it.
+ */
+export function useTalkback(active: boolean, send: (base64: string) => void) {
+  const [error, setError] = useState<Error | null>(null);
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const playerRef = useRef<PcmPlayer | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+    let stream: MediaStream | null = null;
+    let captureNode: AudioWorkletNode | null = null;
+    setError(null);
+
+    const start = async () => {
+      if (ctx.state === "suspended") await ctx.resume();
+      await loadPcmWorklets(ctx);
+      // A second capture of the microphone: the AI session's own track may be switched off meanwhile
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+      if (cancelled) return;
+
+      const player = createPcmPlayer(ctx, { sourceSampleRate: TALKBACK_SAMPLE_RATE });
+      player.node.connect(ctx.destination);
+      playerRef.current = player;
+
+      captureNode = createPcmCapture(ctx, (base64) => sendRef.current(base64));
+      ctx.createMediaStreamSource(stream).connect(captureNode);
+    };
+    start().catch((startError) => {
+      if (!cancelled) setError(startError instanceof Error ? startError : new Error(String(startError)));
+    });
+
+    return () => {
+      cancelled = true;
+      if (captureNode) {
+        captureNode.port.onmessage = null;
+        captureNode.disconnect();
+      }
+      playerRef.current?.dispose();
+      playerRef.current = null;
+      stream?.getTracks().forEach((track) => track.stop());
+      void ctx.close();
+    };
+  }, [active]);
+
+  const play = useCallback((base64: string) => {
+    playerRef.current?.enqueue(base64);
+  }, []);
+
+  return { play, error };
+}
@@ -0,0 +1,115 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_SPEECH_PACE, SpeechPaceId, isSpeechPaceId } from "../prompts/speech";
+import { VOICE_PROVIDERS, VoiceProviderId } from "./use-voice-tutor-session";
+import { DEFAULT_TURN_DETECTION, TurnDetectionSettings, isTurnDetectionMode } from "./voice-session";
+
+/** Speech settings for one provider. Unset fields fall back to the session language and tutoring mode. */
+export interface VoiceSettings {
+  voice?: string;
+  pace: SpeechPaceId;
+  maxResponseTokens?: number;
+}
+
+// Realtime caps a reply at 4096 output tokens; below ~64 the tutor gets cut off mid-sentence
+export const MIN_RESPONSE_TOKENS = 64;
+export const MAX_RESPONSE_TOKENS = 4096;
+
+export const MIN_SILENCE_DURATION_MS = 100;
+export const MAX_SILENCE_DURATION_MS = 3000;
+export const MAX_ECHO_WINDOW_MS = 5000;
+
+const VOICE_SETTINGS_STORAGE_KEY = "math-tutor.voice-settings";
+const TURN_DETECTION_STORAGE_KEY = "math-tutor.turn-detection";
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = { pace: DEFAULT_SPEECH_PACE };
+
+function parseVoiceSettings(value: any): VoiceSettings {
+  const tokens = value?.maxResponseTokens;
+  return {
+    voice: typeof value?.voice === "string" && value.voice ? value.voice : undefined,
+    pace: isSpeechPaceId(value?.pace) ? value.pace : DEFAULT_SPEECH_PACE,
+    maxResponseTokens:
+      Number.isInteger(tokens) && tokens >= MIN_RESPONSE_TOKENS && tokens <= MAX_RESPONSE_TOKENS ? tokens : undefined,
+  };
+}
+
+function readStoredSettings(): Record<VoiceProviderId, VoiceSettings> {
+  let stored: any = null;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(VOICE_SETTINGS_STORAGE_KEY) ?? "null");
+  } catch {
+    // Unavailable storage or a corrupt entry; start from the defaults
+  }
+  return Object.fromEntries(
+    VOICE_PROVIDERS.map(({ id }) => [id, stored?.[id] ? parseVoiceSettings(stored[id]) : DEFAULT_VOICE_SETTINGS])
+  ) as Record<VoiceProviderId, VoiceSettings>;
+}
+
+/**
+ * Voice, pace and reply length chosen for each provider (voices are not
+ * shared between providers), kept in localStorage so they survive reloads.
+ */
+export function useVoiceSettings(provider: VoiceProviderId) {
+  const [allSettings, setAllSettings] = useState(readStoredSettings);
+
+  const updateSettings = useCallback(
+    (changes: Partial<VoiceSettings>) => {
+      setAllSettings((current) => {
+        const next = { ...current, [provider]: { ...current[provider], ...changes } };
+        try {
+          window.localStorage.setItem(VOICE_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+        } catch {
+          // Storage can be unavailable (private mode); the settings still apply for this page load.
+        }
+        return next;
+      });
+    },
+    [provider]
+  );
+
+  return { settings: allSettings[provider], updateSettings };
+}
+
+function numberInRange(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === "number" && value >= min && value <= max ? value : fallback;
+}
+
+function readStoredTurnDetection(): TurnDetectionSettings {
+  let stored: any = null;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(TURN_DETECTION_STORAGE_KEY) ?? "null");
+  } catch {
+    // Unavailable storage or a corrupt entry; start from the defaults
+  }
+  const defaults = DEFAULT_TURN_DETECTION;
+  return {
+    mode: isTurnDetectionMode(stored?.mode) ? stored.mode : defaults.mode,
+    threshold: numberInRange(stored?.threshold, 0, 1, defaults.threshold),
+    silenceDurationMs: numberInRange(
+      stored?.silenceDurationMs,
+      MIN_SILENCE_DURATION_MS,
+      MAX_SILENCE_DURATION_MS,
+      defaults.silenceDurationMs
+    ),
+    eagerness: ["low", "medium", "high", "auto"].includes(stored?.eagerness) ? stored.eagerness : defaults.eagerness,
+    echoWindowMs: numberInRange(stored?.echoWindowMs, 0, MAX_ECHO_WINDOW_MS, defaults.echoWindowMs),
+  };
+}
+
+/** Turn-taking setting, shared by both providers and kept in localStorage. */
+export function useTurnDetectionSettings() {
+  const [turnDetection, setTurnDetection] = useState(readStoredTurnDetection);
+
+  const updateTurnDetection = useCallback((changes: Partial<TurnDetectionSettings>) => {
+    setTurnDetection((current) => {
+      const next = { ...current, ...changes };
+      try {
+        window.localStorage.setItem(TURN_DETECTION_STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage can be unavailable (private mode); the setting still applies for this page load.
+      }
+      return next;
+    });
+  }, []);
+
+  return { turnDetection, updateTurnDetection };
+}
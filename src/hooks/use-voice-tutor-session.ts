@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useLiveApi } from "./use-live-api";
+import { useOpenAiWebRtc } from "./use-openai-webrtc";
+import { VoiceTutorSession } from "./voice-session";
+
+export type VoiceProviderId = "gemini" | "openai";
+
+export interface VoiceProviderInfo {
+  id: VoiceProviderId;
+  label: string;
+}
+
+export const VOICE_PROVIDERS: VoiceProviderInfo[] = [
+  { id: "gemini", label: "Gemini Live" },
+  { id: "openai", label: "OpenAI Realtime" },
+];
+
+const PROVIDER_STORAGE_KEY = "math-tutor.provider";
+
+export function isVoiceProviderId(value: unknown): value is VoiceProviderId {
+  return VOICE_PROVIDERS.some((provider) => provider.id === value);
+}
+
+export function getVoiceProviderLabel(id: VoiceProviderId): string {
+  return VOICE_PROVIDERS.find((provider) => provider.id === id)?.label ?? id;
+}
+
+/**
+ * Returns the session for the selected provider. Every adapter hook is called
+ * on each render so hook order stays stable; idle adapters hold no resources.
+ */
+export function useVoiceTutorSession(provider: VoiceProviderId): VoiceTutorSession {
+  const sessions: Record<VoiceProviderId, VoiceTutorSession> = {
+    gemini: useLiveApi(),
+    openai: useOpenAiWebRtc(),
+  };
+  return sessions[provider];
+}
+
+function readStoredProvider(): VoiceProviderId | null {
+  // Old links to /openai still land on the OpenAI backend
+  if (window.location.pathname === "/openai") return "openai";
+  try {
+    const stored = window.localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return isVoiceProviderId(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the providers the server has credentials for and keeps the user's
+ * choice in localStorage so it survives reloads.
+ */
+export function useProviderSelection() {
+  const [availableProviders, setAvailableProviders] = useState<VoiceProviderInfo[]>([]);
+  const [provider, setProviderState] = useState<VoiceProviderId>(() => readStoredProvider() ?? "gemini");
+  const [isLoadingProviders, setIsLoadingProviders] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/providers")
+      .then((resp) => (resp.ok ? resp.json() : { providers: [] }))
+      .then((data: { providers?: string[] }) => {
+        if (cancelled) return;
+        const configured = VOICE_PROVIDERS.filter((info) => data.providers?.includes(info.id));
+        setAvailableProviders(configured);
+        setProviderState((current) =>
+          configured.length === 0 || configured.some((info) => info.id === current) ? current : configured[0].id
+        );
+      })
+      .catch((fetchError) => {
+        console.warn("Failed to load configured providers", fetchError);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingProviders(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setProvider = (next: VoiceProviderId) => {
+    setProviderState(next);
+    try {
+      window.localStorage.setItem(PROVIDER_STORAGE_KEY, next);
+    } catch {
+      // Storage can be unavailable (private mode); the choice still applies for this page load.
+    }
+  };
+
+  return { provider, setProvider, availableProviders, isLoadingProviders };
+}
@@ -0,0 +1,308 @@
+import { useCallback, useRef, useState } from "react";
+import type { PlaybackStats } from "../audio/pcm-worklets";
+import type { AnswerCheckResult } from "../math/answer-check";
+import type { SessionLanguageId } from "../prompts/languages";
+import type { SpeechPaceId } from "../prompts/speech";
+import type { ProblemAdvanceReason, ProblemPosition, TutorModeId } from "../prompts/math-tutor";
+
+export type ConversationRole = "user" | "agent";
+
+export interface InterruptionInfo {
+  /** Portion of the interrupted agent turn the student actually heard, when the provider can tell. */
+  heardText?: string;
+}
+
+/** "reconnecting" means the transport dropped and the hook is restoring the same conversation. */
+export type VoiceSessionState = "idle" | "connecting" | "connected" | "reconnecting";
+
+/** Wait before each automatic reconnect attempt; the session gives up after the last one. */
+export const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+
+export type TurnDetectionMode = "server-vad" | "semantic-vad" | "push-to-talk";
+
+export type SemanticVadEagerness = "low" | "medium" | "high" | "auto";
+
+/** How the session decides that the student has started and finished speaking. */
+export interface TurnDetectionSettings {
+  mode: TurnDetectionMode;
+  /** Server VAD: 0 to 1, how loud speech must be to count; raise it in noisy rooms. */
+  threshold: number;
+  /** Server VAD: silence that ends the student's turn. */
+  silenceDurationMs: number;
+  /** Semantic VAD: how readily a pause counts as the end of what the student meant to say. */
+  eagerness: SemanticVadEagerness;
+  /** Student transcripts arriving this soon after the tutor stops are treated as its own echo; 0 turns it off. */
+  echoWindowMs: number;
+}
+
+export const TURN_DETECTION_MODES: { id: TurnDetectionMode; label: string; description: string }[] = [
+  {
+    id: "server-vad",
+    label: "Voice activity",
+    description: "The turn ends after a stretch of silence. Tune the threshold and silence for the room.",
+  },
+  {
+    id: "semantic-vad",
+    label: "Semantic",
+    description: "The turn ends when the student sounds finished, so thinking pauses are not cut off.",
+  },
+  {
+    id: "push-to-talk",
+    label: "Push to talk",
+    description: "Hold the button or the spacebar while speaking. Nothing else is heard, which suits noisy rooms.",
+  },
+];
+
+export const DEFAULT_TURN_DETECTION: TurnDetectionSettings = {
+  mode: "server-vad",
+  threshold: 0.5,
+  silenceDurationMs: 500,
+  eagerness: "auto",
+  echoWindowMs: 1200,
+};
+
+export function isTurnDetectionMode(value: unknown): value is TurnDetectionMode {
+  return TURN_DETECTION_MODES.some((mode) => mode.id === value);
+}
+
+/** A still image from the student, such as a whiteboard sketch. */
+export interface ImageInput {
+  mimeType: string;
+  /** Base64 image bytes, without the data: URL prefix. */
+  data: string;
+}
+
+/** One problem of a session; a session works through one or more of them in order. */
+export interface TutorProblem {
+  question: string;
+  answer: string;
+  wrongAnswer?: string;
+  /** Skill tags from the problem bank, used for the student's skill model. */
+  tags?: string[];
+}
+
+/** A finished or in-progress turn, kept so a replacement connection can be given the conversation so far. */
+export interface HistoryTurn {
+  role: ConversationRole;
+  text: string;
+}
+
+/**
+ * Events every voice tutor backend reports, regardless of transport.
+ * Transcript callbacks receive incremental text; the UI is responsible for joining it.
+ */
+export interface VoiceTutorSessionEvents {
+  onUserTranscript?: (text: string) => void;
+  onAgentTranscript?: (text: string) => void;
+  /** Written form of the agent's current reply, with $...$ math, from the tutor's text channel. */
+  onAgentText?: (text: string) => void;
+  /** A step the tutor wrote on the whiteboard, in LaTeX. */
+  onWhiteboardStep?: (latex: string) => void;
+  /** An answer to the current problem went through the answer check; not reported once the problem is solved. */
+  onAnswerChecked?: (result: AnswerCheckResult) => void;
+  /** The answer check confirmed the student's answer to the current problem; reported once per problem. */
+  onProblemSolved?: () => void;
+  onTurnStart?: (role: ConversationRole) => void;
+  onTurnEnd?: (role: ConversationRole) => void;
+  onInterrupted?: (info: InterruptionInfo) => void;
+  onError?: (error: Error) => void;
+  onStateChange?: (state: VoiceSessionState) => void;
+}
+
+export interface ConnectConfig extends VoiceTutorSessionEvents, TutorProblem {
+  /** Position of this (the first) problem in the session's set; omitted for a single problem. */
+  position?: ProblemPosition;
+  /** The student's history from earlier sessions, added to the instructions. */
+  studentSummary?: string;
+  /** Pedagogy for the session; defaults to Socratic hints. */
+  mode?: TutorModeId;
+  /** Language the tutor speaks and listens in; defaults to English. */
+  language?: SessionLanguageId;
+  /** Explanations in `language`, math terms in English. */
+  bilingual?: boolean;
+  /** Prebuilt voice of the selected provider; defaults to the language's voice. */
+  voice?: string;
+  /** How quickly the tutor talks; defaults to normal. */
+  pace?: SpeechPaceId;
+  /** Cap on each reply's output tokens; defaults to the mode's limit. */
+  maxResponseTokens?: number;
+  /** Defaults to DEFAULT_TURN_DETECTION. */
+  turnDetection?: TurnDetectionSettings;
+}
+
+/**
+ * Provider-agnostic surface of a live tutoring session. Each backend hook
+ * (Gemini Live, OpenAI Realtime, ...) returns this shape so the UI never
+ * needs to know which provider it is talking to.
+ */
+export interface VoiceTutorSession {
+  connect: (config: ConnectConfig) => Promise<void>;
+  disconnect: () => void;
+  toggleMute: () => void;
+  setMuted: (muted: boolean) => void;
+  /**
+   * Sends a typed student turn; the tutor answers it in audio like a spoken one.
+   * False when it was not sent: no open session, or the teacher paused the tutor.
+   */
+  sendText: (text: string) => boolean;
+  /** Shows the tutor an image (e.g. a whiteboard sketch) along with a typed turn that asks about it; false if not sent. */
+  sendImage: (image: ImageInput, text: string) => boolean;
+  /**
+   * Moves the live session on to another problem of its set without reconnecting:
+   * the tutor's instructions are replaced and it introduces the new problem.
+   * Waits for the tutor to finish the reply it is giving.
+   */
+  advanceProblem: (problem: TutorProblem, position: ProblemPosition, reason: ProblemAdvanceReason) => void;
+  /** Push to talk: the student starts speaking (button or spacebar pressed); interrupts the tutor. */
+  startTalking: () => void;
+  /** Push to talk: the student finished speaking; the tutor replies to what was said in between. */
+  stopTalking: () => void;
+  /** True between startTalking and stopTalking. */
+  isTalking: boolean;
+  /**
+   * Private guidance from the teacher: added to the tutor's context and to its instructions
+   * for the rest of the session, without asking for a reply. Nothing is shown to the student.
+   */
+  whisper: (note: string) => void;
+  /**
+   * The teacher takes the session over: the tutor is cut off, stops hearing the student and
+   * says nothing until resumed. A problem switch waits until then. On resume the tutor picks
+   * the problem up again.
+   */
+  setTutorPaused: (paused: boolean) => void;
+  isTutorPaused: boolean;
+  isMicMuted: boolean;
+  /** Jitter buffer and underrun stats, for providers that play audio through the PCM worklet. */
+  getPlaybackStats?: () => PlaybackStats | null;
+  state: VoiceSessionState;
+  /** Model the provider reported for the current (or last) session. */
+  model: string | null;
+  isConnected: boolean;
+  isConnecting: boolean;
+  isReconnecting: boolean;
+  error: Error | null;
+  inputAnalyser: AnalyserNode | null;
+  outputAnalyser: AnalyserNode | null;
+}
+
+/**
+ * Shared state bookkeeping for provider hooks: keeps the connection state,
+ * the last error and the caller's event handlers in one place so every
+ * adapter reports them the same way.
+ */
+export function useVoiceSessionLifecycle() {
+  const [state, setState] = useState<VoiceSessionState>("idle");
+  const [error, setError] = useState<Error | null>(null);
+  const [model, setModel] = useState<string | null>(null);
+  const eventsRef = useRef<VoiceTutorSessionEvents>({});
+  const stateRef = useRef<VoiceSessionState>("idle");
+
+  const updateState = useCallback((next: VoiceSessionState) => {
+    if (stateRef.current === next) return;
+    stateRef.current = next;
+    setState(next);
+    eventsRef.current.onStateChange?.(next);
+  }, []);
+
+  const reportError = useCallback(
+    (err: unknown) => {
+      const normalized = err instanceof Error ? err : new Error(String(err));
+      setError(normalized);
+      eventsRef.current.onError?.(normalized);
+    },
+    []
+  );
+
+  const resetError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    state,
+    error,
+    model,
+    setModel,
+    eventsRef,
+    stateRef,
+    updateState,
+    reportError,
+    resetError,
+    isConnected: state === "connected",
+    isConnecting: state === "connecting",
+    isReconnecting: state === "reconnecting",
+  };
+}
+
+/**
+ * Schedules reconnect attempts with growing delays. `schedule` returns false
+ * once the attempts are used up; `reset` after a connection is restored.
+ */
+export function useReconnectBackoff() {
+  const attemptRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    attemptRef.current = 0;
+  }, [cancel]);
+
+  const schedule = useCallback(
+    (attempt: () => void): boolean => {
+      cancel();
+      const delay = RECONNECT_DELAYS_MS[attemptRef.current];
+      if (delay === undefined) return false;
+      attemptRef.current += 1;
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        attempt();
+      }, delay);
+      return true;
+    },
+    [cancel]
+  );
+
+  return { schedule, reset, cancel };
+}
+
+/**
+ * Running transcript of the session as the provider reported it. Consecutive
+ * text from the same side is joined into one turn, matching the transcript deltas.
+ */
+export function useConversationHistory() {
+  const turnsRef = useRef<HistoryTurn[]>([]);
+
+  const append = useCallback((role: ConversationRole, text: string) => {
+    const turns = turnsRef.current;
+    const last = turns[turns.length - 1];
+    if (last?.role === role) {
+      last.text += text;
+    } else {
+      turns.push({ role, text });
+    }
+  }, []);
+
+  /** Replaces the last agent turn with the part the student heard before interrupting. */
+  const trimLastAgentTurn = useCallback((heardText: string) => {
+    const last = turnsRef.current[turnsRef.current.length - 1];
+    if (last?.role === "agent") last.text = heardText;
+  }, []);
+
+  const clear = useCallback(() => {
+    turnsRef.current = [];
+  }, []);
+
+  const getTurns = useCallback(
+    (): HistoryTurn[] =>
+      turnsRef.current.map((turn) => ({ role: turn.role, text: turn.text.trim() })).filter((turn) => turn.text),
+    []
+  );
+
+  return { append, trimLastAgentTurn, clear, getTurns };
+}
@@ -1,15 +1,35 @@
-import {StrictMode} from 'react';
+import {ReactNode, StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
-import OpenAIApp from './OpenAIApp.tsx';
+import AdminApp from './AdminApp.tsx';
+import HistoryApp from './HistoryApp.tsx';
+import LoginApp from './LoginApp.tsx';
+import ProblemsApp from './ProblemsApp.tsx';
+import TeacherApp from './TeacherApp.tsx';
+import {AuthGate} from './components/AuthGate.tsx';
+import type {AuthUser, Role} from './api/auth.ts';
 import 'katex/dist/katex.min.css';
 import './index.css';
 
+interface Route {
+  roles: Role[];
+  render: (user: AuthUser) => ReactNode;
+}
+
+// Every page but sign-in is for a role; admins may open them all
+const ROUTES: Record<string, Route> = {
+  '/history': {roles: ['teacher'], render: (user) => <HistoryApp user={user} />},
+  '/teacher': {roles: ['teacher'], render: (user) => <TeacherApp user={user} />},
+  '/problems': {roles: ['teacher'], render: (user) => <ProblemsApp user={user} />},
+  '/admin': {roles: ['admin'], render: (user) => <AdminApp user={user} />},
+};
+const TUTOR_ROUTE: Route = {roles: ['student'], render: (user) => <App user={user} />};
+
 const pathname = window.location.pathname;
-const RootComponent = pathname === "/openai" ? OpenAIApp : App;
+const route = ROUTES[pathname] ?? TUTOR_ROUTE;
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <RootComponent />
+    {pathname === '/login' ? <LoginApp /> : <AuthGate roles={route.roles}>{route.render}</AuthGate>}
   </StrictMode>,
 );
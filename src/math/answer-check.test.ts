@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkAnswer } from "./answer-check.ts";
+
+describe("checkAnswer", () => {
+  it("accepts equivalent forms of a number", () => {
+    for (const [student, correct] of [
+      ["\\frac{1}{2}", "0.5"],
+      ["50%", "1/2"],
+      ["\\sqrt{4}", "2"],
+      ["$\\frac{6}{4}$", "1.5"],
+      ["12 cm", "12"],
+    ]) {
+      assert.equal(checkAnswer(student, correct).correct, true, `${student} vs ${correct}`);
+    }
+  });
+
+  it("accepts the same solutions written with ±, in any order", () => {
+    for (const [student, correct] of [
+      ["x = \\pm 2", "x = 2 or x = -2"],
+      ["-2, 2", "x = \\pm 2"],
+      ["x = 3 or x = 1", "x = 1, x = 3"],
+      ["2 \\pm \\sqrt{3}", "2 + \\sqrt{3}, 2 - \\sqrt{3}"],
+    ]) {
+      assert.equal(checkAnswer(student, correct).correct, true, `${student} vs ${correct}`);
+    }
+  });
+
+  it("compares expressions with variables at sample points", () => {
+    assert.equal(checkAnswer("2(x+1)", "2x+2").correct, true);
+    assert.equal(checkAnswer("(x+1)^2", "x^2+2x+1").correct, true);
+    assert.equal(checkAnswer("-(x-2)", "2-x").correct, true);
+    assert.equal(checkAnswer("x^2+1", "x^2+2x+1").correct, false);
+  });
+
+  it("accepts a decimal rounded to at least two places", () => {
+    const rounded = checkAnswer("0.33", "1/3");
+    assert.equal(rounded.correct, true);
+    assert.match(rounded.detail, /rounded to 2 decimal places/);
+    assert.equal(checkAnswer("2\\pi", "6.28").correct, true);
+    assert.equal(checkAnswer("0.3", "1/3").correct, false);
+  });
+
+  it("keeps the order of a tuple", () => {
+    assert.equal(checkAnswer("(2, 3)", "(2,3)").correct, true);
+    assert.equal(checkAnswer("(3, 2)", "(2,3)").correct, false);
+  });
+
+  it("rejects a solution for another variable", () => {
+    assert.equal(checkAnswer("y = 2", "x = 2").correct, false);
+  });
+
+  it("names a sign error", () => {
+    for (const [student, correct] of [
+      ["x = -3", "x = 3"],
+      ["-1/2", "\\frac{1}{2}"],
+      ["x - 2", "2 - x"],
+    ]) {
+      const result = checkAnswer(student, correct);
+      assert.equal(result.correct, false, `${student} vs ${correct}`);
+      assert.equal(result.mistake, "sign", `${student} vs ${correct}`);
+    }
+  });
+
+  it("names missing and extra solutions", () => {
+    const missing = checkAnswer("x = 2", "x = \\pm 2");
+    assert.equal(missing.correct, false);
+    assert.equal(missing.mistake, "missing-solution");
+
+    const extra = checkAnswer("x = 2, x = -2, x = 5", "x = \\pm 2");
+    assert.equal(extra.correct, false);
+    assert.equal(extra.mistake, "extra-solution");
+  });
+
+  it("leaves a plain wrong answer without a mistake kind", () => {
+    const result = checkAnswer("7", "5");
+    assert.equal(result.correct, false);
+    assert.equal(result.mistake, undefined);
+  });
+
+  it("leaves malformed input to the tutor", () => {
+    for (const student of ["hello", "2 +", "x = = 2", "", "(2"]) {
+      assert.equal(checkAnswer(student, "x = 2").correct, null, JSON.stringify(student));
+    }
+  });
+
+  it("still matches unreadable answers written identically", () => {
+    assert.equal(checkAnswer("no solution", "No solution.").correct, true);
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Decides whether a student's answer is mathematically the same as the stored
+ * one. Both answers are parsed into expressions and compared numerically, so
+ * `x = ±2`, `x = 2 or x = -2` and `-2, 2` all match, as do `\frac{1}{2}`,
+ * `0.5` and `50%`. Expressions with free variables are compared by evaluating
+ * them at a handful of sample points.
+ */
+
+/** What kind of slip a wrong answer shows, when it is one the checker can recognize. */
+export type AnswerMistake = "sign" | "missing-solution" | "extra-solution";
+
+export interface AnswerCheckResult {
+  /** null when either answer could not be read as math; the tutor has to judge it itself. */
+  correct: boolean | null;
+  /** One sentence for the tutor explaining the verdict. */
+  detail: string;
+  /** Set on some wrong answers; recorded in the student's profile. */
+  mistake?: AnswerMistake;
+}
+
+type Expr =
+  | { kind: "num"; value: number; /** Digits after the point when written as a decimal. */ decimals?: number }
+  | { kind: "var"; name: string }
+  | { kind: "neg"; arg: Expr }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: Expr; right: Expr }
+  | { kind: "call"; fn: string; arg: Expr };
+
+/** One solution: an optional `variable =` and a value, or several for a tuple like `(2, 3)`. */
+interface AnswerPart {
+  variable?: string;
+  values: Expr[];
+}
+
+type ValueMatch = { kind: "exact" } | { kind: "rounded"; decimals: number } | { kind: "different" };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+// Longest first, so "sqrt" is not read as "s*q*r*t" and "exp" wins over "e"
+const NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length);
+
+// Fixed sample values for free variables; irrational-ish so coincidental matches are unlikely
+const SAMPLE_POINTS = [0.37, 1.21, -0.83, 2.9, -1.7, 0.55];
+const RELATIVE_TOLERANCE = 1e-9;
+// A rounded decimal needs at least this many places to count; "0.3" is not an answer of 1/3
+const MIN_ROUNDED_DECIMALS = 2;
+
+/** Rewrites LaTeX and typographic math into the plain syntax the parser reads. */
+function normalize(input: string): string {
+  let text = input.toLowerCase().replace(/\$/g, " ");
+  text = text.replace(/\\left|\\right|\\displaystyle|\\[,;:! ]/g, " ");
+  // Innermost first, so nested fractions and roots unwrap one level per pass
+  for (let pass = 0; pass < 10; pass++) {
+    const before = text;
+    text = text
+      .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, "(($1)/($2))")
+      .replace(/\\sqrt\s*\[([^\]]*)\]\s*\{([^{}]*)\}/g, "(($2)^(1/($1)))")
+      .replace(/\\sqrt\s*\{([^{}]*)\}/g, "sqrt($1)");
+    if (text === before) break;
+  }
+  text = text
+    .replace(/\\(?:cdot|times)/g, "*")
+    .replace(/\\div/g, "/")
+    .replace(/\\(?:pm|mp)/g, "±")
+    .replace(/\\pi/g, "pi")
+    .replace(/\\(sqrt|sin|cos|tan|ln|log|exp)/g, "$1")
+    .replace(/\\text\s*\{([^{}]*)\}/g, " $1 ")
+    .replace(/[{[]/g, "(")
+    .replace(/[}\]]/g, ")")
+    .replace(/[−–—]/g, "-")
+    .replace(/[×·]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/∓/g, "±")
+    .replace(/π/g, "pi")
+    .replace(/√/g, "sqrt")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/\*\*/g, "^")
+    .replace(/°|\bdegrees?\b/g, " ")
+    // Thousands separators, so "1,000" is one number rather than two solutions
+    .replace(/(\d),(\d{3})(?!\d)/g, "$1$2");
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Splits at top-level separators: commas and semicolons outside brackets, and the words "or"/"and". */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    if (depth === 0 && (char === "," || char === ";")) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts
+    .flatMap((part) => part.split(/\s+(?:or|and)\s+|&/))
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/** `2 ± sqrt(3)` becomes `2 + sqrt(3)` and `2 - sqrt(3)`; every ± doubles the list. */
+function expandPlusMinus(text: string): string[] {
+  const index = text.indexOf("±");
+  if (index < 0) return [text];
+  const head = text.slice(0, index);
+  const tail = text.slice(index + 1);
+  return [...expandPlusMinus(`${head}+${tail}`), ...expandPlusMinus(`${head}-${tail}`)];
+}
+
+type Token = { type: "num"; value: number; decimals?: number } | { type: "name"; value: string } | { type: "op"; value: string };
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === " ") {
+      i++;
+      continue;
+    }
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(i));
+    if (number) {
+      const literal = number[1];
+      const point = literal.indexOf(".");
+      tokens.push({
+        type: "num",
+        value: parseFloat(literal),
+        decimals: point >= 0 ? literal.length - point - 1 : undefined,
+      });
+      i += literal.length;
+      continue;
+    }
+    const word = /^[a-z]+/.exec(text.slice(i));
+    if (word) {
+      const end = i + word[0].length;
+      let letters = 0;
+      while (i < end) {
+        // Anything that is not a known name is a single-letter variable: "xy" means x*y
+        const value = NAMES.find((candidate) => text.startsWith(candidate, i) && i + candidate.length <= end) ?? text[i];
+        if (value.length === 1) letters++;
+        tokens.push({ type: "name", value });
+        i += value.length;
+      }
+      // Three or more variables in a row is a word ("yes", "isosceles"), not a product
+      if (letters >= 3) return null;
+      continue;
+    }
+    if ("+-*/^()%".includes(char)) {
+      tokens.push({ type: "op", value: char });
+      i++;
+      continue;
+    }
+    return null;
+  }
+  return tokens;
+}
+
+/** Recursive-descent parser with the usual precedence and implicit multiplication (`2x`, `3(x+1)`). */
+function parseExpression(text: string): Expr | null {
+  const tokens = tokenize(text);
+  if (!tokens || tokens.length === 0) return null;
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === "op" && peek()!.value === value;
+  const startsOperand = () => {
+    const token = peek();
+    return token !== undefined && (token.type !== "op" || token.value === "(");
+  };
+
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[position++].value as "+" | "-";
+      left = { kind: "bin", op, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const parseProduct = (): Expr => {
+    let left = parseUnary();
+    for (;;) {
+      if (isOp("*") || isOp("/")) {
+        const op = tokens[position++].value as "*" | "/";
+        left = { kind: "bin", op, left, right: parseUnary() };
+      } else if (startsOperand()) {
+        left = { kind: "bin", op: "*", left, right: parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): Expr => {
+    if (isOp("-")) {
+      position++;
+      return { kind: "neg", arg: parseUnary() };
+    }
+    if (isOp("+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Expr => {
+    let base = parsePrimary();
+    if (isOp("%")) {
+      position++;
+      base = { kind: "bin", op: "/", left: base, right: { kind: "num", value: 100 } };
+    }
+    if (isOp("^")) {
+      position++;
+      return { kind: "bin", op: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[position++];
+    if (!token) throw new Error("Unexpected end of expression");
+    if (token.type === "num") return { kind: "num", value: token.value, decimals: token.decimals };
+    if (token.type === "name") {
+      if (token.value in FUNCTIONS) return { kind: "call", fn: token.value, arg: parsePower() };
+      if (token.value in CONSTANTS) return { kind: "num", value: CONSTANTS[token.value] };
+      return { kind: "var", name: token.value };
+    }
+    if (token.value === "(") {
+      const inner = parseSum();
+      if (!isOp(")")) throw new Error("Unclosed parenthesis");
+      position++;
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  try {
+    const expr = parseSum();
+    return position === tokens.length ? expr : null;
+  } catch {
+    return null;
+  }
+}
+
+function evaluate(expr: Expr, scope: Record<string, number>): number {
+  switch (expr.kind) {
+    case "num":
+      return expr.value;
+    case "var":
+      return scope[expr.name] ?? NaN;
+    case "neg":
+      return -evaluate(expr.arg, scope);
+    case "call":
+      return FUNCTIONS[expr.fn](evaluate(expr.arg, scope));
+    case "bin": {
+      const left = evaluate(expr.left, scope);
+      const right = evaluate(expr.right, scope);
+      if (expr.op === "+") return left + right;
+      if (expr.op === "-") return left - right;
+      if (expr.op === "*") return left * right;
+      if (expr.op === "/") return left / right;
+      return Math.pow(left, right);
+    }
+  }
+}
+
+function collectVariables(expr: Expr, into: Set<string>): Set<string> {
+  if (expr.kind === "var") into.add(expr.name);
+  if (expr.kind === "neg" || expr.kind === "call") collectVariables(expr.arg, into);
+  if (expr.kind === "bin") {
+    collectVariables(expr.left, into);
+    collectVariables(expr.right, into);
+  }
+  return into;
+}
+
+/** Decimal places of a plain decimal literal such as `0.33` or `-1.5`, else undefined. */
+function writtenDecimals(expr: Expr): number | undefined {
+  if (expr.kind === "neg") return writtenDecimals(expr.arg);
+  return expr.kind === "num" ? expr.decimals : undefined;
+}
+
+function closeEnough(a: number, b: number): boolean {
+  return Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+function compareValues(student: Expr, correct: Expr): ValueMatch {
+  const variables = [...collectVariables(correct, collectVariables(student, new Set()))];
+  if (variables.length === 0) {
+    const a = evaluate(student, {});
+    const b = evaluate(correct, {});
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return { kind: "different" };
+    if (closeEnough(a, b)) return { kind: "exact" };
+    // A rounded decimal on either side counts if the other side rounds to it
+    const decimals = writtenDecimals(student) ?? writtenDecimals(correct);
+    if (decimals !== undefined && decimals >= MIN_ROUNDED_DECIMALS && Math.abs(a - b) <= 0.5 * 10 ** -decimals + 1e-12) {
+      return { kind: "rounded", decimals };
+    }
+    return { kind: "different" };
+  }
+
+  let compared = 0;
+  for (let i = 0; i < SAMPLE_POINTS.length; i++) {
+    const scope = Object.fromEntries(
+      variables.map((name, index) => [name, SAMPLE_POINTS[(i + index) % SAMPLE_POINTS.length] + index * 0.11])
+    );
+    const a = evaluate(student, scope);
+    const b = evaluate(correct, scope);
+    // Points outside the domain (sqrt of a negative, division by zero) say nothing either way
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+    if (!closeEnough(a, b)) return { kind: "different" };
+    compared++;
+  }
+  return compared >= 3 ? { kind: "exact" } : { kind: "different" };
+}
+
+function parsePart(text: string): AnswerPart | null {
+  let variable: string | undefined;
+  let valueText = text;
+  const assignment = /^([a-z])\s*=(.*)$/.exec(text);
+  if (assignment) {
+    variable = assignment[1];
+    valueText = assignment[2];
+  }
+  if (valueText.includes("=")) return null;
+
+  // Drop a trailing unit ("12 cm", "3.5 m^2") after a number or closing bracket
+  valueText = valueText.replace(/([\d)])\s+(?!(?:or|and)\b)[a-z]{2,}(\^\d)?\.?$/, "$1").trim();
+
+  const tuple = /^\((.*)\)$/.exec(valueText);
+  if (tuple && splitTopLevel(tuple[1]).length > 1) {
+    const values = splitTopLevel(tuple[1]).map(parseExpression);
+    return values.every((value): value is Expr => value !== null) ? { variable, values } : null;
+  }
+  const value = parseExpression(valueText);
+  return value ? { variable, values: [value] } : null;
+}
+
+function parseAnswer(answer: string): AnswerPart[] | null {
+  const parts = splitTopLevel(normalize(answer)).flatMap(expandPlusMinus).map(parsePart);
+  if (parts.length === 0 || parts.some((part) => part === null)) return null;
+  return parts as AnswerPart[];
+}
+
+function matchParts(student: AnswerPart, correct: AnswerPart): ValueMatch {
+  if (student.variable && correct.variable && student.variable !== correct.variable) return { kind: "different" };
+  if (student.values.length !== correct.values.length) return { kind: "different" };
+  let rounded: ValueMatch | null = null;
+  for (let i = 0; i < correct.values.length; i++) {
+    const match = compareValues(student.values[i], correct.values[i]);
+    if (match.kind === "different") return match;
+    if (match.kind === "rounded") rounded = match;
+  }
+  return rounded ?? { kind: "exact" };
+}
+
+/** Pairs each correct solution with one of the student's, in any order. */
+function pairSolutions(student: AnswerPart[], correct: AnswerPart[]) {
+  const unmatched = [...student];
+  let roundedTo: number | null = null;
+  let found = 0;
+  for (const part of correct) {
+    const index = unmatched.findIndex((candidate) => matchParts(candidate, part).kind !== "different");
+    if (index < 0) continue;
+    const match = matchParts(unmatched[index], part);
+    if (match.kind === "rounded") roundedTo = Math.min(roundedTo ?? Infinity, match.decimals);
+    unmatched.splice(index, 1);
+    found++;
+  }
+  return { found, extra: unmatched.length, roundedTo };
+}
+
+function negateParts(parts: AnswerPart[]): AnswerPart[] {
+  return parts.map((part) => ({ ...part, values: part.values.map((value): Expr => ({ kind: "neg", arg: value })) }));
+}
+
+export function checkAnswer(studentAnswer: string, correctAnswer: string): AnswerCheckResult {
+  const student = parseAnswer(studentAnswer);
+  const correct = parseAnswer(correctAnswer);
+  if (!student || !correct) {
+    const same = normalize(studentAnswer).replace(/[\s.]/g, "") === normalize(correctAnswer).replace(/[\s.]/g, "");
+    return same
+      ? { correct: true, detail: "The answer matches the correct answer exactly." }
+      : { correct: null, detail: "These answers could not be compared automatically; judge the answer yourself." };
+  }
+
+  const { found, extra, roundedTo } = pairSolutions(student, correct);
+  if (found === correct.length && extra === 0) {
+    return roundedTo === null
+      ? { correct: true, detail: "The answer is equivalent to the correct answer." }
+      : { correct: true, detail: `The answer matches the correct answer rounded to ${roundedTo} decimal places.` };
+  }
+  if (found > 0 && extra === 0) {
+    return {
+      correct: false,
+      detail: `The answer gives ${found} of the ${correct.length} solutions and misses the rest.`,
+      mistake: "missing-solution",
+    };
+  }
+  if (found > 0) {
+    return {
+      correct: false,
+      detail: "The answer includes a correct solution but also a value that is not a solution.",
+      mistake: "extra-solution",
+    };
+  }
+  // Every value right apart from its sign is a slip worth naming, not an unrelated answer
+  const negated = pairSolutions(negateParts(student), correct);
+  if (negated.found === correct.length && negated.extra === 0) {
+    return { correct: false, detail: "The answer is the correct answer with the opposite sign.", mistake: "sign" };
+  }
+  return { correct: false, detail: "The answer is not equivalent to the correct answer." };
+}
@@ -0,0 +1,97 @@
+export type SessionLanguageId = "en" | "hi" | "es";
+
+/** A language a tutoring session can be held in, with the provider settings that go with it. */
+export interface SessionLanguage {
+  id: SessionLanguageId;
+  /** Shown in the picker, in the language itself. */
+  label: string;
+  /** Name used inside the (English) system instruction. */
+  name: string;
+  /** Short tag shown on transcript bubbles. */
+  tag: string;
+  /** ISO-639-1 hint for OpenAI input transcription. */
+  transcriptionLanguage: string;
+  /** Default prebuilt voices; both providers' voices are multilingual, these just suit the language well. */
+  geminiVoice: string;
+  openAiVoice: string;
+  /** What a voice says when previewed in the settings panel. */
+  previewText: string;
+}
+
+export const SESSION_LANGUAGES: SessionLanguage[] = [
+  {
+    id: "en",
+    label: "English",
+    name: "English",
+    tag: "EN",
+    transcriptionLanguage: "en",
+    geminiVoice: "Zephyr",
+    openAiVoice: "alloy",
+    previewText: "Hi! I'm your math tutor. Let's work through this problem together, one step at a time.",
+  },
+  {
+    id: "hi",
+    label: "हिन्दी (Hindi)",
+    name: "Hindi",
+    tag: "HI",
+    transcriptionLanguage: "hi",
+    geminiVoice: "Kore",
+    openAiVoice: "shimmer",
+    previewText: "नमस्ते! मैं आपका गणित ट्यूटर हूँ। चलिए इस सवाल को एक-एक कदम करके हल करते हैं।",
+  },
+  {
+    id: "es",
+    label: "Español (Spanish)",
+    name: "Spanish",
+    tag: "ES",
+    transcriptionLanguage: "es",
+    geminiVoice: "Puck",
+    openAiVoice: "coral",
+    previewText: "¡Hola! Soy tu tutor de matemáticas. Vamos a resolver este problema juntos, paso a paso.",
+  },
+];
+
+export const DEFAULT_SESSION_LANGUAGE: SessionLanguageId = "en";
+
+export function isSessionLanguageId(value: unknown): value is SessionLanguageId {
+  return SESSION_LANGUAGES.some((language) => language.id === value);
+}
+
+export function getSessionLanguage(id: SessionLanguageId = DEFAULT_SESSION_LANGUAGE): SessionLanguage {
+  return SESSION_LANGUAGES.find((language) => language.id === id) ?? SESSION_LANGUAGES[0];
+}
+
+// Frequent words that are distinctly Spanish or English; shared words ("a", "no", "me") are left out
+const SPANISH_WORDS = new Set([
+  "el", "la", "los", "las", "que", "es", "y", "de", "del", "por", "para", "con", "una", "uno", "pero", "porque",
+  "cómo", "como", "qué", "sí", "tengo", "tiene", "hay", "muy", "bien", "entonces", "puedes", "ahora", "número",
+  "igual", "menos", "más", "dividir", "multiplicar", "respuesta", "gracias", "hola", "vamos", "esto", "eso",
+]);
+const ENGLISH_WORDS = new Set([
+  "the", "is", "and", "of", "what", "how", "you", "it", "that", "this", "to", "do", "i", "we", "can", "so",
+  "then", "equals", "minus", "plus", "times", "answer", "number", "think", "need", "let's", "okay", "yes",
+]);
+
+/**
+ * Best guess at the language of one transcript turn. Neither provider reports
+ * it, so this looks at the script (Devanagari means Hindi) and, for Latin text,
+ * at common words and Spanish-only characters. Returns undefined when unsure.
+ */
+export function detectLanguage(text: string): SessionLanguageId | undefined {
+  const letters = text.replace(/\$[^$]*\$/g, " ").replace(/[^\p{L}\s']/gu, " ");
+  const devanagari = (text.match(/\p{Script=Devanagari}/gu) ?? []).length;
+  const latin = (letters.match(/\p{Script=Latin}/gu) ?? []).length;
+  if (devanagari === 0 && latin === 0) return undefined;
+  // Bilingual turns put English math terms into Hindi sentences, so a share of Devanagari is enough
+  if (devanagari * 3 >= latin) return "hi";
+
+  const words = letters.toLowerCase().split(/\s+/).filter(Boolean);
+  let spanish = /[ñ¿¡áéíóú]/i.test(text) ? 2 : 0;
+  let english = 0;
+  for (const word of words) {
+    if (SPANISH_WORDS.has(word)) spanish++;
+    if (ENGLISH_WORDS.has(word)) english++;
+  }
+  if (spanish === 0 && english === 0) return undefined;
+  return spanish > english ? "es" : "en";
+}
@@ -1,8 +1,301 @@
-export function buildMathTutorSystemInstruction(
-  question: string,
-  answer: string,
-  wrongAnswer?: string
-): string {
+import { SessionLanguageId, getSessionLanguage } from "./languages";
+import { SpeechPaceId, getSpeechPace } from "./speech";
+
+/**
+ * Function the tutor calls with the written form of what it is about to say.
+ * Speech transcripts spell math out ("x squared minus four"); this channel
+ * carries it as $...$ LaTeX so the conversation panel can typeset it.
+ */
+export const DISPLAY_TEXT_TOOL = {
+  name: "display_text",
+  description:
+    "Shows the student the written version of what you are about to say. Call it at the start of every reply, before speaking.",
+  parameters: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description:
+          "Exactly what you will say, written out, with every mathematical expression in $...$ LaTeX (for example $x^2 - 4$).",
+      },
+    },
+    required: ["text"],
+  },
+} as const;
+
+/**
+ * Function the tutor calls to have a student's answer checked against the
+ * stored one in our own code, instead of judging equivalence itself.
+ */
+export const CHECK_ANSWER_TOOL = {
+  name: "check_answer",
+  description:
+    "Checks whether the student's answer to the current problem is correct. Call it whenever the student gives an answer, before telling them whether it is right.",
+  parameters: {
+    type: "object",
+    properties: {
+      studentAnswer: {
+        type: "string",
+        description:
+          "The student's answer in math notation, not words (for example \"x = 2 or x = -2\", \"3/4\", \"2x + 6\").",
+      },
+    },
+    required: ["studentAnswer"],
+  },
+} as const;
+
+/** Function the tutor calls to write one step of working on the shared whiteboard. */
+export const WHITEBOARD_TOOL = {
+  name: "write_on_whiteboard",
+  description:
+    "Writes one step of working on the whiteboard the student can see, such as an equation, a fraction or a factorization.",
+  parameters: {
+    type: "object",
+    properties: {
+      latex: {
+        type: "string",
+        description: "The step as LaTeX without $ delimiters (for example \\frac{3}{4} + \\frac{1}{8} = \\frac{7}{8}).",
+      },
+    },
+    required: ["latex"],
+  },
+} as const;
+
+export type TutorModeId = "socratic" | "worked-example" | "quiz" | "exam-review" | "check-work";
+
+/** A pedagogy the tutor can run the session in. */
+export interface TutorMode {
+  id: TutorModeId;
+  label: string;
+  /** One line for the mode picker. */
+  description: string;
+  /** Mode-specific rules, added to the system instruction as a numbered list. */
+  rules: string[];
+  /** Sent as the first student turn so the tutor opens the session the way this mode expects. */
+  greeting: string;
+  /** Longest spoken reply, in sentences, written into the instruction. */
+  maxSentences: number;
+  /** Hard cap on each reply's output tokens, for providers that accept one. */
+  maxResponseTokens: number;
+}
+
+export const TUTOR_MODES: TutorMode[] = [
+  {
+    id: "socratic",
+    label: "Socratic hints",
+    description: "Guiding questions and small hints; the student does the solving.",
+    rules: [
+      'First introduce yourself briefly as their helper (e.g., "Hi, I\'m here to help you with this problem.")',
+      'Do NOT give a hint on the first turn. Instead, ask: "What do you need to know or understand to solve this question?" or "What would help you get started?"',
+      "Wait for the student to tell you what they need. Based on their response, give targeted help. Use Socratic method - ask guiding questions.",
+      "If the student provided a wrong answer, you can acknowledge it when they respond, and tailor your help based on your analysis.",
+      "Do not give the full solution unless the student is clearly stuck after multiple hints.",
+    ],
+    greeting: "The student is ready. Introduce yourself and ask what they need to solve the question.",
+    maxSentences: 3,
+    maxResponseTokens: 320,
+  },
+  {
+    id: "worked-example",
+    label: "Worked example",
+    description: "Walks through a similar problem step by step, then the student tries theirs.",
+    rules: [
+      "Introduce yourself briefly, then walk through a similar example with different numbers, one step per reply, explaining why each step is taken.",
+      "Check the student is following after each step before moving on.",
+      "Never solve the student's own problem. After the example, ask them to apply the same steps to it and guide them through it.",
+      "Use the whiteboard for each step of the example.",
+    ],
+    greeting:
+      "The student is ready. Introduce yourself briefly and start walking through a similar example, beginning with its first step.",
+    maxSentences: 5,
+    maxResponseTokens: 500,
+  },
+  {
+    id: "quiz",
+    label: "Quiz me",
+    description: "Short questions on the skills the problem needs, building up to it.",
+    rules: [
+      "Introduce yourself briefly, then quiz the student with short questions on the skills this problem needs, easiest first, one question at a time.",
+      "After each answer say whether it is right in a few words, correct it briefly if not, and ask the next question.",
+      "Once they have the skills, ask them to solve the problem itself.",
+      "Do not explain at length; keep the pace quick.",
+    ],
+    greeting: "The student is ready. Introduce yourself in one sentence and ask the first quiz question.",
+    maxSentences: 2,
+    maxResponseTokens: 200,
+  },
+  {
+    id: "exam-review",
+    label: "Exam review",
+    description: "Brisk review with common exam mistakes and what to remember.",
+    rules: [
+      "Introduce yourself briefly and ask the student to attempt the problem as they would in an exam.",
+      "Point out the mistakes examiners commonly see on this kind of problem, and the method marks they would lose.",
+      "Mention key formulas or facts worth memorising when they come up.",
+      "When the problem is solved, sum up in one or two sentences what to remember for the exam.",
+    ],
+    greeting: "The student is ready. Introduce yourself briefly and ask them to attempt the problem as if it were an exam question.",
+    maxSentences: 4,
+    maxResponseTokens: 400,
+  },
+  {
+    id: "check-work",
+    label: "Check my work",
+    description: "The student explains their working; the tutor finds the first mistake.",
+    rules: [
+      "Introduce yourself briefly and ask the student to walk you through their working step by step.",
+      "Listen to each step. Confirm correct steps in a few words.",
+      "When you reach the first incorrect step, say which step it is and ask a question that helps them see the mistake. Do not correct it for them.",
+      "If every step is right, confirm their answer with the answer checking function.",
+    ],
+    greeting: "The student is ready. Introduce yourself briefly and ask them to explain their working from the first step.",
+    maxSentences: 3,
+    maxResponseTokens: 320,
+  },
+];
+
+export const DEFAULT_TUTOR_MODE: TutorModeId = "socratic";
+
+export function isTutorModeId(value: unknown): value is TutorModeId {
+  return TUTOR_MODES.some((mode) => mode.id === value);
+}
+
+export function getTutorMode(id: TutorModeId = DEFAULT_TUTOR_MODE): TutorMode {
+  return TUTOR_MODES.find((mode) => mode.id === id) ?? TUTOR_MODES[0];
+}
+
+/** Where the current problem sits in the session's problem set; `index` is zero-based. */
+export interface ProblemPosition {
+  index: number;
+  total: number;
+}
+
+/** Why the session moved on to the next problem. */
+export type ProblemAdvanceReason = "solved" | "teacher";
+
+export interface MathTutorPromptOptions {
+  question: string;
+  answer: string;
+  wrongAnswer?: string;
+  mode?: TutorModeId;
+  language?: SessionLanguageId;
+  /** Explain in `language` but keep mathematical terms in English. */
+  bilingual?: boolean;
+  /** How quickly the tutor should talk; defaults to a normal pace. */
+  pace?: SpeechPaceId;
+  /** Set when the session works through several problems; defaults to a single problem. */
+  position?: ProblemPosition;
+  /** What earlier sessions showed about this student, one observation per line (see the students API). */
+  studentSummary?: string;
+  /** Private guidance the teacher sent during this session, oldest first. */
+  teacherNotes?: string[];
+}
+
+function buildLanguageSection(languageId: SessionLanguageId | undefined, bilingual: boolean): string {
+  const { id, name } = getSessionLanguage(languageId);
+  if (bilingual && id !== "en") {
+    return `LANGUAGE: Explain everything in ${name}, but say mathematical terms in English (for example "denominator", "factor", "quadratic equation", "square root"), the way bilingual classrooms do. The student may answer in ${name}, English or a mix; keep replying in ${name} with English math terms. Never switch to any other language. The written text you show follows the same rule.`;
+  }
+  return `LANGUAGE: Always respond in ${name} only, including the written text you show. Never switch to any other language, even if the student does.`;
+}
+
+function buildStudentSection(summary: string | undefined): string {
+  if (!summary?.trim()) return "";
+  return `STUDENT HISTORY (from earlier sessions):
+${summary.trim()}
+Use this to anticipate the mistakes this student tends to make and to decide how much support to give at first. Do not mention these records to the student, and judge this problem on what they say now.
+
+`;
+}
+
+function buildTeacherNotesSection(notes: string[] | undefined): string {
+  if (!notes?.length) return "";
+  return `TEACHER NOTES (sent by the student's teacher during this session):
+${notes.map((note) => `- ${note}`).join("\n")}
+Follow this guidance. The student cannot see these notes; never quote or mention them.
+
+`;
+}
+
+function buildProblemSetSection(position: ProblemPosition | undefined): string {
+  if (!position || position.total <= 1) return "";
+  const isLast = position.index >= position.total - 1;
+  return `PROBLEM SET: This is problem ${position.index + 1} of ${position.total} in this session. Work only on this problem. ${
+    isLast
+      ? "It is the last one: when the student solves it, congratulate them on finishing the whole set."
+      : "When the student solves it, congratulate them in one sentence and stop; the next problem will be given to you. Do not start another problem yourself."
+  }
+`;
+}
+
+/** Reminds the model of the session language in turns sent on the student's behalf. */
+function withLanguageReminder(text: string, language: SessionLanguageId | undefined, bilingual: boolean): string {
+  const { id, name } = getSessionLanguage(language);
+  if (id === "en") return text;
+  return bilingual ? `${text} Speak ${name}, keeping math terms in English.` : `${text} Speak ${name}.`;
+}
+
+/** The first student turn that opens the session: the mode's greeting, in the session language. */
+export function buildGreetingTrigger({
+  mode,
+  language,
+  bilingual = false,
+}: Pick<MathTutorPromptOptions, "mode" | "language" | "bilingual">): string {
+  return withLanguageReminder(getTutorMode(mode).greeting, language, bilingual);
+}
+
+/** The turn that moves a running session on to its next problem, sent after the instruction is updated. */
+export function buildProblemTransitionTrigger({
+  position,
+  reason,
+  language,
+  bilingual = false,
+}: Pick<MathTutorPromptOptions, "language" | "bilingual"> & {
+  position: ProblemPosition;
+  reason: ProblemAdvanceReason;
+}): string {
+  const previous =
+    reason === "solved" ? "The student solved the previous problem." : "The teacher moved the session on.";
+  return withLanguageReminder(
+    `${previous} Now start problem ${position.index + 1} of ${position.total} from your updated instructions. Do not introduce yourself again: say in one sentence what the new problem asks, then continue the way your tutoring mode says.`,
+    language,
+    bilingual
+  );
+}
+
+/** A private note from the teacher, added to a running session's context without asking for a reply. */
+export function buildTeacherNoteTurn(note: string): string {
+  return `TEACHER NOTE (private; the student cannot see or hear this): ${note}
+Follow this guidance from your next reply on. Do not reply to this note, read it out or mention it.`;
+}
+
+/** The turn that hands the session back to the tutor after the teacher paused it to talk to the student. */
+export function buildTutorResumeTrigger({
+  language,
+  bilingual = false,
+}: Pick<MathTutorPromptOptions, "language" | "bilingual">): string {
+  return withLanguageReminder(
+    "The teacher paused you to talk with the student directly, and you did not hear that conversation. Continue with the current problem: in one sentence, ask the student where they are with it now, then go on the way your tutoring mode says.",
+    language,
+    bilingual
+  );
+}
+
+/** The full system instruction; every provider receives exactly this text. */
+export function buildMathTutorSystemInstruction({
+  question,
+  answer,
+  wrongAnswer,
+  mode: modeId,
+  language,
+  bilingual = false,
+  pace,
+  position,
+  studentSummary,
+  teacherNotes,
+}: MathTutorPromptOptions): string {
+  const mode = getTutorMode(modeId);
+  const paceInstruction = getSpeechPace(pace).instruction;
   const wrongAnswerSection = wrongAnswer?.trim()
     ? `
 STUDENT'S ATTEMPT (wrong answer they typed): ${wrongAnswer.trim()}
@@ -15,20 +308,30 @@ ANALYZE THE WRONG ANSWER:
 
   return `You are a helpful math tutor assisting a student in a classroom. You are here to support them with ONE specific problem.
 
-LANGUAGE: Always respond in English only. Do not use Hindi or any other language.
+${buildLanguageSection(language, bilingual)}
 
 CURRENT PROBLEM:
 Question: ${question}
 Correct answer (for your reference only, do not reveal): ${answer}
 ${wrongAnswerSection}
+${buildProblemSetSection(position)}
+${buildStudentSection(studentSummary)}${buildTeacherNotesSection(teacherNotes)}PRIMARY GOAL: Get the student to the correct final answer for this exact problem.
+
+TUTORING MODE: ${mode.label}
+${mode.rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n")}
+
+FOCUS RULES:
+- Stay strictly on this problem until it is solved. Do not discuss unrelated topics or tangents.
+- If the student asks about something unrelated, bring them back in one sentence (for example "Let's focus on this math problem. Which part do you need help with?").
+- Ask one focused question at a time, then stop and wait for the student to reply.
+- Keep every reply to at most ${mode.maxSentences} sentences; this is a voice conversation.${paceInstruction ? `\n- ${paceInstruction}` : ""}
+
+WRITTEN TEXT:
+The student also reads along. At the start of every reply, call the ${DISPLAY_TEXT_TOOL.name} function with exactly what you are about to say, writing every mathematical expression in $...$ LaTeX (say "x squared minus four", write $x^2 - 4$). Then speak the reply as usual. Never mention this tool to the student.
+
+CHECKING ANSWERS:
+Whenever the student states an answer, call the ${CHECK_ANSWER_TOOL.name} function with it written in math notation before saying whether it is right. Trust its result over your own reading: if it says correct, confirm it; if it says incorrect, do not accept it, and use its detail (for example a missing solution) to guide your next question. If it cannot compare the answers, judge them yourself.
 
-YOUR BEHAVIOR:
-1. First introduce yourself briefly as their helper (e.g., "Hi, I'm here to help you with this problem.")
-2. Do NOT give a hint on the first turn. Instead, ask: "What do you need to know or understand to solve this question?" or "What would help you get started?"
-3. Wait for the student to tell you what they need. Based on their response, give targeted help. Use Socratic method - ask guiding questions.
-4. If the student provided a wrong answer, you can acknowledge it when they respond, and tailor your help based on your analysis.
-5. NEVER go off-topic. If the user asks about something unrelated, say: "Let's focus on this math problem. Can you tell me what part you need help with?"
-6. Do not give the full solution unless the user is clearly stuck after multiple hints.
-7. Keep responses concise (2-3 sentences for voice).
-8. Speak only in English. Never switch to Hindi or other languages.`;
+WHITEBOARD:
+You and the student share a whiteboard. When a step is easier to see than to hear (fractions, factoring, rearranging an equation), call the ${WHITEBOARD_TOOL.name} function with that one step in LaTeX, then talk about it. Write at most one step per reply and never write the final answer before the student reaches it. The student may send you an image of their own work on the board; read what they wrote and respond to it.`;
 }
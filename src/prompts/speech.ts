@@ -0,0 +1,37 @@
+export type SpeechPaceId = "slow" | "normal" | "fast";
+
+/** How quickly the tutor talks. */
+export interface SpeechPace {
+  id: SpeechPaceId;
+  label: string;
+  /** OpenAI `speed` multiplier (0.25 to 1.5); Gemini has no rate setting, so previews prefix the text instead. */
+  speed: number;
+  /** Added to the system instruction; the only pace control Gemini Live has. Empty for the normal pace. */
+  instruction: string;
+}
+
+export const SPEECH_PACES: SpeechPace[] = [
+  {
+    id: "slow",
+    label: "Slow",
+    speed: 0.85,
+    instruction: "Speak slowly and clearly, pausing briefly between steps, so a student who is still learning can follow.",
+  },
+  { id: "normal", label: "Normal", speed: 1, instruction: "" },
+  {
+    id: "fast",
+    label: "Fast",
+    speed: 1.2,
+    instruction: "Speak at a brisk pace without long pauses; the student prefers quick replies.",
+  },
+];
+
+export const DEFAULT_SPEECH_PACE: SpeechPaceId = "normal";
+
+export function isSpeechPaceId(value: unknown): value is SpeechPaceId {
+  return SPEECH_PACES.some((pace) => pace.id === value);
+}
+
+export function getSpeechPace(id: SpeechPaceId = DEFAULT_SPEECH_PACE): SpeechPace {
+  return SPEECH_PACES.find((pace) => pace.id === id) ?? SPEECH_PACES[1];
+}